@@ -0,0 +1,45 @@
+// Long-running consultation worker for self-hosted deployments
+// Usage: npm run worker   (stop with Ctrl+C)
+
+import { randomUUID } from "node:crypto";
+import { runWorker, sweepStaleJobs, probeTrippedAgents, sweepExpiringTokens } from "../src/lib/engine/index";
+
+const IDLE_DELAY_MS = 5_000;
+const PROBE_INTERVAL_MS = 60_000;
+const TOKEN_SWEEP_INTERVAL_MS = 5 * 60_000;
+
+async function main() {
+  const workerId = `worker-${randomUUID()}`;
+  let stopping = false;
+  process.on("SIGINT", () => (stopping = true));
+  process.on("SIGTERM", () => (stopping = true));
+
+  console.log(`[worker] ${workerId} started`);
+  let lastProbeAt = 0;
+  let lastTokenSweepAt = 0;
+  while (!stopping) {
+    const { settled } = await sweepStaleJobs();
+    if (settled > 0) console.log(`[worker] Settled ${settled} abandoned job(s)`);
+
+    if (Date.now() - lastProbeAt >= PROBE_INTERVAL_MS) {
+      lastProbeAt = Date.now();
+      const { probed, recovered } = await probeTrippedAgents();
+      if (probed > 0) console.log(`[worker] Probed ${probed} agent(s), ${recovered} recovered`);
+    }
+
+    if (Date.now() - lastTokenSweepAt >= TOKEN_SWEEP_INTERVAL_MS) {
+      lastTokenSweepAt = Date.now();
+      const { refreshed, failed } = await sweepExpiringTokens();
+      if (refreshed + failed > 0) console.log(`[worker] Refreshed ${refreshed} token(s), ${failed} failed`);
+    }
+
+    const ran = await runWorker({ workerId, maxJobs: 1 });
+    if (ran === 0) await new Promise((r) => setTimeout(r, IDLE_DELAY_MS));
+  }
+  console.log("[worker] Stopped");
+}
+
+main().catch((err) => {
+  console.error("[worker] Failed:", err);
+  process.exit(1);
+});
@@ -0,0 +1,55 @@
+// Copy all KV_KEYS families between storage backends (json / kv / sqlite)
+// Usage: npm run db:migrate -- --from json --to kv [--dry-run] [--families user,consultation]
+
+import { createAdapter, migrateStorage, KEY_FAMILIES, type DbMode, type MigrationReport } from "../src/lib/db/index";
+
+const MODES: DbMode[] = ["json", "kv", "sqlite"];
+
+function parseArgs(argv: string[]) {
+  const args: Record<string, string | boolean> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) continue;
+    const next = argv[i + 1];
+    if (next && !next.startsWith("--")) {
+      args[arg.slice(2)] = next;
+      i++;
+    } else {
+      args[arg.slice(2)] = true;
+    }
+  }
+  return args;
+}
+
+function printReport(from: DbMode, to: DbMode, report: MigrationReport) {
+  console.log(`[migrate] ${from} -> ${to}${report.dryRun ? " (dry run, nothing written)" : ""}`);
+  const width = Math.max(...Object.keys(report.families).map((name) => name.length));
+  for (const [name, counts] of Object.entries(report.families)) {
+    console.log(`  ${name.padEnd(width)}  ${String(counts.keys).padStart(6)} keys  ${counts.withTtl} with TTL`);
+  }
+  console.log(`[migrate] Total: ${report.totalKeys} keys`);
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const from = args.from as DbMode;
+  const to = args.to as DbMode;
+
+  if (!MODES.includes(from) || !MODES.includes(to) || from === to) {
+    console.error(`Usage: --from <${MODES.join("|")}> --to <${MODES.join("|")}> [--dry-run] [--families a,b]`);
+    console.error(`Families: ${KEY_FAMILIES.map((f) => f.name).join(", ")}`);
+    process.exit(1);
+  }
+
+  const families = typeof args.families === "string" ? args.families.split(",") : undefined;
+  const report = await migrateStorage(createAdapter(from), createAdapter(to), {
+    dryRun: args["dry-run"] === true,
+    families,
+  });
+  printReport(from, to, report);
+}
+
+main().catch((err) => {
+  console.error("[migrate] Failed:", err instanceof Error ? err.message : err);
+  process.exit(1);
+});
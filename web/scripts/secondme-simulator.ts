@@ -0,0 +1,41 @@
+// Local SecondMe stand-in for demos and end-to-end runs without network
+// Usage: npm run simulator -- [--port 4010] [--fixtures personas.json] [--chunk-delay 150]
+// Then point the app at it:
+//   SECONDME_API_BASE_URL=http://127.0.0.1:4010  SECONDME_OAUTH_URL=http://127.0.0.1:4010/oauth/
+// Pick who logs in with ?persona=<id> on the OAuth page (defaults to the first persona).
+
+import { readFileSync } from "node:fs";
+import { createSecondMeSimulator, type SimulatorOptions } from "../src/lib/secondme-simulator/index";
+
+const DEFAULT_PORT = 4010;
+
+function arg(name: string): string | undefined {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 ? process.argv[i + 1] : undefined;
+}
+
+async function main() {
+  const options: SimulatorOptions = { chunkDelayMs: Number(arg("chunk-delay") ?? 150) };
+  const fixturesPath = arg("fixtures");
+  if (fixturesPath) {
+    // { "personas": [...], "triageRules": [...] } - either may be omitted
+    Object.assign(options, JSON.parse(readFileSync(fixturesPath, "utf8")));
+  }
+
+  const simulator = createSecondMeSimulator(options);
+  const url = await simulator.listen(Number(arg("port") ?? DEFAULT_PORT));
+  console.log(`[simulator] SecondMe stand-in listening on ${url}`);
+  console.log(`[simulator] SECONDME_API_BASE_URL=${url} SECONDME_OAUTH_URL=${url}/oauth/`);
+  console.log(`[simulator] Inject faults with POST ${url}/__simulator/control {"target":"<persona>","fault":"timeout"}`);
+
+  const stop = () => {
+    simulator.close().then(() => process.exit(0));
+  };
+  process.on("SIGINT", stop);
+  process.on("SIGTERM", stop);
+}
+
+main().catch((err) => {
+  console.error("[simulator] Failed to start:", err);
+  process.exit(1);
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { parseAgentSettings, isInQuietHours, MAX_TAGS } from "@/lib/agent-settings";
+
+// 2026-03-01 23:30 in Beijing
+const LATE_EVENING = Date.UTC(2026, 2, 1, 15, 30);
+
+describe("Agent Settings", () => {
+  it("should treat quiet hours as Beijing time and wrap past midnight", () => {
+    expect(isInQuietHours({ start: 22, end: 8 }, LATE_EVENING)).toBe(true);
+    expect(isInQuietHours({ start: 9, end: 18 }, LATE_EVENING)).toBe(false);
+    expect(isInQuietHours({ start: 23, end: 0 }, LATE_EVENING)).toBe(true);
+    expect(isInQuietHours({ start: 8, end: 8 }, LATE_EVENING)).toBe(false);
+    expect(isInQuietHours(null, LATE_EVENING)).toBe(false);
+  });
+
+  it("should trim and de-duplicate tags and accept only the fields sent", () => {
+    expect(parseAgentSettings({ tags: [" 失眠 ", "失眠", "", "偏头痛"] })).toEqual({
+      settings: { tags: ["失眠", "偏头痛"] },
+    });
+    expect(parseAgentSettings({ paused: true, quietHours: null, dailyAnswerCap: 5 })).toEqual({
+      settings: { paused: true, quietHours: null, dailyAnswerCap: 5 },
+    });
+  });
+
+  it("should reject malformed settings", () => {
+    expect(parseAgentSettings({ tags: "失眠" })).toHaveProperty("error");
+    expect(parseAgentSettings({ tags: Array.from({ length: MAX_TAGS + 1 }, (_, n) => `标签${n}`) })).toHaveProperty("error");
+    expect(parseAgentSettings({ tags: ["这是一个特别特别特别长的标签"] })).toHaveProperty("error");
+    expect(parseAgentSettings({ paused: "yes" })).toHaveProperty("error");
+    expect(parseAgentSettings({ quietHours: { start: 22, end: 24 } })).toHaveProperty("error");
+    expect(parseAgentSettings({ dailyAnswerCap: 0 })).toHaveProperty("error");
+    expect(parseAgentSettings({ dailyAnswerCap: 1.5 })).toHaveProperty("error");
+  });
+});
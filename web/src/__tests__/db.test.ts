@@ -1,46 +1,51 @@
-import { describe, it, expect, beforeEach, afterEach } from "vitest";
-import * as fs from "fs";
-import * as path from "path";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import {
   upsertUser,
   getUserById,
   getUserBySecondmeId,
   getConsultableUsers,
-  circuitBreakUser,
+  searchAgents,
+  updateAgentSettings,
+  recordAgentRequest,
+  recordAgentFailure,
+  notifyUser,
   updateUserTokens,
   createConsultation,
   getConsultation,
   updateConsultation,
+  cancelConsultation,
   getUserConsultations,
   addAgentResponse,
   addAgentResponsesBatch,
   getAgentResponses,
   checkDBHealth,
   getDBMode,
-  resetJSONCache,
+  acquireLock,
+  releaseLock,
   type UserRecord,
   type AgentResponseRecord,
 } from "@/lib/db";
-
-const TEST_DB_FILE = path.join(process.cwd(), "data", "medcrowd.db.json");
+import { createConsultationOps } from "@/lib/db/consultations";
+import { createUserOps } from "@/lib/db/users";
+import { createJsonAdapter } from "@/lib/db/json-adapter";
+import { AGENT_BREAKER, type DbAdapter } from "@/lib/db/types";
+import { resetTestDb } from "@/test/db";
 
 describe("DB Layer Contract Tests", () => {
   beforeEach(() => {
     process.env.KV_REST_API_URL = "";
     process.env.DB_MODE = "json";
-    resetJSONCache();
-    if (fs.existsSync(TEST_DB_FILE)) {
-      fs.unlinkSync(TEST_DB_FILE);
-    }
+    resetTestDb();
   });
 
   afterEach(() => {
-    if (fs.existsSync(TEST_DB_FILE)) {
-      fs.unlinkSync(TEST_DB_FILE);
-    }
+    resetTestDb();
   });
 
-  describe("Database Mode", () => {
+  // The suite also runs against SQLite via `npm run test:sqlite`
+  const SQLITE_RUN = process.env.DB_MODE === "sqlite";
+
+  describe.skipIf(SQLITE_RUN)("Database Mode", () => {
     it("should report JSON mode when KV_REST_API_URL is not set", () => {
       process.env.KV_REST_API_URL = "";
       expect(getDBMode()).toBe("json");
@@ -53,6 +58,15 @@ describe("DB Layer Contract Tests", () => {
     });
   });
 
+  describe.runIf(SQLITE_RUN)("Database Mode (SQLite)", () => {
+    it("should report SQLite mode when DB_MODE=sqlite", async () => {
+      expect(getDBMode()).toBe("sqlite");
+      const health = await checkDBHealth();
+      expect(health.healthy).toBe(true);
+      expect(health.mode).toBe("sqlite");
+    });
+  });
+
   describe("User Operations", () => {
     it("should upsert a new user", async () => {
       const user = await upsertUser({
@@ -147,7 +161,7 @@ describe("DB Layer Contract Tests", () => {
       expect(updated?.refreshToken).toBe("new-refresh");
     });
 
-    it("should circuit break user", async () => {
+    it("should open the breaker on a fatal failure", async () => {
       const user = await upsertUser({
         secondmeId: "test-secondme-6",
         name: "Test User",
@@ -157,11 +171,10 @@ describe("DB Layer Contract Tests", () => {
         expiresIn: 7200,
       });
 
-      const futureTime = Date.now() + 30 * 60 * 1000;
-      await circuitBreakUser(user.id, 30 * 60 * 1000);
+      await recordAgentFailure(user.id, "401 Unauthorized", { trip: true });
 
       const updated = await getUserById(user.id);
-      expect(updated?.circuitBreakerUntil).toBeGreaterThan(futureTime - 1000);
+      expect(updated?.circuitBreakerUntil).toBeGreaterThan(Date.now());
     });
 
     it("should get consultable users excluding self", async () => {
@@ -200,11 +213,167 @@ describe("DB Layer Contract Tests", () => {
       });
 
       // Circuit break the user
-      await circuitBreakUser(user.id, 30 * 60 * 1000);
+      await recordAgentFailure(user.id, "401 Unauthorized", { trip: true });
 
       const consultable = await getConsultableUsers("other-user-id");
       expect(consultable.find((u) => u.id === user.id)).toBeUndefined();
     });
+
+    it("should load preferred consultable users first and stop at the limit", async () => {
+      const users: UserRecord[] = [];
+      for (const n of [1, 2, 3]) {
+        users.push(
+          await upsertUser({
+            secondmeId: `test-secondme-pool-${n}`,
+            name: `Pool ${n}`,
+            avatar: "avatar.png",
+            accessToken: "token",
+            refreshToken: "refresh",
+            expiresIn: 7200,
+          })
+        );
+      }
+
+      const consultable = await getConsultableUsers("other-user-id", {
+        preferredIds: [users[2].id, "unknown-id"],
+        limit: 2,
+      });
+      expect(consultable.length).toBe(2);
+      expect(consultable[0].id).toBe(users[2].id);
+    });
+
+    it("should keep a paused agent out of the pool across logins", async () => {
+      const login = {
+        secondmeId: "test-secondme-paused",
+        name: "Paused",
+        avatar: "avatar.png",
+        accessToken: "token",
+        refreshToken: "refresh",
+        expiresIn: 7200,
+      };
+      const user = await upsertUser(login);
+
+      await updateAgentSettings(user.id, { paused: true });
+      await upsertUser(login);
+      expect((await getConsultableUsers("other-user-id")).find((u) => u.id === user.id)).toBeUndefined();
+
+      await updateAgentSettings(user.id, { paused: false });
+      expect((await getConsultableUsers("other-user-id")).find((u) => u.id === user.id)).toBeDefined();
+    });
+
+    it("should keep an unpaused agent out of the pool while its breaker is open or it must log in again", async () => {
+      const login = {
+        secondmeId: "test-secondme-tripped",
+        name: "Tripped",
+        avatar: "avatar.png",
+        accessToken: "token",
+        refreshToken: "refresh",
+        expiresIn: 7200,
+      };
+      const user = await upsertUser(login);
+      const inPool = async () =>
+        (await getConsultableUsers("other-user-id")).some((u) => u.id === user.id);
+
+      await updateAgentSettings(user.id, { paused: true });
+      await recordAgentFailure(user.id, "token refresh failed: invalid_grant", { trip: true });
+      await notifyUser(user.id, { type: "relogin_required", message: "请重新登录" });
+
+      // Past the open window, but no probe has closed the breaker yet
+      vi.useFakeTimers({ now: Date.now() + AGENT_BREAKER.BASE_OPEN_MS + 1, toFake: ["Date"] });
+      try {
+        await updateAgentSettings(user.id, { paused: false });
+        expect(await inPool()).toBe(false);
+
+        // Logging in again resets the breaker and clears the notice
+        await upsertUser(login);
+        expect(await inPool()).toBe(true);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("should respect quiet hours and the daily cap", async () => {
+      const user = await upsertUser({
+        secondmeId: "test-secondme-limits",
+        name: "Limits",
+        avatar: "avatar.png",
+        accessToken: "token",
+        refreshToken: "refresh",
+        expiresIn: 7200,
+      });
+      const inPool = async () => (await getConsultableUsers("other-user-id")).some((u) => u.id === user.id);
+
+      // Quiet for just the current hour
+      const hour = new Date(Date.now() + 8 * 60 * 60 * 1000).getUTCHours();
+      await updateAgentSettings(user.id, { quietHours: { start: hour, end: (hour + 1) % 24 } });
+      expect(await inPool()).toBe(false);
+      await updateAgentSettings(user.id, { quietHours: null, dailyAnswerCap: 2 });
+      expect(await inPool()).toBe(true);
+
+      await recordAgentRequest(user.id);
+      expect(await inPool()).toBe(true);
+      await recordAgentRequest(user.id);
+      expect(await inPool()).toBe(false);
+    });
+
+    it("should keep a token refresh that races a settings change", async () => {
+      // Every read takes a while, so unlocked read-modify-writes would overlap
+      const base = createJsonAdapter();
+      const slow: DbAdapter = {
+        ...base,
+        get: async (key) => {
+          const value = structuredClone(await base.get(key));
+          await new Promise((r) => setTimeout(r, 10));
+          return value as never;
+        },
+      };
+      const ops = createUserOps(slow);
+      const user = await ops.upsertUser({
+        secondmeId: "test-secondme-race",
+        name: "Race",
+        avatar: "avatar.png",
+        accessToken: "token",
+        refreshToken: "refresh",
+        expiresIn: 7200,
+      });
+
+      await Promise.all([
+        ops.updateAgentSettings(user.id, { dailyAnswerCap: 3 }),
+        ops.updateUserTokens(user.id, "token-2", "refresh-2", 7200),
+      ]);
+
+      expect(await ops.getUserById(user.id)).toMatchObject({ dailyAnswerCap: 3, refreshToken: "refresh-2" });
+    });
+
+    it("should match agents by tags and bio through the relevance index", async () => {
+      const stomach = await upsertUser({
+        secondmeId: "test-secondme-gi",
+        name: "GI",
+        avatar: "avatar.png",
+        accessToken: "token",
+        refreshToken: "refresh",
+        expiresIn: 7200,
+        bio: "做过两次胃镜，慢性胃炎调理了三年",
+      });
+      const sleep = await upsertUser({
+        secondmeId: "test-secondme-sleep",
+        name: "Sleep",
+        avatar: "avatar.png",
+        accessToken: "token",
+        refreshToken: "refresh",
+        expiresIn: 7200,
+        bio: "长期失眠，试过很多助眠方法",
+      });
+
+      let matches = await searchAgents("做胃镜前需要注意什么？", 10);
+      expect(matches[0].agentId).toBe(stomach.id);
+      expect(matches.find((m) => m.agentId === sleep.id)).toBeUndefined();
+
+      // Tag edits re-index the agent
+      await updateAgentSettings(sleep.id, { tags: ["胃镜"] });
+      matches = await searchAgents("做胃镜前需要注意什么？", 10);
+      expect(matches.map((m) => m.agentId)).toContain(sleep.id);
+    });
   });
 
   describe("Consultation Operations", () => {
@@ -245,6 +414,59 @@ describe("DB Layer Contract Tests", () => {
       expect(updated?.agentCount).toBe(5);
     });
 
+    it("should cancel a running consultation and ignore later engine writes", async () => {
+      const consultation = await createConsultation("asker-id-5", "Test question");
+      await updateConsultation(consultation.id, { status: "CONSULTING" });
+
+      expect(await cancelConsultation(consultation.id, "已由提问者取消")).toBe(true);
+      await updateConsultation(consultation.id, { status: "DONE", agentCount: 3 });
+
+      const updated = await getConsultation(consultation.id);
+      expect(updated?.status).toBe("CANCELLED");
+      expect(updated?.statusReason).toBe("已由提问者取消");
+      expect(updated?.agentCount).toBe(0);
+    });
+
+    it("should keep cancel and the engine's final write from overwriting each other", async () => {
+      // Slow, copying reads (like KV and SQLite) force both read-modify-writes to interleave
+      const base = createJsonAdapter();
+      const slow: DbAdapter = {
+        ...base,
+        get: async <T>(key: string) => {
+          const value = structuredClone(await base.get<T>(key));
+          await new Promise((r) => setTimeout(r, 20));
+          return value;
+        },
+      };
+      const ops = createConsultationOps(slow);
+      const summary = { consensus: [] };
+
+      for (let i = 0; i < 5; i++) {
+        const consultation = await ops.createConsultation("asker-id-7", "Test question");
+        await ops.updateConsultation(consultation.id, { status: "CONSULTING" });
+
+        const [cancelled] = await Promise.all([
+          ops.cancelConsultation(consultation.id, "已由提问者取消"),
+          ops.updateConsultation(consultation.id, { status: "DONE", summary }),
+        ]);
+
+        const record = await ops.getConsultation(consultation.id);
+        if (cancelled) {
+          expect(record).toMatchObject({ status: "CANCELLED", summary: null });
+        } else {
+          expect(record).toMatchObject({ status: "DONE", summary });
+        }
+      }
+    });
+
+    it("should not cancel a finished consultation", async () => {
+      const consultation = await createConsultation("asker-id-6", "Test question");
+      await updateConsultation(consultation.id, { status: "DONE" });
+
+      expect(await cancelConsultation(consultation.id, "已由提问者取消")).toBe(false);
+      expect((await getConsultation(consultation.id))?.status).toBe("DONE");
+    });
+
     it("should get user consultations sorted by time", async () => {
       await createConsultation("asker-id-4", "Question 1");
       await new Promise((resolve) => setTimeout(resolve, 10)); // 确保时间差
@@ -529,6 +751,28 @@ describe("DB Layer Contract Tests", () => {
     });
   });
 
+  describe("Lock Helpers", () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it("should hold a lock until released", async () => {
+      expect(await acquireLock("token-refresh:user-1", 10)).toBe(true);
+      expect(await acquireLock("token-refresh:user-1", 10)).toBe(false);
+
+      await releaseLock("token-refresh:user-1");
+      expect(await acquireLock("token-refresh:user-1", 10)).toBe(true);
+    });
+
+    it("should release a lock automatically after its TTL", async () => {
+      expect(await acquireLock("token-refresh:user-2", 10)).toBe(true);
+
+      const now = Date.now();
+      vi.spyOn(Date, "now").mockReturnValue(now + 11_000);
+      expect(await acquireLock("token-refresh:user-2", 10)).toBe(true);
+    });
+  });
+
   describe("Async Contract Verification", () => {
     it("all exported functions should return promises", async () => {
       // 验证所有函数都是异步的（返回 Promise）
@@ -554,7 +798,7 @@ describe("DB Layer Contract Tests", () => {
       expect(getUserConsultations(user.id)).toBeInstanceOf(Promise);
       expect(getAgentResponses(consultation.id)).toBeInstanceOf(Promise);
       expect(updateUserTokens(user.id, "new", "new", 3600)).toBeInstanceOf(Promise);
-      expect(circuitBreakUser(user.id, 1000)).toBeInstanceOf(Promise);
+      expect(recordAgentFailure(user.id, "timeout")).toBeInstanceOf(Promise);
     });
   });
 });
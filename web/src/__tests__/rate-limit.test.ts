@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { NextRequest } from "next/server";
+import { middleware } from "@/middleware";
+import { createJsonAdapter } from "@/lib/db/json-adapter";
+import { refundRateLimit, sessionRateLimitId, RATE_LIMIT_WINDOW_HEADER, WINDOW_SECONDS } from "@/lib/rate-limit";
+import { resetTestDb } from "@/test/db";
+
+const SESSION = "sealed-session-cookie";
+const IDENTIFIER = sessionRateLimitId(SESSION);
+
+// Serve Upstash REST commands from a local store; EVAL stands in for the refund script
+function upstashFetch() {
+  const db = createJsonAdapter();
+  return vi.fn(async (_input: string | URL | Request, init?: RequestInit) => {
+    const [command, ...args] = JSON.parse(String(init?.body)) as string[];
+    const key = args[args.length - 1];
+    let result: unknown;
+    if (command === "INCR") result = await db.incr(args[0]);
+    else if (command === "EXPIRE") result = await db.expire(args[0], Number(args[1]));
+    else if (command === "EVAL") result = ((await db.get<number>(key)) ?? 0) > 0 ? await db.incr(key, -1) : 0;
+    return Response.json({ result });
+  });
+}
+
+function apiRequest(method: string, path: string): NextRequest {
+  return new NextRequest(`http://localhost${path}`, {
+    method,
+    headers: { cookie: `medcrowd_session=${SESSION}` },
+  });
+}
+
+async function windowCount(windowId: number): Promise<number> {
+  return (await createJsonAdapter().get<number>(`ratelimit:${IDENTIFIER}:${windowId}`)) ?? 0;
+}
+
+describe("Rate limit refunds", () => {
+  beforeEach(() => {
+    process.env.DB_MODE = "json";
+    resetTestDb();
+    vi.stubEnv("UPSTASH_REDIS_REST_URL", "http://upstash.test");
+    vi.stubEnv("UPSTASH_REDIS_REST_TOKEN", "token");
+    vi.stubGlobal("fetch", upstashFetch());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    resetTestDb();
+  });
+
+  async function createThenCancel(cancelAfterMs: number): Promise<number> {
+    const created = await middleware(apiRequest("POST", "/api/consultation"));
+    const windowId = Number(created.headers.get(`x-middleware-request-${RATE_LIMIT_WINDOW_HEADER}`));
+    expect(await windowCount(windowId)).toBe(1);
+
+    vi.setSystemTime(Date.now() + cancelAfterMs);
+    const cancelled = await middleware(apiRequest("DELETE", "/api/consultation/c-1"));
+    expect(cancelled.headers.get("X-RateLimit-Limit")).toBeNull();
+
+    await refundRateLimit(IDENTIFIER, windowId);
+    return windowId;
+  }
+
+  it("should leave a created-then-cancelled consultation uncharged", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.UTC(2026, 2, 1, 12, 0, 10));
+
+    const windowId = await createThenCancel(1000);
+    expect(await windowCount(windowId)).toBe(0);
+  });
+
+  it("should refund the charged window after the window rolls over", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.UTC(2026, 2, 1, 12, 0, 59, 500));
+
+    const windowId = await createThenCancel(WINDOW_SECONDS * 1000);
+    expect(await windowCount(windowId)).toBe(0);
+    expect(await windowCount(windowId + 1)).toBe(0);
+  });
+
+  it("should refund the charged Upstash key in one script that stops at zero", async () => {
+    const windowId = await createThenCancel(1000);
+    await refundRateLimit(IDENTIFIER, windowId);
+
+    expect(await windowCount(windowId)).toBe(0);
+    const evals = vi.mocked(fetch).mock.calls
+      .map(([, init]) => JSON.parse(String(init?.body)))
+      .filter(([command]) => command === "EVAL");
+    expect(evals).toHaveLength(2);
+    expect(evals[0].slice(2)).toEqual([1, `ratelimit:${IDENTIFIER}:${windowId}`]);
+  });
+
+  it("should still count other consultation requests", async () => {
+    const res = await middleware(apiRequest("GET", "/api/consultation/c-1"));
+    expect(res.headers.get("X-RateLimit-Remaining")).toBe("59");
+  });
+});
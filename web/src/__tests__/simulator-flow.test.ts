@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from "vitest";
+import {
+  upsertUser,
+  getConsultation,
+  getAgentBreaker,
+  getNotifications,
+  type UserRecord,
+} from "@/lib/db";
+import { getAuthorizationUrl, exchangeCodeForTokens, getUserInfo } from "@/lib/secondme";
+import { runConsultation, sweepExpiringTokens } from "@/lib/engine";
+import { createSecondMeSimulator, DEFAULT_PERSONAS, type SecondMeSimulator } from "@/lib/secondme-simulator";
+import { resetTestDb } from "@/test/db";
+
+// login → ask → report against the local SecondMe simulator, no network
+
+const AGENT_PERSONAS = DEFAULT_PERSONAS.filter((p) => p.id !== "sim-asker").map((p) => p.id);
+
+describe("End-to-end flow against the SecondMe simulator", () => {
+  let simulator: SecondMeSimulator;
+  const saved: Record<string, string | undefined> = {};
+
+  beforeAll(async () => {
+    simulator = createSecondMeSimulator();
+    const url = await simulator.listen();
+    const env = {
+      SECONDME_API_BASE_URL: url,
+      SECONDME_OAUTH_URL: `${url}/oauth/`,
+      SECONDME_CLIENT_ID: "sim-client",
+      SECONDME_CLIENT_SECRET: "sim-secret",
+      SECONDME_REDIRECT_URI: "http://localhost:3000/api/auth/callback",
+    };
+    for (const [key, value] of Object.entries(env)) {
+      saved[key] = process.env[key];
+      process.env[key] = value;
+    }
+  });
+
+  afterAll(async () => {
+    for (const [key, value] of Object.entries(saved)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+    await simulator.close();
+  });
+
+  beforeEach(() => {
+    resetTestDb();
+    for (const id of AGENT_PERSONAS) simulator.setFault(id, null);
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    resetTestDb();
+  });
+
+  /** The OAuth callback's steps, starting from the login redirect */
+  async function login(persona: string): Promise<UserRecord> {
+    const res = await fetch(`${getAuthorizationUrl("state")}&persona=${persona}`, { redirect: "manual" });
+    const code = new URL(res.headers.get("location")!).searchParams.get("code")!;
+    const tokens = await exchangeCodeForTokens(code);
+    const info = await getUserInfo(tokens.accessToken);
+    return upsertUser({
+      secondmeId: info.userId,
+      name: info.name,
+      avatar: info.avatar || "",
+      bio: info.bio,
+      accessToken: tokens.accessToken,
+      refreshToken: tokens.refreshToken,
+      expiresIn: tokens.expiresIn,
+    });
+  }
+
+  async function loginEveryone() {
+    const agents = new Map<string, UserRecord>();
+    for (const id of AGENT_PERSONAS) agents.set(id, await login(id));
+    return { asker: await login("sim-asker"), agents };
+  }
+
+  it("should produce a report from real streamed answers", async () => {
+    const { asker } = await loginEveryone();
+
+    const result = await runConsultation(asker.id, "做胃镜是什么感受，需要准备什么");
+
+    expect(result.triage?.intent).toBe("experience_sharing");
+    expect(result.status).toBe("DONE");
+    expect(result.responses.filter((r) => r.isValid).length).toBeGreaterThanOrEqual(3);
+    expect(result.summary?.agentResponses.length).toBeGreaterThanOrEqual(3);
+    const record = await getConsultation(result.consultationId);
+    expect(record?.status).toBe("DONE");
+    expect(record?.summary).not.toBeNull();
+  });
+
+  it("should report without the agents whose tokens are rejected", async () => {
+    const { asker, agents } = await loginEveryone();
+    simulator.setFault("sim-runner", "unauthorized");
+    simulator.setFault("sim-parent", "malformed");
+
+    const result = await runConsultation(asker.id, "长期失眠怎么调整作息");
+
+    expect(result.status).toBe("DONE");
+    const runner = agents.get("sim-runner")!;
+    expect(result.responses.find((r) => r.responderId === runner.id)?.isValid).toBe(false);
+    expect((await getAgentBreaker(runner.id))?.state).toBe("OPEN");
+    // Garbled frames around the answer still produce a valid reply
+    const parent = agents.get("sim-parent")!;
+    expect(result.responses.find((r) => r.responderId === parent.id)?.isValid).toBe(true);
+  });
+
+  it("should stop on emergency triage without asking agents", async () => {
+    const { asker } = await loginEveryone();
+    const before = simulator.requests.filter((r) => r.path === "/api/secondme/chat/stream").length;
+
+    const result = await runConsultation(asker.id, "突然胸痛呼吸困难");
+
+    expect(result.triage?.intent).toBe("emergency");
+    expect(result.responses).toEqual([]);
+    expect(simulator.requests.filter((r) => r.path === "/api/secondme/chat/stream").length).toBe(before);
+  });
+
+  it("should ask owners whose app access was revoked to log in again", async () => {
+    const { agents } = await loginEveryone();
+    const checkup = agents.get("sim-checkup")!;
+    // Bring every token into the sweep window, then revoke one owner
+    for (const id of AGENT_PERSONAS) {
+      const agent = agents.get(id)!;
+      await upsertUser({
+        secondmeId: id,
+        name: agent.name,
+        avatar: "",
+        accessToken: agent.accessToken,
+        refreshToken: agent.refreshToken,
+        expiresIn: 60,
+      });
+    }
+    simulator.revokeTokens("sim-checkup");
+
+    const report = await sweepExpiringTokens();
+
+    expect(report).toMatchObject({ refreshed: AGENT_PERSONAS.length - 1, reloginRequired: 1 });
+    expect((await getNotifications(checkup.id)).map((n) => n.type)).toEqual(["relogin_required"]);
+  });
+});
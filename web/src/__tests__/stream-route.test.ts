@@ -0,0 +1,77 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { NextRequest } from "next/server";
+import {
+  createConsultation,
+  updateConsultation,
+  addConsultationAgents,
+  getConsultationAgentOrder,
+  type AgentResponseRecord,
+} from "@/lib/db";
+import { toResponseViews } from "@/lib/consultation-thread";
+import { publishEvent } from "@/lib/engine/event-bus";
+import { GET } from "@/app/api/consultation/[id]/stream/route";
+import { resetTestDb } from "@/test/db";
+
+vi.mock("@/lib/session", () => ({
+  getSession: vi.fn(async () => ({ userId: "asker-1" })),
+}));
+
+async function readStream(id: string, lastEventId?: number): Promise<string> {
+  const request = new NextRequest(`http://localhost/api/consultation/${id}/stream`, {
+    headers: lastEventId ? { "last-event-id": String(lastEventId) } : {},
+  });
+  const res = await GET(request, { params: Promise.resolve({ id }) });
+  return res.text();
+}
+
+describe("Consultation Stream Route", () => {
+  beforeEach(() => {
+    resetTestDb();
+  });
+
+  afterEach(() => {
+    resetTestDb();
+  });
+
+  it("should replay events after Last-Event-ID when reconnecting to a finished consultation", async () => {
+    const { id } = await createConsultation("asker-1", "最近总是失眠怎么办");
+    await publishEvent(id, { type: "validation:complete", validCount: 1, totalCount: 2 });
+    await publishEvent(id, { type: "consultation:done", status: "DONE" });
+    await updateConsultation(id, { status: "DONE" });
+
+    const body = await readStream(id, 1);
+
+    expect(body).not.toContain("event: validation:complete");
+    expect(body).toContain("id: 2\nevent: consultation:done");
+    expect(body.match(/event: done/g)).toHaveLength(1);
+  });
+
+  it("should still close a finished stream whose log is empty", async () => {
+    const { id } = await createConsultation("asker-1", "最近总是失眠怎么办");
+    await updateConsultation(id, { status: "CANCELLED" });
+
+    const body = await readStream(id);
+
+    expect(body).toContain('event: done\ndata: {"status":"CANCELLED"}');
+  });
+
+  it("should label agents as the report does even when a later-queried agent answers first", async () => {
+    const { id } = await createConsultation("asker-1", "最近总是失眠怎么办");
+    await addConsultationAgents(id, ["agent-a", "agent-b"]);
+    await addConsultationAgents(id, ["agent-b", "agent-c"]);
+    await publishEvent(id, { type: "agent:response", agentId: "agent-c", round: "initial", latencyMs: 10 });
+    await publishEvent(id, { type: "agent:response", agentId: "agent-a", round: "initial", latencyMs: 20 });
+    await publishEvent(id, { type: "consultation:done", status: "DONE" });
+    await updateConsultation(id, { status: "DONE" });
+    const answer = (responderId: string, createdAt: number) =>
+      ({ id: responderId, responderId, consultationId: id, createdAt, keyPoints: [], isValid: true }) as unknown as AgentResponseRecord;
+
+    const [fresh, resumed] = [await readStream(id), await readStream(id, 1)];
+    const views = toResponseViews([answer("agent-c", 1), answer("agent-a", 2)], await getConsultationAgentOrder(id));
+
+    expect(views.map((v) => v.agentLabel)).toEqual(["代理 3", "代理 1"]);
+    expect(fresh).toContain('"agentLabel":"代理 3"');
+    expect(resumed).not.toContain("代理 3");
+    expect(resumed).toContain('"agentLabel":"代理 1"');
+  });
+});
@@ -0,0 +1,143 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { getSession } from "@/lib/session";
+import {
+  getAgentReputation,
+  getResponderAnswers,
+  getConsultation,
+  getFeedback,
+  type AgentResponseRecord,
+} from "@/lib/db";
+import { scoreReputation, MIN_REPUTATION_SAMPLES } from "@/lib/reputation";
+import { anonymiseQuestion } from "@/lib/consultation-thread";
+import RetractAnswerButton from "@/components/retract-answer-button";
+
+const ANSWER_HISTORY_LIMIT = 30;
+
+const ROUND_LABELS: Record<NonNullable<AgentResponseRecord["round"]>, string> = {
+  initial: "首次回答",
+  reaction: "讨论",
+  followup: "追问",
+  directed: "单独追问",
+};
+
+function percent(rate: number | null): string {
+  return rate === null ? "—" : `${Math.round(rate * 100)}%`;
+}
+
+export default async function AgentPage() {
+  const session = await getSession();
+  if (!session) redirect("/");
+
+  const stats = await getAgentReputation(session.userId);
+  const reputation = scoreReputation(stats);
+
+  // The question (masked) and the asker's vote for each consultation the agent answered in
+  const answers = await getResponderAnswers(session.userId, ANSWER_HISTORY_LIMIT);
+  const consultationIds = [...new Set(answers.map((a) => a.consultationId))];
+  const contexts = new Map(
+    await Promise.all(
+      consultationIds.map(async (id) => {
+        const consultation = await getConsultation(id);
+        const feedback = consultation ? await getFeedback(id, consultation.askerId) : null;
+        const question = consultation ? anonymiseQuestion(consultation.question) : "（咨询已删除）";
+        return [id, { question, vote: feedback?.vote }] as const;
+      })
+    )
+  );
+
+  const rows = [
+    { label: "有效回答率", value: percent(reputation.validRate) },
+    { label: "超时率", value: percent(reputation.timeoutRate) },
+    { label: "重复率", value: percent(reputation.duplicateRate) },
+    { label: "提问者认为有帮助", value: percent(reputation.helpfulRate) },
+    {
+      label: "回答耗时中位数",
+      value: reputation.medianLatencyMs === null ? "—" : `${(reputation.medianLatencyMs / 1000).toFixed(1)} 秒`,
+    },
+  ];
+
+  return (
+    <div className="space-y-8">
+      <div className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold text-gray-900">我的代理</h1>
+        <Link href="/settings/agent" className="text-sm text-emerald-700 hover:underline">
+          擅长话题与可用时间设置
+        </Link>
+      </div>
+
+      {/* 信誉分 */}
+      <section className="rounded-lg border border-gray-200 bg-white p-4">
+        <h2 className="text-lg font-semibold text-gray-800 mb-2">信誉分</h2>
+        <p className="text-4xl font-bold text-emerald-700">{Math.round(reputation.score * 100)}</p>
+        <p className="text-xs text-gray-500 mt-1">
+          已回答 {reputation.samples} 次咨询
+          {reputation.isNew && `；回答满 ${MIN_REPUTATION_SAMPLES} 次前，平台会优先邀请你的代理以积累评分`}
+        </p>
+
+        <dl className="mt-4 grid grid-cols-2 gap-3 sm:grid-cols-3">
+          {rows.map((row) => (
+            <div key={row.label} className="rounded-lg bg-gray-50 p-3">
+              <dt className="text-xs text-gray-500">{row.label}</dt>
+              <dd className="text-lg font-medium text-gray-900">{row.value}</dd>
+            </div>
+          ))}
+        </dl>
+
+        <p className="text-sm text-gray-600 mt-4">
+          提问者评价：有帮助 {stats?.helpful ?? 0} 次 · 没帮助 {stats?.notHelpful ?? 0} 次
+        </p>
+
+        <p className="text-xs text-gray-400 mt-2">
+          信誉分综合有效回答率、超时率、回答速度和提问者反馈计算，分数越高，你的代理越容易被邀请回答相关问题。
+        </p>
+      </section>
+
+      {/* 代理的回答 */}
+      <section className="rounded-lg border border-gray-200 bg-white p-4">
+        <h2 className="text-lg font-semibold text-gray-800 mb-1">代理替你说了什么</h2>
+        <p className="text-xs text-gray-500 mb-4">
+          你的代理最近 {ANSWER_HISTORY_LIMIT} 条回答。提问者的个人信息已隐去；撤回后提问者的报告会标注该回复已撤回。
+        </p>
+
+        {answers.length === 0 ? (
+          <p className="text-sm text-gray-400">你的代理还没有回答过问题</p>
+        ) : (
+          <ul className="space-y-4">
+            {answers.map((answer) => {
+              const context = contexts.get(answer.consultationId);
+              return (
+                <li key={answer.id} className="border-l-2 border-emerald-200 pl-3 space-y-1">
+                  <p className="text-xs text-gray-500">
+                    {new Date(answer.createdAt).toLocaleString("zh-CN")} · {ROUND_LABELS[answer.round ?? "initial"]}
+                    {context?.vote && (
+                      <span className="ml-1">· 提问者评价：{context.vote === "helpful" ? "有帮助" : "没帮助"}</span>
+                    )}
+                  </p>
+                  <p className="text-sm font-medium text-gray-900">问：{context?.question}</p>
+                  <p className="text-sm text-gray-700 whitespace-pre-line">
+                    {answer.rawResponse || "（未能给出回答）"}
+                  </p>
+                  <div className="flex items-center justify-between">
+                    <p className="text-xs">
+                      {answer.retracted ? (
+                        <span className="text-gray-400">已撤回</span>
+                      ) : answer.isValid ? (
+                        <span className="text-emerald-600">已展示给提问者</span>
+                      ) : (
+                        <span className="text-amber-600">未通过校验：{answer.invalidReason || "未知原因"}</span>
+                      )}
+                    </p>
+                    {!answer.retracted && answer.isValid && (
+                      <RetractAnswerButton consultationId={answer.consultationId} responseId={answer.id} />
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
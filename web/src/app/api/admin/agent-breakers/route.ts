@@ -0,0 +1,26 @@
+// Agent circuit breakers: every tripped breaker, or one agent's breaker and state history (admin only)
+
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { isAdmin } from "@/lib/admin";
+import { getAgentBreaker, getAgentBreakerHistory, getTrippedAgentBreakers } from "@/lib/db";
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: "未登录" }, { status: 401 });
+  }
+  if (!isAdmin(session.userId)) {
+    return NextResponse.json({ error: "无权访问" }, { status: 403 });
+  }
+
+  const agentId = request.nextUrl.searchParams.get("agentId");
+  if (!agentId) {
+    return NextResponse.json({ tripped: await getTrippedAgentBreakers() });
+  }
+
+  return NextResponse.json({
+    breaker: await getAgentBreaker(agentId),
+    history: await getAgentBreakerHistory(agentId),
+  });
+}
@@ -0,0 +1,19 @@
+// Storage latency percentiles and KV migration triggers (admin only)
+
+import { NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { isAdmin } from "@/lib/admin";
+import { checkHealthMetricsMigrationTriggers, getDBMode } from "@/lib/db";
+
+export async function GET(): Promise<NextResponse> {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: "未登录" }, { status: 401 });
+  }
+  if (!isAdmin(session.userId)) {
+    return NextResponse.json({ error: "无权访问" }, { status: 403 });
+  }
+
+  const triggers = await checkHealthMetricsMigrationTriggers();
+  return NextResponse.json({ mode: getDBMode(), ...triggers });
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { after } from "next/server";
+import { getSession } from "@/lib/session";
+import { retractAgentResponse, getConsultation } from "@/lib/db";
+import { refreshSummary } from "@/lib/engine";
+
+// The agent's owner withdraws one of its answers; the asker's report marks it as
+// withdrawn and its summary is rebuilt without it
+export async function POST(request: NextRequest): Promise<NextResponse> {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: "未登录" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const { consultationId, responseId } = body ?? {};
+  if (typeof consultationId !== "string" || typeof responseId !== "string") {
+    return NextResponse.json({ error: "缺少 consultationId 或 responseId" }, { status: 400 });
+  }
+
+  const retracted = await retractAgentResponse(session.userId, consultationId, responseId);
+  if (!retracted) {
+    return NextResponse.json({ error: "未找到该回复" }, { status: 404 });
+  }
+
+  // A run still in progress builds its summary after this, without the answer
+  const consultation = await getConsultation(consultationId);
+  if (consultation?.summary) {
+    after(async () => {
+      try {
+        await refreshSummary(consultation);
+      } catch (err) {
+        console.error("Summary refresh after retraction failed:", err);
+      }
+    });
+  }
+  return NextResponse.json({ retracted: true });
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { getUserById, updateAgentSettings, getAgentRequestsToday, type UserRecord } from "@/lib/db";
+import { parseAgentSettings, TAG_TAXONOMY } from "@/lib/agent-settings";
+
+async function settingsResponse(user: UserRecord): Promise<NextResponse> {
+  return NextResponse.json({
+    settings: {
+      tags: user.tags ?? [],
+      paused: user.paused ?? false,
+      quietHours: user.quietHours ?? null,
+      dailyAnswerCap: user.dailyAnswerCap ?? null,
+    },
+    requestsToday: await getAgentRequestsToday(user.id),
+    taxonomy: TAG_TAXONOMY,
+  });
+}
+
+export async function GET(): Promise<NextResponse> {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: "未登录" }, { status: 401 });
+  }
+
+  const user = await getUserById(session.userId);
+  if (!user) {
+    return NextResponse.json({ error: "用户不存在" }, { status: 404 });
+  }
+  return settingsResponse(user);
+}
+
+export async function PUT(request: NextRequest): Promise<NextResponse> {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: "未登录" }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body !== "object") {
+    return NextResponse.json({ error: "请求格式不正确" }, { status: 400 });
+  }
+
+  const parsed = parseAgentSettings(body);
+  if ("error" in parsed) {
+    return NextResponse.json({ error: parsed.error }, { status: 400 });
+  }
+
+  const user = await updateAgentSettings(session.userId, parsed.settings);
+  if (!user) {
+    return NextResponse.json({ error: "用户不存在" }, { status: 404 });
+  }
+  return settingsResponse(user);
+}
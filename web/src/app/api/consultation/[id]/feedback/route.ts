@@ -1,6 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getSession } from "@/lib/session";
-import { getConsultation, submitFeedback, getFeedback } from "@/lib/db";
+import {
+  getConsultation,
+  getAgentResponses,
+  submitFeedback,
+  getFeedback,
+  recordConsultationVote,
+} from "@/lib/db";
 
 export async function POST(
   request: NextRequest,
@@ -36,6 +42,14 @@ export async function POST(
     comment: typeof comment === "string" ? comment.slice(0, 500) : undefined,
   });
 
+  // Feeds each answering agent's reputation; counted once per consultation
+  const responders = (await getAgentResponses(id))
+    .filter((r) => r.isValid && r.round === "initial")
+    .map((r) => r.responderId);
+  await recordConsultationVote(id, responders, record.vote).catch((err) =>
+    console.error("[Feedback] Failed to record vote:", err)
+  );
+
   return NextResponse.json(record);
 }
 
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import { checkSafety } from "@/lib/safety";
+import {
+  getConsultation,
+  getAgentResponses,
+  getConsultationAgentOrder,
+  acquireLock,
+  releaseLock,
+} from "@/lib/db";
+import { runFollowup, runDirectedFollowup } from "@/lib/engine";
+import { MAX_FOLLOWUPS, MAX_DIRECTED_FOLLOWUPS } from "@/lib/engine/prompts";
+import { toResponseViews } from "@/lib/consultation-thread";
+
+const FOLLOWUP_LOCK_TTL_SECONDS = 120;
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: "未登录" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const consultation = await getConsultation(id);
+
+  if (!consultation) {
+    return NextResponse.json({ error: "咨询不存在" }, { status: 404 });
+  }
+
+  if (consultation.askerId !== session.userId) {
+    return NextResponse.json({ error: "无权操作" }, { status: 403 });
+  }
+
+  const body = await request.json();
+  const question = body.question?.trim();
+
+  if (!question || question.length < 5) {
+    return NextResponse.json({ error: "请输入至少 5 个字的追问" }, { status: 400 });
+  }
+
+  if (question.length > 500) {
+    return NextResponse.json({ error: "追问不能超过 500 字" }, { status: 400 });
+  }
+
+  const safety = checkSafety(question);
+  if (!safety.safe) {
+    return NextResponse.json({
+      blocked: true,
+      type: safety.type,
+      message: safety.message,
+    });
+  }
+
+  if (consultation.status !== "DONE" && consultation.status !== "PARTIAL") {
+    return NextResponse.json({ error: "咨询尚未完成，暂时无法追问" }, { status: 409 });
+  }
+
+  // With a responseId only the agent behind that answer is asked
+  const responseId = typeof body.responseId === "string" ? body.responseId : undefined;
+
+  if (!responseId && (consultation.followups?.length ?? 0) >= MAX_FOLLOWUPS) {
+    return NextResponse.json({ error: `每个咨询最多追问 ${MAX_FOLLOWUPS} 次` }, { status: 409 });
+  }
+
+  // One follow-up at a time per consultation
+  const lockKey = `followup:${id}`;
+  if (!(await acquireLock(lockKey, FOLLOWUP_LOCK_TTL_SECONDS))) {
+    return NextResponse.json({ error: "上一个追问仍在处理中" }, { status: 409 });
+  }
+
+  try {
+    if (responseId) {
+      const responses = await getAgentResponses(id);
+      const target = responses.find((r) => r.id === responseId);
+      // Only answers the asker can see in the thread can be followed up
+      const round = target?.round ?? "initial";
+      if (!target?.isValid || target.retracted || (round !== "initial" && round !== "followup")) {
+        return NextResponse.json({ error: "回复不存在" }, { status: 404 });
+      }
+      const asked = responses.filter((r) => r.parentResponseId === responseId).length;
+      if (asked >= MAX_DIRECTED_FOLLOWUPS) {
+        return NextResponse.json({ error: `每条回复最多追问 ${MAX_DIRECTED_FOLLOWUPS} 次` }, { status: 409 });
+      }
+
+      await runDirectedFollowup(target, question);
+    } else {
+      // Re-read under the lock so a follow-up that just finished is counted
+      const current = (await getConsultation(id)) ?? consultation;
+      if ((current.followups?.length ?? 0) >= MAX_FOLLOWUPS) {
+        return NextResponse.json({ error: `每个咨询最多追问 ${MAX_FOLLOWUPS} 次` }, { status: 409 });
+      }
+
+      await runFollowup(current, question);
+    }
+
+    return NextResponse.json({
+      consultation: await getConsultation(id),
+      responses: toResponseViews(await getAgentResponses(id), await getConsultationAgentOrder(id)),
+    });
+  } catch (err) {
+    console.error("Follow-up error:", err);
+    return NextResponse.json({ error: "追问失败，请稍后再试" }, { status: 500 });
+  } finally {
+    await releaseLock(lockKey);
+  }
+}
@@ -1,6 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getSession } from "@/lib/session";
-import { getConsultation, getAgentResponses } from "@/lib/db";
+import {
+  getConsultation,
+  getAgentResponses,
+  getConsultationAgentOrder,
+  cancelConsultation,
+} from "@/lib/db";
+import { toResponseViews } from "@/lib/consultation-thread";
+import { publishEvent } from "@/lib/engine";
+import { refundRateLimit, sessionRateLimitId } from "@/lib/rate-limit";
 
 export async function GET(
   request: NextRequest,
@@ -27,13 +35,43 @@ export async function GET(
 
   return NextResponse.json({
     consultation,
-    responses: responses.map((r) => ({
-      id: r.id,
-      rawResponse: r.isValid ? r.rawResponse : undefined,
-      keyPoints: r.keyPoints,
-      isValid: r.isValid,
-      invalidReason: r.invalidReason,
-      latencyMs: r.latencyMs,
-    })),
+    responses: toResponseViews(responses, await getConsultationAgentOrder(id)),
   });
 }
+
+// Cancel a consultation that is still running. The engine notices within a
+// second, aborts its outstanding agent calls and skips the remaining steps.
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: "未登录" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const consultation = await getConsultation(id);
+
+  if (!consultation) {
+    return NextResponse.json({ error: "咨询不存在" }, { status: 404 });
+  }
+
+  if (consultation.askerId !== session.userId) {
+    return NextResponse.json({ error: "无权操作" }, { status: 403 });
+  }
+
+  if (!(await cancelConsultation(id, "已由提问者取消"))) {
+    return NextResponse.json({ error: "咨询已结束，无法取消" }, { status: 409 });
+  }
+
+  await publishEvent(id, { type: "consultation:cancelled" }).catch(() => {});
+
+  // A cancelled question does not count against the asker's rate limit
+  const sessionCookie = request.cookies.get("medcrowd_session")?.value;
+  if (sessionCookie && consultation.rateLimitWindow !== undefined) {
+    await refundRateLimit(sessionRateLimitId(sessionCookie), consultation.rateLimitWindow).catch(() => {});
+  }
+
+  return NextResponse.json({ status: "CANCELLED" });
+}
@@ -1,9 +1,29 @@
 import { NextRequest } from "next/server";
 import { getSession } from "@/lib/session";
-import { getConsultation, getEvents } from "@/lib/db";
-
-const POLL_INTERVAL_MS = 500;
-const MAX_DURATION_MS = 5 * 60 * 1000; // 5 minutes max
+import {
+  getConsultation,
+  getConsultationEventsAfter,
+  getConsultationAgentOrder,
+  type SequencedEvent,
+} from "@/lib/db";
+import { subscribeEvents, type ConsultationEvent } from "@/lib/engine";
+import { anonymiseEvent, agentLabels } from "@/lib/consultation-thread";
+
+// Events published in this instance are pushed; the log poll only catches
+// events from other instances, so it slows down once pushes are arriving.
+const FALLBACK_POLL_MS = 500;
+const LOCAL_POLL_MS = 5000;
+const HEARTBEAT_MS = 15_000;
+const RECONNECT_MS = 2000;
+const TERMINAL_STATUSES = ["DONE", "PARTIAL", "FAILED", "CANCELLED"];
+const MAX_DURATION_MS = 5 * 60 * 1000; // 5 minutes max, then the browser reconnects and resumes
+
+/** Last event id the browser saw, from the EventSource reconnect header */
+function parseLastEventId(request: NextRequest): number {
+  const raw = request.headers.get("last-event-id") ?? request.nextUrl.searchParams.get("lastEventId");
+  const id = Number(raw);
+  return Number.isInteger(id) && id > 0 ? id : 0;
+}
 
 export async function GET(
   request: NextRequest,
@@ -21,90 +41,149 @@ export async function GET(
     return new Response("Not found", { status: 404 });
   }
 
-  const eventKey = `consultation-events:${id}`;
   const encoder = new TextEncoder();
   let closed = false;
+  let cleanup = () => {};
 
   const stream = new ReadableStream({
-    async start(controller) {
+    start(controller) {
       const startTime = Date.now();
-      let lastIndex = 0;
+      let lastId = parseLastEventId(request);
+      let primed = false;
+      let catchingUp = false;
+      let catchUpAgain = false;
+      let sawLocal = false;
+      let newestPushed = 0;
+      let pollTimer: ReturnType<typeof setTimeout> | null = null;
+      let labels = new Map<string, string>(); // Responder ids never reach the browser
+
+      function write(chunk: string) {
+        if (closed) return;
+        controller.enqueue(encoder.encode(chunk));
+      }
+
+      function send(event: string, data: string, eventId?: number) {
+        write(`${eventId !== undefined ? `id: ${eventId}\n` : ""}event: ${event}\ndata: ${data}\n\n`);
+      }
 
-      function send(event: string, data: string) {
+      function close() {
         if (closed) return;
-        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${data}\n\n`));
+        closed = true;
+        cleanup();
+        controller.close();
+      }
+
+      function deliver(entry: SequencedEvent<ConsultationEvent>) {
+        if (closed || entry.id <= lastId) return;
+        lastId = entry.id;
+        const data = JSON.stringify(anonymiseEvent(entry.event, labels));
+        send(entry.event.type, data, entry.id);
+
+        // If consultation is done or cancelled, close the stream
+        if (entry.event.type === "consultation:done" || entry.event.type === "consultation:cancelled") {
+          send("done", data);
+          close();
+        }
+      }
+
+      function isLabelled(entry: SequencedEvent<ConsultationEvent>) {
+        return !("agentId" in entry.event) || labels.has(entry.event.agentId);
+      }
+
+      /** Send everything in the log after `lastId`, in id order */
+      async function catchUp() {
+        if (catchingUp) {
+          catchUpAgain = true;
+          return;
+        }
+        catchingUp = true;
+        try {
+          do {
+            catchUpAgain = false;
+            const entries = (await getConsultationEventsAfter(id, lastId)) as SequencedEvent<ConsultationEvent>[];
+            // The engine stores an agent's place before any event names it
+            if (entries.some((entry) => !isLabelled(entry))) {
+              labels = agentLabels(await getConsultationAgentOrder(id));
+            }
+            for (const entry of entries) deliver(entry);
+            primed = true;
+          } while (catchUpAgain && !closed);
+        } finally {
+          catchingUp = false;
+        }
       }
 
       // Send initial status
+      write(`retry: ${RECONNECT_MS}\n\n`);
       send("status", JSON.stringify({ status: consultation.status }));
 
-      // If already terminal, close immediately
-      if (["DONE", "PARTIAL", "FAILED"].includes(consultation.status)) {
-        send("done", JSON.stringify({ status: consultation.status }));
-        controller.close();
+      // If already terminal, replay what the browser missed since Last-Event-ID, then close
+      if (TERMINAL_STATUSES.includes(consultation.status)) {
+        catchUp()
+          .catch((err) => console.error("[SSE] Catch-up error:", err))
+          .finally(() => {
+            send("done", JSON.stringify({ status: consultation.status }));
+            close();
+          });
         return;
       }
 
-      // Poll KV for new events
-      async function pollEvents() {
-        if (closed) return;
+      // Subscribe before the first read so nothing falls between the two
+      const unsubscribe = subscribeEvents(id, (entry) => {
+        sawLocal = true;
+        newestPushed = Math.max(newestPushed, entry.id);
+        // Out-of-order, mid-catch-up or newly named agents' pushes are read back from the log instead
+        if (!primed || catchingUp || entry.id !== lastId + 1 || !isLabelled(entry)) {
+          catchUp().catch((err) => console.error("[SSE] Catch-up error:", err));
+          return;
+        }
+        deliver(entry);
+        // This push filled a gap the log read was holding newer events back behind
+        if (newestPushed > lastId) catchUp().catch((err) => console.error("[SSE] Catch-up error:", err));
+      });
 
+      async function poll() {
+        if (closed) return;
         try {
-          const events = await getEvents(eventKey, 0, -1);
-          // Events are in reverse order (lpush), so reverse to get chronological
-          const chronological = [...events].reverse();
-
-          if (chronological.length > lastIndex) {
-            for (let i = lastIndex; i < chronological.length; i++) {
-              try {
-                const event = JSON.parse(chronological[i]);
-                send(event.type, chronological[i]);
-
-                // If consultation is done, close the stream
-                if (event.type === "consultation:done") {
-                  send("done", chronological[i]);
-                  closed = true;
-                  controller.close();
-                  return;
-                }
-              } catch {
-                // Skip malformed events
-              }
-            }
-            lastIndex = chronological.length;
-          }
-
-          // Check timeout
+          await catchUp();
           if (Date.now() - startTime > MAX_DURATION_MS) {
             send("timeout", JSON.stringify({ message: "Stream timeout" }));
-            closed = true;
-            controller.close();
+            close();
             return;
           }
+        } catch (err) {
+          console.error("[SSE] Poll error:", err);
+        }
+        if (!closed) pollTimer = setTimeout(poll, sawLocal ? LOCAL_POLL_MS : FALLBACK_POLL_MS);
+      }
 
-          // Also check consultation status directly (in case events were missed)
+      // Heartbeat comment keeps proxies from dropping an idle stream; the status
+      // re-check covers a terminal event that never made it into the log
+      const heartbeat = setInterval(async () => {
+        write(": heartbeat\n\n");
+        try {
           const current = await getConsultation(id);
-          if (current && ["DONE", "PARTIAL", "FAILED"].includes(current.status)) {
+          if (current && TERMINAL_STATUSES.includes(current.status)) {
+            await catchUp();
             send("done", JSON.stringify({ status: current.status }));
-            closed = true;
-            controller.close();
-            return;
-          }
-
-          // Schedule next poll
-          setTimeout(pollEvents, POLL_INTERVAL_MS);
-        } catch (err) {
-          console.error("[SSE] Poll error:", err);
-          if (!closed) {
-            setTimeout(pollEvents, POLL_INTERVAL_MS * 2);
+            close();
           }
+        } catch {
+          // Next heartbeat retries
         }
-      }
+      }, HEARTBEAT_MS);
+
+      cleanup = () => {
+        unsubscribe();
+        clearInterval(heartbeat);
+        if (pollTimer) clearTimeout(pollTimer);
+      };
 
-      pollEvents();
+      poll();
     },
     cancel() {
       closed = true;
+      cleanup();
     },
   });
 
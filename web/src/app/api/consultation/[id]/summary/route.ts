@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSession } from "@/lib/session";
+import {
+  getConsultation,
+  getAgentResponses,
+  getConsultationAgentOrder,
+  acquireLock,
+  releaseLock,
+} from "@/lib/db";
+import { refreshSummary } from "@/lib/engine";
+import { toResponseViews } from "@/lib/consultation-thread";
+
+const SUMMARY_LOCK_TTL_SECONDS = 120;
+
+/** Rebuild the report so it covers answers that arrived after quorum closed */
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const session = await getSession();
+  if (!session) {
+    return NextResponse.json({ error: "未登录" }, { status: 401 });
+  }
+
+  const { id } = await params;
+  const consultation = await getConsultation(id);
+
+  if (!consultation) {
+    return NextResponse.json({ error: "咨询不存在" }, { status: 404 });
+  }
+
+  if (consultation.askerId !== session.userId) {
+    return NextResponse.json({ error: "无权操作" }, { status: 403 });
+  }
+
+  if (consultation.status !== "DONE" && consultation.status !== "PARTIAL") {
+    return NextResponse.json({ error: "咨询尚未完成，暂时无法更新报告" }, { status: 409 });
+  }
+
+  // Shares the follow-up lock: both rewrite the summary
+  const lockKey = `followup:${id}`;
+  if (!(await acquireLock(lockKey, SUMMARY_LOCK_TTL_SECONDS))) {
+    return NextResponse.json({ error: "报告正在更新中" }, { status: 409 });
+  }
+
+  try {
+    const current = (await getConsultation(id)) ?? consultation;
+    const late = (await getAgentResponses(id)).filter((r) => r.late && r.isValid);
+    if (late.length <= (current.lateFoldedCount ?? 0)) {
+      return NextResponse.json({ error: "没有新的迟到回复" }, { status: 409 });
+    }
+
+    await refreshSummary(current);
+
+    return NextResponse.json({
+      consultation: await getConsultation(id),
+      responses: toResponseViews(await getAgentResponses(id), await getConsultationAgentOrder(id)),
+    });
+  } catch (err) {
+    console.error("Summary refresh error:", err);
+    return NextResponse.json({ error: "更新报告失败，请稍后再试" }, { status: 500 });
+  } finally {
+    await releaseLock(lockKey);
+  }
+}
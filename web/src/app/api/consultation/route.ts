@@ -2,8 +2,9 @@ import { NextRequest, NextResponse } from "next/server";
 import { after } from "next/server";
 import { getSession } from "@/lib/session";
 import { checkSafety } from "@/lib/safety";
-import { createConsultation, updateConsultation } from "@/lib/db";
-import { runConsultation } from "@/lib/engine";
+import { createConsultation, enqueueConsultationJob } from "@/lib/db";
+import { processConsultationJob } from "@/lib/engine";
+import { RATE_LIMIT_WINDOW_HEADER } from "@/lib/rate-limit";
 
 export async function POST(request: NextRequest) {
   const session = await getSession();
@@ -38,15 +39,19 @@ export async function POST(request: NextRequest) {
     });
   }
 
-  // Create consultation record immediately, run async
-  const consultation = await createConsultation(session.userId, question);
+  // Create consultation record and its durable job immediately, run async.
+  // If this process dies mid-run, the job's lease lapses and a worker resumes it.
+  // Absent when rate limiting is off (no KV) or failed open: nothing to refund
+  const windowId = Number(request.headers.get(RATE_LIMIT_WINDOW_HEADER) ?? NaN);
+  const rateLimitWindow = Number.isInteger(windowId) ? windowId : undefined;
+  const consultation = await createConsultation(session.userId, question, rateLimitWindow);
+  await enqueueConsultationJob(consultation.id, session.userId, question);
 
   after(async () => {
     try {
-      await runConsultation(session.userId, question, undefined, consultation.id);
+      await processConsultationJob(consultation.id);
     } catch (err) {
-      console.error("Consultation error:", err);
-      await updateConsultation(consultation.id, { status: "FAILED" });
+      console.error("Consultation job error:", err);
     }
   });
 
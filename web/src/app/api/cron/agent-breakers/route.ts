@@ -0,0 +1,15 @@
+// Agent breaker probing: send due agents a cheap request and return recovered ones to the pool
+// Called by a scheduler with `Authorization: Bearer $CRON_SECRET`
+
+import { NextRequest, NextResponse } from "next/server";
+import { probeTrippedAgents } from "@/lib/engine";
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "无权访问" }, { status: 401 });
+  }
+
+  const report = await probeTrippedAgents();
+  return NextResponse.json(report);
+}
@@ -0,0 +1,19 @@
+// Consultation job worker tick: settle abandoned jobs, then resume queued ones
+// Called by a scheduler with `Authorization: Bearer $CRON_SECRET`
+
+import { NextRequest, NextResponse } from "next/server";
+import { runWorker, sweepStaleJobs } from "@/lib/engine";
+
+const MAX_JOBS_PER_TICK = 3;
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "无权访问" }, { status: 401 });
+  }
+
+  const { settled } = await sweepStaleJobs();
+  const resumed = await runWorker({ maxJobs: MAX_JOBS_PER_TICK });
+
+  return NextResponse.json({ settled, resumed });
+}
@@ -0,0 +1,15 @@
+// Weekly health rollup: snapshot completed ISO weeks before raw points expire
+// Called daily by a scheduler with `Authorization: Bearer $CRON_SECRET`
+
+import { NextRequest, NextResponse } from "next/server";
+import { runWeeklyHealthRollup } from "@/lib/db";
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "无权访问" }, { status: 401 });
+  }
+
+  const report = await runWeeklyHealthRollup();
+  return NextResponse.json(report);
+}
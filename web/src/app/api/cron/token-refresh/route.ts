@@ -0,0 +1,15 @@
+// Token refresh sweep: refresh pool members' tokens before they expire
+// Called by a scheduler with `Authorization: Bearer $CRON_SECRET`
+
+import { NextRequest, NextResponse } from "next/server";
+import { sweepExpiringTokens } from "@/lib/engine";
+
+export async function GET(request: NextRequest): Promise<NextResponse> {
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ error: "无权访问" }, { status: 401 });
+  }
+
+  const report = await sweepExpiringTokens();
+  return NextResponse.json(report);
+}
@@ -5,7 +5,7 @@ import type {
 } from "@/lib/consent/types";
 import { NextRequest, NextResponse } from "next/server";
 import { getSession } from "@/lib/session";
-import { getConsentRecord, grantConsent, revokeConsent } from "@/lib/db";
+import { getConsentRecord, grantConsent, revokeConsent, getDeletionReceipt } from "@/lib/db";
 
 const CURRENT_CONSENT_VERSION = "v1.0";
 
@@ -22,14 +22,17 @@ export async function GET(): Promise<NextResponse> {
   }
 
   const record = await getConsentRecord(session.userId);
+  const deletionReceipt = await getDeletionReceipt(session.userId);
 
   const response: ConsentStatusResponse = {
     hasConsent: record?.status === "GRANTED" && (!record.expiresAt || record.expiresAt > Date.now()),
     status: record?.status || "NONE",
     grantedAt: record?.grantedAt,
+    revokedAt: record?.revokedAt,
     expiresAt: record?.expiresAt,
     scope: record?.scope,
     version: record?.version,
+    deletionReceipt: deletionReceipt ?? undefined,
   };
 
   return NextResponse.json(response);
@@ -107,6 +110,8 @@ export async function DELETE(request: NextRequest): Promise<NextResponse> {
       );
     }
 
+    const deletionReceipt = await getDeletionReceipt(session.userId);
+
     const response: ConsentStatusResponse = {
       hasConsent: false,
       status: record.status,
@@ -114,6 +119,7 @@ export async function DELETE(request: NextRequest): Promise<NextResponse> {
       revokedAt: record.revokedAt,
       scope: record.scope,
       version: record.version,
+      deletionReceipt: deletionReceipt ?? undefined,
     };
 
     return NextResponse.json(response);
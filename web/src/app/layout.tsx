@@ -2,6 +2,7 @@ import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import Link from "next/link";
 import { getSession } from "@/lib/session";
+import { getNotifications } from "@/lib/db";
 import LogoutButton from "@/components/logout-button";
 import "./globals.css";
 
@@ -27,6 +28,7 @@ export default async function RootLayout({
   children: React.ReactNode;
 }>) {
   const session = await getSession();
+  const notifications = session ? await getNotifications(session.userId) : [];
 
   return (
     <html lang="zh-CN">
@@ -42,12 +44,25 @@ export default async function RootLayout({
               <div className="flex items-center gap-3">
                 <Link href="/ask" className="text-sm text-gray-600 hover:text-emerald-700">提问</Link>
                 <Link href="/health" className="text-sm text-gray-600 hover:text-emerald-700">健康数据</Link>
+                <Link href="/agent" className="text-sm text-gray-600 hover:text-emerald-700">我的代理</Link>
                 <span className="text-sm text-gray-600">{session.name}</span>
                 <LogoutButton />
               </div>
             )}
           </div>
         </nav>
+        {notifications.map((n) => (
+          <div key={n.type} className="bg-amber-50 border-b border-amber-200 px-4 py-2">
+            <div className="max-w-3xl mx-auto flex items-center justify-between gap-3 text-sm text-amber-800">
+              <span>{n.message}</span>
+              {n.type === "relogin_required" && (
+                <a href="/api/auth/login" className="shrink-0 font-medium text-amber-900 hover:underline">
+                  重新登录
+                </a>
+              )}
+            </div>
+          </div>
+        ))}
         <main className="max-w-3xl mx-auto px-4 py-6">{children}</main>
         <footer className="text-center text-xs text-gray-400 py-6 border-t border-gray-100 mt-12">
           <p>
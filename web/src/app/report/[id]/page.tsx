@@ -1,5 +1,6 @@
 import { getSession } from "@/lib/session";
-import { getConsultation, getAgentResponses } from "@/lib/db";
+import { getConsultation, getAgentResponses, getConsultationAgentOrder } from "@/lib/db";
+import { toResponseViews } from "@/lib/consultation-thread";
 import { buildShareUrl } from "@/lib/share-token";
 import { redirect } from "next/navigation";
 import ReportView from "./report-view";
@@ -33,7 +34,7 @@ export default async function ReportPage({
   return (
     <ReportView
       consultation={consultation}
-      responses={responses}
+      responses={toResponseViews(responses, await getConsultationAgentOrder(id))}
       shareUrl={buildShareUrl(consultation.id)}
       userId={session.userId}
     />
@@ -11,7 +11,10 @@ interface Consultation {
   id: string;
   question: string;
   status: string;
+  statusReason?: string;
   agentCount: number;
+  followups?: { index: number; question: string; askedAt: number }[];
+  lateFoldedCount?: number;
   summary: {
     consensus?: { point: string; agentCount: number; totalAgents: number }[];
     divergence?: { pointA: string; pointB: string; splitRatio: string }[];
@@ -22,18 +25,46 @@ interface Consultation {
     agentResponses?: { agentId: string; summary: string; keyPoints: string[] }[];
     noExperienceCount?: number;
     totalAgentsQueried?: number;
+    deliberation?: {
+      rounds: {
+        round: number;
+        consensus: { point: string; agentCount: number; totalAgents: number }[];
+        similarity?: number;
+        failed?: boolean;
+      }[];
+      converged: boolean;
+    };
   } | null;
 }
 
 interface AgentResponse {
   id: string;
-  rawResponse: string;
+  agentLabel: string;
+  round: "initial" | "reaction" | "followup" | "directed";
+  roundIndex?: number;
+  parentResponseId?: string;
+  directedQuestion?: string;
+  rawResponse?: string;
   isValid: boolean;
   invalidReason?: string;
   latencyMs: number;
+  late?: boolean;
+  retracted?: boolean;
+}
+
+// One agent's answer as it streams in; validation happens after it finishes
+interface LiveAnswer {
+  key: string;
+  agentLabel: string;
+  round: "initial" | "reaction";
+  text: string;
+  done: boolean;
+  isValid?: boolean;
 }
 
 const POLL_INTERVAL = 2000;
+const MAX_FOLLOWUPS = 3;
+const MAX_DIRECTED_FOLLOWUPS = 3;
 const PENDING_STATUSES = ["PENDING", "CONSULTING"];
 
 const PROGRESS_MESSAGES = [
@@ -58,6 +89,17 @@ export default function ReportView({
   const [responses, setResponses] = useState(initialResponses);
   const [copied, setCopied] = useState(false);
   const [progressMessage, setProgressMessage] = useState(PROGRESS_MESSAGES[0]);
+  const [followupQuestion, setFollowupQuestion] = useState("");
+  const [followupLoading, setFollowupLoading] = useState(false);
+  const [followupError, setFollowupError] = useState("");
+  const [directedTarget, setDirectedTarget] = useState<string | null>(null);
+  const [directedQuestion, setDirectedQuestion] = useState("");
+  const [directedLoading, setDirectedLoading] = useState(false);
+  const [directedError, setDirectedError] = useState("");
+  const [cancelling, setCancelling] = useState(false);
+  const [liveAnswers, setLiveAnswers] = useState<LiveAnswer[]>([]);
+  const [refreshing, setRefreshing] = useState(false);
+  const [refreshError, setRefreshError] = useState("");
 
   const isPolling = PENDING_STATUSES.includes(consultation.status);
 
@@ -89,19 +131,69 @@ export default function ReportView({
     try {
       eventSource = new EventSource(`/api/consultation/${consultation.id}/stream`);
 
-      eventSource.addEventListener("agent:query_start", () => {
-        setProgressMessage("正在咨询其他 AI...");
+      /** Apply an agent event to its live answer, creating it on first sight */
+      function updateLive(data: { agentLabel?: string; round?: "initial" | "reaction" }, patch: (a: LiveAnswer) => LiveAnswer) {
+        if (!data.agentLabel) return;
+        const round = data.round ?? "initial";
+        const key = `${round}:${data.agentLabel}`;
+        setLiveAnswers((prev) => {
+          const existing = prev.find((a) => a.key === key);
+          if (!existing) {
+            return [...prev, patch({ key, agentLabel: data.agentLabel!, round, text: "", done: false })];
+          }
+          return prev.map((a) => (a.key === key ? patch(a) : a));
+        });
+      }
+
+      eventSource.addEventListener("agent:query_start", (e) => {
+        try {
+          // A new deliberation round replaces the agent's previous live text
+          updateLive(JSON.parse(e.data), (a) => ({ ...a, text: "", done: false, isValid: undefined }));
+        } catch {
+          // Progress message is enough
+        }
+      });
+
+      eventSource.addEventListener("agent:delta", (e) => {
+        try {
+          const data = JSON.parse(e.data);
+          updateLive(data, (a) => ({ ...a, text: a.text + data.delta }));
+        } catch {
+          // Skip malformed chunk; the final report has the full text
+        }
       });
 
       eventSource.addEventListener("agent:response", (e) => {
         try {
           const data = JSON.parse(e.data);
           setProgressMessage(`已收到 Agent 回复 (${data.latencyMs}ms)...`);
+          updateLive(data, (a) => ({ ...a, done: true, isValid: data.isValid }));
         } catch {
           setProgressMessage("正在收集回复...");
         }
       });
 
+      eventSource.addEventListener("agent:error", (e) => {
+        try {
+          updateLive(JSON.parse(e.data), (a) => ({ ...a, done: true, isValid: false }));
+        } catch {
+          // Ignore
+        }
+      });
+
+      eventSource.addEventListener("wave:start", (e) => {
+        try {
+          const data = JSON.parse(e.data);
+          setProgressMessage(
+            data.wave === 1
+              ? `正在咨询 ${data.agentCount} 位 AI 代理...`
+              : `有效回复不足，正在邀请第 ${data.wave} 批代理（${data.agentCount} 位）...`
+          );
+        } catch {
+          setProgressMessage("正在咨询其他 AI...");
+        }
+      });
+
       eventSource.addEventListener("validation:complete", (e) => {
         try {
           const data = JSON.parse(e.data);
@@ -111,8 +203,26 @@ export default function ReportView({
         }
       });
 
-      eventSource.addEventListener("reaction:start", () => {
-        setProgressMessage("正在进行互评讨论...");
+      eventSource.addEventListener("reaction:start", (e) => {
+        try {
+          const data = JSON.parse(e.data);
+          setProgressMessage(`正在进行第 ${data.round} 轮互评讨论...`);
+        } catch {
+          setProgressMessage("正在进行互评讨论...");
+        }
+      });
+
+      eventSource.addEventListener("reaction:failed", (e) => {
+        try {
+          const data = JSON.parse(e.data);
+          setProgressMessage(`第 ${data.round} 轮互评无人回应，讨论结束`);
+        } catch {
+          setProgressMessage("互评无人回应，讨论结束");
+        }
+      });
+
+      eventSource.addEventListener("consultation:cancelled", () => {
+        setProgressMessage("咨询已取消");
       });
 
       eventSource.addEventListener("summary:ready", () => {
@@ -135,8 +245,9 @@ export default function ReportView({
       });
 
       eventSource.onerror = () => {
-        // SSE failed, fall back to polling
-        eventSource?.close();
+        // Dropped connections reconnect on their own and resume from Last-Event-ID;
+        // fall back to polling only once the browser gives up
+        if (eventSource?.readyState !== EventSource.CLOSED) return;
         eventSource = null;
         startPolling();
       };
@@ -153,8 +264,22 @@ export default function ReportView({
   }, [isPolling, consultation.id]);
 
   const summary = consultation.summary;
-  const validResponses = responses.filter((r) => r.isValid);
+  const validResponses = responses.filter((r) => r.isValid && r.round === "initial");
+  const followups = consultation.followups ?? [];
+  const thread = [
+    { key: "initial", question: consultation.question, answers: validResponses },
+    ...followups.map((f) => ({
+      key: `followup-${f.index}`,
+      question: f.question,
+      answers: responses.filter(
+        (r) => r.isValid && r.round === "followup" && r.roundIndex === f.index
+      ),
+    })),
+  ];
   const isPartial = consultation.status === "PARTIAL" || (summary && validResponses.length < 3);
+  // Answers that arrived after the report was generated and are not in the summary yet
+  const unfoldedLateCount =
+    validResponses.filter((r) => r.late).length - (consultation.lateFoldedCount ?? 0);
 
   useEffect(() => {
     if (summary) {
@@ -181,6 +306,99 @@ export default function ReportView({
     });
   }
 
+  /** Post a follow-up (to one answer when responseId is set); returns an error message on failure */
+  async function postFollowup(question: string, responseId?: string): Promise<string | null> {
+    if (question.length < 5) return "请输入至少 5 个字的追问";
+    try {
+      const res = await fetch(`/api/consultation/${consultation.id}/followup`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ question, responseId }),
+      });
+      const data = await res.json();
+      if (data.blocked) return data.message;
+      if (!res.ok) return data.error || "追问失败，请稍后再试";
+      setConsultation(data.consultation);
+      setResponses(data.responses);
+      return null;
+    } catch {
+      return "网络错误，请稍后再试";
+    }
+  }
+
+  async function handleFollowup(e: React.FormEvent) {
+    e.preventDefault();
+    setFollowupLoading(true);
+    setFollowupError("");
+    const error = await postFollowup(followupQuestion.trim());
+    setFollowupLoading(false);
+    if (error) {
+      setFollowupError(error);
+    } else {
+      setFollowupQuestion("");
+    }
+  }
+
+  async function handleDirectedFollowup(e: React.FormEvent, responseId: string) {
+    e.preventDefault();
+    setDirectedLoading(true);
+    setDirectedError("");
+    const error = await postFollowup(directedQuestion.trim(), responseId);
+    setDirectedLoading(false);
+    if (error) {
+      setDirectedError(error);
+    } else {
+      setDirectedQuestion("");
+      setDirectedTarget(null);
+    }
+  }
+
+  function openDirectedFollowup(responseId: string) {
+    setDirectedTarget(directedTarget === responseId ? null : responseId);
+    setDirectedQuestion("");
+    setDirectedError("");
+  }
+
+  async function handleRefreshSummary() {
+    setRefreshing(true);
+    setRefreshError("");
+    try {
+      const res = await fetch(`/api/consultation/${consultation.id}/summary`, { method: "POST" });
+      const data = await res.json();
+      if (!res.ok) {
+        setRefreshError(data.error || "更新报告失败，请稍后再试");
+        return;
+      }
+      setConsultation(data.consultation);
+      setResponses(data.responses);
+    } catch {
+      setRefreshError("网络错误，请稍后再试");
+    } finally {
+      setRefreshing(false);
+    }
+  }
+
+  async function handleCancel() {
+    if (!window.confirm("确定取消这次咨询吗？已发出的询问会被中止。")) return;
+    setCancelling(true);
+    try {
+      const res = await fetch(`/api/consultation/${consultation.id}`, { method: "DELETE" });
+      // 409 means it finished meanwhile; either way reload the latest state
+      const latest = await fetch(`/api/consultation/${consultation.id}`);
+      if (latest.ok) {
+        const data = await latest.json();
+        setConsultation(data.consultation);
+        setResponses(data.responses);
+      } else if (res.ok) {
+        setConsultation({ ...consultation, status: "CANCELLED" });
+      }
+    } catch {
+      // Keep waiting; the stream still reports the final state
+    } finally {
+      setCancelling(false);
+    }
+  }
+
   // Waiting state — consultation is still running
   if (isPolling) {
     return (
@@ -213,6 +431,56 @@ export default function ReportView({
         <p className="text-xs text-gray-400 mt-4">
           通常需要 15-30 秒，请耐心等待
         </p>
+
+        {/* Live answers */}
+        {liveAnswers.length > 0 && (
+          <div className="text-left space-y-3 max-w-xl mx-auto">
+            {liveAnswers.map((a) => (
+              <div
+                key={a.key}
+                className={`bg-white rounded-lg border border-gray-200 p-3 ${a.isValid === false ? "opacity-50" : ""}`}
+              >
+                <p className="text-xs text-gray-500 mb-1">
+                  {a.agentLabel}
+                  {a.round === "reaction" && <span className="ml-1">· 互评</span>}
+                  {a.done && a.isValid === false && <span className="ml-1">· 未通过校验，不计入报告</span>}
+                </p>
+                <p className="text-sm text-gray-700 whitespace-pre-line">
+                  {a.text || (a.done ? "" : "正在输入")}
+                  {!a.done && <span className="animate-pulse">▍</span>}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <button
+          onClick={handleCancel}
+          disabled={cancelling}
+          className="text-sm text-gray-500 hover:text-gray-700 underline disabled:opacity-50"
+        >
+          {cancelling ? "正在取消..." : "取消"}
+        </button>
+      </div>
+    );
+  }
+
+  // Cancelled state
+  if (consultation.status === "CANCELLED") {
+    return (
+      <div className="text-center py-12">
+        <h2 className="text-xl font-bold text-gray-900 mb-2">
+          咨询已取消
+        </h2>
+        <p className="text-gray-500 mb-4">
+          {consultation.statusReason || "已由提问者取消"}
+        </p>
+        <a
+          href="/ask"
+          className="text-emerald-600 hover:underline"
+        >
+          重新提问
+        </a>
       </div>
     );
   }
@@ -226,7 +494,7 @@ export default function ReportView({
           暂时无法获取咨询结果
         </h2>
         <p className="text-gray-500 mb-4">
-          当前没有可用的 AI 代理，请稍后再试
+          {consultation.statusReason || "当前没有可用的 AI 代理，请稍后再试"}
         </p>
         <a
           href="/ask"
@@ -246,7 +514,7 @@ export default function ReportView({
           暂时无法获取咨询结果
         </h2>
         <p className="text-gray-500 mb-4">
-          当前没有可用的 AI 代理，请稍后再试
+          {consultation.statusReason || "当前没有可用的 AI 代理，请稍后再试"}
         </p>
         <a
           href="/ask"
@@ -269,6 +537,7 @@ export default function ReportView({
       {/* Status badge */}
       {isPartial && (
         <div className="bg-amber-50 border border-amber-200 rounded-lg p-3 text-sm text-amber-800">
+          {consultation.statusReason && <p className="mb-1">{consultation.statusReason}</p>}
           部分 AI 代理未能响应，以下结果基于{" "}
           {validResponses.length} 个有效回复生成
           {summary.noExperienceCount && summary.noExperienceCount > 0
@@ -277,6 +546,24 @@ export default function ReportView({
         </div>
       )}
 
+      {/* Late answers */}
+      {unfoldedLateCount > 0 && (
+        <div className="bg-sky-50 border border-sky-200 rounded-lg p-3 text-sm text-sky-800 flex items-center justify-between gap-3">
+          <div>
+            <p>有 {unfoldedLateCount} 条回复在报告生成后才送达，尚未计入以下总结。</p>
+            {refreshError && <p className="text-xs text-red-600 mt-1">{refreshError}</p>}
+          </div>
+          <button
+            type="button"
+            onClick={handleRefreshSummary}
+            disabled={refreshing}
+            className="shrink-0 bg-sky-600 hover:bg-sky-700 disabled:opacity-50 text-white py-1.5 px-3 rounded-lg text-xs font-medium transition-colors"
+          >
+            {refreshing ? "更新中..." : "更新报告"}
+          </button>
+        </div>
+      )}
+
       {/* Consensus */}
       {summary.consensus && summary.consensus.length > 0 && (
         <div className="bg-white rounded-lg border border-gray-200 p-4">
@@ -414,6 +701,165 @@ export default function ReportView({
         </div>
       )}
 
+      {/* Deliberation */}
+      {summary.deliberation && summary.deliberation.rounds.length > 1 && (
+        <div className="bg-white rounded-lg border border-gray-200 p-4">
+          <h3 className="font-semibold text-gray-900 mb-1">讨论过程</h3>
+          <p className="text-xs text-gray-400 mb-3">
+            代理们进行了 {summary.deliberation.rounds.length - 1} 轮互评
+            {summary.deliberation.converged ? "，观点已趋于稳定，提前结束" : ""}
+          </p>
+          <div className="space-y-3">
+            {summary.deliberation.rounds.map((r) => (
+              <div key={r.round}>
+                <p className="text-xs font-medium text-gray-600 mb-1">
+                  {r.round === 0 ? "初始回答" : `第 ${r.round} 轮`}
+                  {r.similarity !== undefined && (
+                    <span className="ml-1 font-normal text-gray-400">
+                      · 与上一轮相似度 {Math.round(r.similarity * 100)}%
+                    </span>
+                  )}
+                </p>
+                {r.failed ? (
+                  <p className="text-xs text-gray-400">本轮无人回应</p>
+                ) : r.consensus.length === 0 ? (
+                  <p className="text-xs text-gray-400">暂无共识</p>
+                ) : (
+                  <ul className="space-y-1">
+                    {r.consensus.map((c, i) => (
+                      <li key={i} className="flex items-start justify-between gap-3 text-sm text-gray-700">
+                        <span>{c.point}</span>
+                        <span className="shrink-0 text-xs text-emerald-700">
+                          {c.agentCount}/{c.totalAgents}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Conversation thread */}
+      {validResponses.length > 0 && (
+        <div className="bg-white rounded-lg border border-gray-200 p-4">
+          <h3 className="font-semibold text-gray-900 mb-3">
+            对话记录
+          </h3>
+          <div className="space-y-5">
+            {thread.map((turn, i) => (
+              <div key={turn.key} className="space-y-2">
+                <p className="text-sm font-medium text-gray-900">
+                  {i === 0 ? "提问" : `追问 ${i}`}：{turn.question}
+                </p>
+                {turn.answers.length === 0 ? (
+                  <p className="text-sm text-gray-400 pl-3">暂无有效回复</p>
+                ) : (
+                  turn.answers.map((r) => {
+                    const replies = responses.filter((d) => d.parentResponseId === r.id);
+                    return (
+                      <div key={r.id} className="border-l-2 border-emerald-200 pl-3">
+                        <div className="flex items-center justify-between mb-0.5">
+                          <p className="text-xs text-gray-500">
+                            {r.agentLabel}
+                            {r.late && <span className="ml-1">· 报告生成后送达</span>}
+                          </p>
+                          {!r.retracted && replies.length < MAX_DIRECTED_FOLLOWUPS && (
+                            <button
+                              type="button"
+                              onClick={() => openDirectedFollowup(r.id)}
+                              className="text-xs text-emerald-600 hover:underline"
+                            >
+                              {directedTarget === r.id ? "收起" : "追问"}
+                            </button>
+                          )}
+                        </div>
+                        {r.retracted ? (
+                          <p className="text-sm text-gray-400 italic">该回复已被代理主人撤回</p>
+                        ) : (
+                          <p className="text-sm text-gray-700 whitespace-pre-line">{r.rawResponse}</p>
+                        )}
+
+                        {/* Directed follow-ups to this agent */}
+                        {replies.map((d) => (
+                          <div key={d.id} className="mt-2 ml-2 bg-gray-50 rounded p-2 space-y-1">
+                            <p className="text-xs text-gray-500">你追问：{d.directedQuestion}</p>
+                            <p className="text-sm text-gray-700 whitespace-pre-line">
+                              {d.isValid
+                                ? d.rawResponse
+                                : `${r.agentLabel} 暂未给出有效回复（${d.invalidReason || "未知原因"}）`}
+                            </p>
+                          </div>
+                        ))}
+
+                        {directedTarget === r.id && (
+                          <form
+                            onSubmit={(e) => handleDirectedFollowup(e, r.id)}
+                            className="mt-2 ml-2 space-y-1.5"
+                          >
+                            <textarea
+                              value={directedQuestion}
+                              onChange={(e) => setDirectedQuestion(e.target.value)}
+                              placeholder={`只向${r.agentLabel}追问，例如：具体花了多少钱？`}
+                              maxLength={500}
+                              rows={2}
+                              disabled={directedLoading}
+                              className="w-full border border-gray-200 rounded-lg p-2 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+                            />
+                            {directedError && <p className="text-xs text-red-600">{directedError}</p>}
+                            <button
+                              type="submit"
+                              disabled={directedLoading}
+                              className="bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 text-white py-1.5 px-3 rounded-lg text-xs font-medium transition-colors"
+                            >
+                              {directedLoading ? "等待回复..." : "发送"}
+                            </button>
+                          </form>
+                        )}
+                      </div>
+                    );
+                  })
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Follow-up */}
+      {followups.length < MAX_FOLLOWUPS && (
+        <form
+          onSubmit={handleFollowup}
+          className="bg-white rounded-lg border border-gray-200 p-4 space-y-2"
+        >
+          <h3 className="font-semibold text-gray-900">
+            继续追问
+          </h3>
+          <p className="text-xs text-gray-500">
+            追问会发给本次回复你的 AI 代理，还可追问 {MAX_FOLLOWUPS - followups.length} 次
+          </p>
+          <textarea
+            value={followupQuestion}
+            onChange={(e) => setFollowupQuestion(e.target.value)}
+            placeholder="例如：你们当时大概多久见效？"
+            maxLength={500}
+            rows={3}
+            disabled={followupLoading}
+            className="w-full border border-gray-200 rounded-lg p-2 text-sm focus:outline-none focus:ring-2 focus:ring-emerald-500"
+          />
+          {followupError && <p className="text-sm text-red-600">{followupError}</p>}
+          <button
+            type="submit"
+            disabled={followupLoading}
+            className="bg-emerald-600 hover:bg-emerald-700 disabled:opacity-50 text-white py-2 px-4 rounded-lg text-sm font-medium transition-colors"
+          >
+            {followupLoading ? "AI 代理思考中..." : "追问"}
+          </button>
+        </form>
+      )}
+
       {/* Risk warning */}
       <div className="bg-red-50 rounded-lg border border-red-200 p-4 text-sm text-red-800">
         {summary.riskWarning ||
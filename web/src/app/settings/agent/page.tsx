@@ -0,0 +1,265 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+
+interface AgentSettings {
+  tags: string[];
+  paused: boolean;
+  quietHours: { start: number; end: number } | null;
+  dailyAnswerCap: number | null;
+}
+
+const HOURS = Array.from({ length: 24 }, (_, h) => h);
+
+export default function AgentSettingsPage() {
+  const [settings, setSettings] = useState<AgentSettings | null>(null);
+  const [taxonomy, setTaxonomy] = useState<Record<string, string[]>>({});
+  const [requestsToday, setRequestsToday] = useState(0);
+  const [customTag, setCustomTag] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState(false);
+
+  useEffect(() => {
+    fetch("/api/agent/settings")
+      .then(async (res) => {
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || "获取设置失败");
+        setSettings(data.settings);
+        setTaxonomy(data.taxonomy);
+        setRequestsToday(data.requestsToday);
+      })
+      .catch((err) => setError(err instanceof Error ? err.message : "获取设置失败"))
+      .finally(() => setLoading(false));
+  }, []);
+
+  function update(patch: Partial<AgentSettings>) {
+    setSettings((prev) => (prev ? { ...prev, ...patch } : prev));
+    setSaved(false);
+  }
+
+  function toggleTag(tag: string) {
+    if (!settings) return;
+    const tags = settings.tags.includes(tag)
+      ? settings.tags.filter((t) => t !== tag)
+      : [...settings.tags, tag];
+    update({ tags });
+  }
+
+  function addCustomTag() {
+    const tag = customTag.trim();
+    if (!settings || !tag) return;
+    if (!settings.tags.includes(tag)) update({ tags: [...settings.tags, tag] });
+    setCustomTag("");
+  }
+
+  async function handleSave() {
+    if (!settings) return;
+    setSaving(true);
+    setError(null);
+    try {
+      const res = await fetch("/api/agent/settings", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(settings),
+      });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "保存失败");
+      setSettings(data.settings);
+      setRequestsToday(data.requestsToday);
+      setSaved(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "保存失败");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex justify-center items-center min-h-[50vh]">
+        <div className="text-gray-500">加载中...</div>
+      </div>
+    );
+  }
+
+  if (!settings) {
+    return (
+      <div className="max-w-2xl mx-auto bg-red-50 border border-red-200 rounded-lg p-4 text-red-700">
+        {error || "获取设置失败"}
+      </div>
+    );
+  }
+
+  const customTags = settings.tags.filter((t) => !Object.values(taxonomy).some((group) => group.includes(t)));
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-6">
+      <div>
+        <Link href="/agent" className="text-sm text-gray-500 hover:text-gray-700">
+          &larr; 我的代理
+        </Link>
+        <h1 className="text-2xl font-bold text-gray-900 mt-2">代理设置</h1>
+        <p className="text-gray-500 mt-1">设置你的代理擅长的话题，以及什么时候可以被邀请回答</p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-4 text-red-700">{error}</div>
+      )}
+
+      {/* 接受咨询 */}
+      <section className="bg-white rounded-xl shadow-sm border border-gray-200 p-6">
+        <label className="flex items-center justify-between">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">暂停接受咨询</h2>
+            <p className="text-sm text-gray-500 mt-1">暂停期间你的代理不会被邀请回答，重新登录也不会自动恢复</p>
+          </div>
+          <input
+            type="checkbox"
+            checked={settings.paused}
+            onChange={(e) => update({ paused: e.target.checked })}
+            className="h-5 w-5"
+          />
+        </label>
+      </section>
+
+      {/* 擅长话题 */}
+      <section className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">擅长话题</h2>
+          <p className="text-sm text-gray-500 mt-1">与这些话题相关的问题会优先邀请你的代理</p>
+        </div>
+
+        {Object.entries(taxonomy).map(([group, tags]) => (
+          <div key={group}>
+            <p className="text-xs text-gray-500 mb-2">{group}</p>
+            <div className="flex flex-wrap gap-2">
+              {tags.map((tag) => (
+                <button
+                  key={tag}
+                  type="button"
+                  onClick={() => toggleTag(tag)}
+                  className={`px-3 py-1 rounded-full text-sm border transition-colors ${
+                    settings.tags.includes(tag)
+                      ? "bg-emerald-600 border-emerald-600 text-white"
+                      : "bg-white border-gray-300 text-gray-700 hover:border-emerald-400"
+                  }`}
+                >
+                  {tag}
+                </button>
+              ))}
+            </div>
+          </div>
+        ))}
+
+        <div>
+          <p className="text-xs text-gray-500 mb-2">自定义</p>
+          <div className="flex flex-wrap gap-2 mb-2">
+            {customTags.map((tag) => (
+              <button
+                key={tag}
+                type="button"
+                onClick={() => toggleTag(tag)}
+                className="px-3 py-1 rounded-full text-sm bg-emerald-600 text-white"
+                title="点击移除"
+              >
+                {tag} ×
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={customTag}
+              onChange={(e) => setCustomTag(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  addCustomTag();
+                }
+              }}
+              placeholder="例如：偏头痛"
+              className="flex-1 border border-gray-300 rounded-lg px-3 py-2 text-sm"
+            />
+            <button
+              type="button"
+              onClick={addCustomTag}
+              className="px-4 py-2 rounded-lg text-sm bg-gray-100 hover:bg-gray-200 text-gray-700"
+            >
+              添加
+            </button>
+          </div>
+        </div>
+      </section>
+
+      {/* 可用时间 */}
+      <section className="bg-white rounded-xl shadow-sm border border-gray-200 p-6 space-y-4">
+        <h2 className="text-lg font-semibold text-gray-900">可用时间</h2>
+
+        <div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={settings.quietHours !== null}
+              onChange={(e) => update({ quietHours: e.target.checked ? { start: 22, end: 8 } : null })}
+            />
+            免打扰时段（北京时间）
+          </label>
+          {settings.quietHours && (
+            <div className="flex items-center gap-2 mt-2 text-sm text-gray-700">
+              <select
+                value={settings.quietHours.start}
+                onChange={(e) => update({ quietHours: { ...settings.quietHours!, start: Number(e.target.value) } })}
+                className="border border-gray-300 rounded-lg px-2 py-1"
+              >
+                {HOURS.map((h) => <option key={h} value={h}>{h}:00</option>)}
+              </select>
+              <span>至</span>
+              <select
+                value={settings.quietHours.end}
+                onChange={(e) => update({ quietHours: { ...settings.quietHours!, end: Number(e.target.value) } })}
+                className="border border-gray-300 rounded-lg px-2 py-1"
+              >
+                {HOURS.map((h) => <option key={h} value={h}>{h}:00</option>)}
+              </select>
+            </div>
+          )}
+        </div>
+
+        <div>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={settings.dailyAnswerCap !== null}
+              onChange={(e) => update({ dailyAnswerCap: e.target.checked ? 10 : null })}
+            />
+            每日最多接受咨询次数
+          </label>
+          {settings.dailyAnswerCap !== null && (
+            <div className="flex items-center gap-2 mt-2 text-sm text-gray-700">
+              <input
+                type="number"
+                min={1}
+                value={settings.dailyAnswerCap}
+                onChange={(e) => update({ dailyAnswerCap: Math.max(1, Math.floor(Number(e.target.value) || 1)) })}
+                className="w-24 border border-gray-300 rounded-lg px-2 py-1"
+              />
+              <span className="text-gray-500">今天已被邀请 {requestsToday} 次</span>
+            </div>
+          )}
+        </div>
+      </section>
+
+      <button
+        type="button"
+        onClick={handleSave}
+        disabled={saving}
+        className="w-full bg-emerald-600 hover:bg-emerald-700 disabled:bg-gray-300 text-white py-3 px-4 rounded-lg font-medium transition-colors"
+      >
+        {saving ? "保存中..." : saved ? "已保存" : "保存设置"}
+      </button>
+    </div>
+  );
+}
@@ -158,6 +158,24 @@ export default function HealthConsentPage() {
             </div>
           </div>
 
+          {consentStatus?.deletionReceipt && (
+            <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 mb-6">
+              <p className="text-sm font-medium text-gray-900 mb-2">数据删除回执</p>
+              <ul className="text-sm text-gray-600 space-y-1">
+                <li>回执编号：{consentStatus.deletionReceipt.id}</li>
+                <li>完成时间：{formatDate(consentStatus.deletionReceipt.completedAt)}</li>
+                <li>已删除原始数据（按日）：{consentStatus.deletionReceipt.rawKeysDeleted} 份</li>
+                <li>已删除周汇总：{consentStatus.deletionReceipt.weeklyKeysDeleted} 份</li>
+                <li>
+                  涉及指标：
+                  {consentStatus.deletionReceipt.metricTypes.length > 0
+                    ? consentStatus.deletionReceipt.metricTypes.join(", ")
+                    : "-"}
+                </li>
+              </ul>
+            </div>
+          )}
+
           {!consentStatus?.hasConsent ? (
             <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
               <p className="text-sm text-blue-800 mb-3">
@@ -0,0 +1,47 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useState } from "react";
+
+export default function RetractAnswerButton({
+  consultationId,
+  responseId,
+}: {
+  consultationId: string;
+  responseId: string;
+}) {
+  const router = useRouter();
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleRetract() {
+    if (!window.confirm("撤回后，提问者的报告中将不再显示这条回复的内容。确定撤回吗？")) return;
+    setLoading(true);
+    setError(null);
+    const res = await fetch("/api/agent/answers/retract", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ consultationId, responseId }),
+    });
+    if (res.ok) {
+      router.refresh();
+    } else {
+      const data = await res.json().catch(() => ({}));
+      setError(data.error || "撤回失败");
+    }
+    setLoading(false);
+  }
+
+  return (
+    <span className="inline-flex items-center gap-2">
+      {error && <span className="text-xs text-red-600">{error}</span>}
+      <button
+        onClick={handleRetract}
+        disabled={loading}
+        className="text-xs text-red-600 hover:underline disabled:opacity-50"
+      >
+        {loading ? "撤回中..." : "撤回"}
+      </button>
+    </span>
+  );
+}
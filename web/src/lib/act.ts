@@ -1,6 +1,6 @@
-// SecondMe Act API - structured health question triage
+// Structured health question triage through the configured triage provider
 
-import { getRequiredEnvVar } from "./secondme";
+import { getModelProvider } from "./providers";
 
 export type TriageIntent =
   | "experience_sharing"
@@ -32,56 +32,27 @@ const INTENT_PROMPT_ADJUSTMENTS: Record<TriageIntent, string> = {
   medication_related: "\n请特别注意：不要给出具体用药建议，只分享一般性的经验。",
 };
 
-// Call SecondMe Act API for structured triage
+// Call the triage provider's Act API for structured triage
 export async function triageHealthQuestion(
   question: string
 ): Promise<TriageResult> {
-  const apiBase = getRequiredEnvVar("SECONDME_API_BASE_URL");
-
-  // Try to get an access token from any available user for act API
   // For triage, we use a direct API call without user context
   try {
-    const res = await fetch(`${apiBase}/api/secondme/act`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        message: question,
-        systemPrompt: ACT_SYSTEM_PROMPT,
-        responseFormat: "json",
-      }),
+    const data = await getModelProvider("triage").act({
+      message: question,
+      systemPrompt: ACT_SYSTEM_PROMPT,
     });
-
-    if (res.ok) {
-      const json = await res.json();
-      if (json.code === 0 && json.data) {
-        return parseTriageResponse(json.data);
-      }
+    if (typeof data === "object" && data !== null) {
+      return validateTriageResult(data as Record<string, unknown>);
     }
   } catch (err) {
-    console.error("[Act] SecondMe API call failed, using fallback:", err);
+    console.error("[Act] Triage provider call failed, using fallback:", err);
   }
 
   // Fallback: rule-based classification
   return fallbackTriage(question);
 }
 
-function parseTriageResponse(data: unknown): TriageResult {
-  if (typeof data === "string") {
-    try {
-      const parsed = JSON.parse(data);
-      return validateTriageResult(parsed);
-    } catch {
-      // Not valid JSON
-    }
-  }
-
-  if (typeof data === "object" && data !== null) {
-    return validateTriageResult(data as Record<string, unknown>);
-  }
-
-  return fallbackTriage("");
-}
-
 function validateTriageResult(obj: Record<string, unknown>): TriageResult {
   const validIntents: TriageIntent[] = [
     "experience_sharing", "emergency", "general_consultation", "medication_related",
@@ -0,0 +1,10 @@
+// Admin access - allowlist of user ids from ADMIN_USER_IDS
+
+/** ADMIN_USER_IDS is a comma-separated list of internal user ids */
+export function isAdmin(userId: string): boolean {
+  const ids = (process.env.ADMIN_USER_IDS || "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+  return ids.includes(userId);
+}
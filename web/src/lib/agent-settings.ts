@@ -0,0 +1,83 @@
+// Agent owner settings - expertise tags and availability
+
+import type { AgentSettings } from "./db/types";
+
+export const MAX_TAGS = 20;
+export const MAX_TAG_LENGTH = 12;
+export const MAX_DAILY_ANSWER_CAP = 200;
+const BEIJING_OFFSET_MS = 8 * 60 * 60 * 1000; // Quiet hours and daily caps follow Beijing time
+
+// Curated tags offered on the settings page; owners can add their own as well
+export const TAG_TAXONOMY: Record<string, string[]> = {
+  慢性病: ["高血压", "糖尿病", "高血脂", "痛风", "甲状腺"],
+  消化: ["胃炎", "胃镜", "肠镜", "幽门螺杆菌", "肠易激"],
+  睡眠与心理: ["失眠", "焦虑", "抑郁", "减压"],
+  呼吸与过敏: ["鼻炎", "哮喘", "过敏", "咳嗽"],
+  骨骼与运动: ["腰椎", "颈椎", "膝关节", "运动损伤", "康复"],
+  妇幼: ["备孕", "孕期", "产后", "育儿", "儿童疫苗"],
+  皮肤: ["痘痘", "湿疹", "脱发"],
+  体检与预防: ["体检", "疫苗", "减重", "营养"],
+};
+
+/** Hour of day and calendar day in Beijing time */
+function beijingTime(now: number): { hour: number; day: string } {
+  const shifted = new Date(now + BEIJING_OFFSET_MS);
+  return { hour: shifted.getUTCHours(), day: shifted.toISOString().slice(0, 10) };
+}
+
+/** The day key daily answer counts are kept under, e.g. "2026-03-01" */
+export function answerDay(now: number = Date.now()): string {
+  return beijingTime(now).day;
+}
+
+/** Quiet hours run from `start` up to `end`; start > end wraps past midnight */
+export function isInQuietHours(quietHours: AgentSettings["quietHours"] | undefined, now: number = Date.now()): boolean {
+  if (!quietHours || quietHours.start === quietHours.end) return false;
+  const { hour } = beijingTime(now);
+  const { start, end } = quietHours;
+  return start < end ? hour >= start && hour < end : hour >= start || hour < end;
+}
+
+function isHour(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 23;
+}
+
+/** Check a settings update from the client; fields left out are not changed */
+export function parseAgentSettings(
+  body: Record<string, unknown>
+): { settings: Partial<AgentSettings> } | { error: string } {
+  const settings: Partial<AgentSettings> = {};
+
+  if (body.tags !== undefined) {
+    if (!Array.isArray(body.tags) || body.tags.some((t) => typeof t !== "string")) {
+      return { error: "标签格式不正确" };
+    }
+    const tags = [...new Set((body.tags as string[]).map((t) => t.trim()).filter(Boolean))];
+    if (tags.length > MAX_TAGS) return { error: `最多设置 ${MAX_TAGS} 个标签` };
+    if (tags.some((t) => t.length > MAX_TAG_LENGTH)) return { error: `每个标签最多 ${MAX_TAG_LENGTH} 个字` };
+    settings.tags = tags;
+  }
+
+  if (body.paused !== undefined) {
+    if (typeof body.paused !== "boolean") return { error: "暂停设置不正确" };
+    settings.paused = body.paused;
+  }
+
+  if (body.quietHours !== undefined) {
+    const quiet = body.quietHours as { start?: unknown; end?: unknown } | null;
+    if (quiet !== null && (!isHour(quiet?.start) || !isHour(quiet?.end))) {
+      return { error: "免打扰时段需为 0-23 点" };
+    }
+    settings.quietHours = quiet ? { start: quiet.start as number, end: quiet.end as number } : null;
+  }
+
+  if (body.dailyAnswerCap !== undefined) {
+    const cap = body.dailyAnswerCap;
+    if (cap !== null && (!Number.isInteger(cap) || (cap as number) < 1 || (cap as number) > MAX_DAILY_ANSWER_CAP)) {
+      return { error: `每日上限需为 1-${MAX_DAILY_ANSWER_CAP} 的整数` };
+    }
+    settings.dailyAnswerCap = cap as number | null;
+  }
+
+  return { settings };
+}
@@ -1,6 +1,4 @@
 import { describe, it, expect, beforeEach, afterEach } from "vitest";
-import * as fs from "fs";
-import * as path from "path";
 import {
   getConsentRecord,
   checkConsent,
@@ -8,12 +6,13 @@ import {
   revokeConsent,
   hasValidConsent,
   getConsentAuditEvents,
+  getDeletionReceipt,
   logSyncBlocked,
-  resetJSONCache,
+  addHealthMetric,
+  getHealthMetrics,
 } from "@/lib/db";
 import type { ConsentScope } from "@/lib/consent/types";
-
-const TEST_DB_FILE = path.join(process.cwd(), "data", "medcrowd.db.json");
+import { resetTestDb } from "@/test/db";
 
 describe("Health Data Consent Flow Tests", () => {
   const testUserId = "test-user-consent";
@@ -27,16 +26,11 @@ describe("Health Data Consent Flow Tests", () => {
   beforeEach(() => {
     process.env.KV_REST_API_URL = "";
     process.env.DB_MODE = "json";
-    resetJSONCache();
-    if (fs.existsSync(TEST_DB_FILE)) {
-      fs.unlinkSync(TEST_DB_FILE);
-    }
+    resetTestDb();
   });
 
   afterEach(() => {
-    if (fs.existsSync(TEST_DB_FILE)) {
-      fs.unlinkSync(TEST_DB_FILE);
-    }
+    resetTestDb();
   });
 
   describe("Initial State", () => {
@@ -164,6 +158,39 @@ describe("Health Data Consent Flow Tests", () => {
       expect(record!.status).toBe("REVOKED");
     });
 
+    it("should erase health data and record a receipt when deleteData is set", async () => {
+      const timestamp = new Date("2024-01-15T12:00:00Z").getTime();
+      await grantConsent(testUserId, defaultScope, "v1.0");
+      await addHealthMetric(testUserId, "weight", {
+        timestamp,
+        value: 70,
+        unit: "kg",
+        source: "manual_entry",
+        confidence: 1,
+      });
+
+      await revokeConsent(testUserId, { deleteData: true });
+
+      const metrics = await getHealthMetrics(testUserId, "weight", timestamp - 1000, timestamp + 1000);
+      expect(metrics).toEqual([]);
+
+      const receipt = await getDeletionReceipt(testUserId);
+      expect(receipt).not.toBeNull();
+      expect(receipt!.rawKeysDeleted).toBe(1);
+
+      const events = await getConsentAuditEvents(testUserId);
+      const deleteEvent = events.find((e) => e.eventType === "DATA_DELETED");
+      expect(deleteEvent!.details.deletionReceipt?.id).toBe(receipt!.id);
+    });
+
+    it("should not erase health data without deleteData", async () => {
+      await grantConsent(testUserId, defaultScope, "v1.0");
+      await revokeConsent(testUserId);
+
+      const receipt = await getDeletionReceipt(testUserId);
+      expect(receipt).toBeNull();
+    });
+
     it("should support revocation with reason", async () => {
       await grantConsent(testUserId, defaultScope, "v1.0");
 
@@ -1,8 +1,9 @@
 // Consent storage operations with audit trail
 
 import { randomUUID } from "crypto";
-import type { DbAdapter } from "@/lib/db/types";
+import type { DbAdapter, DataDeletionReceipt } from "@/lib/db/types";
 import { KV_KEYS } from "@/lib/db/types";
+import { createHealthMetricsOps } from "@/lib/db/health-metrics";
 import type {
   ConsentRecord,
   ConsentAuditEvent,
@@ -14,6 +15,8 @@ import type {
 const MAX_AUDIT_EVENTS = 100;
 
 export function createConsentOps(db: DbAdapter) {
+  const healthMetricsOps = createHealthMetricsOps(db);
+
   return {
     async getConsentRecord(userId: string): Promise<ConsentRecord | null> {
       const record = await db.get<ConsentRecord>(KV_KEYS.consent.record(userId));
@@ -121,12 +124,16 @@ export function createConsentOps(db: DbAdapter) {
       });
 
       if (options?.deleteData) {
+        const receipt = await healthMetricsOps.deleteAllUserMetrics(userId);
+        await db.set(KV_KEYS.consent.deletionReceipt(userId), receipt);
+
         await this.addAuditEvent({
           userId,
           eventType: "DATA_DELETED",
           details: {
             triggeredByRevocation: true,
             reason: options.reason,
+            deletionReceipt: receipt,
           },
           ipAddress: options?.ipAddress,
           userAgent: options?.userAgent,
@@ -136,6 +143,10 @@ export function createConsentOps(db: DbAdapter) {
       return record;
     },
 
+    async getDeletionReceipt(userId: string): Promise<DataDeletionReceipt | null> {
+      return db.get<DataDeletionReceipt>(KV_KEYS.consent.deletionReceipt(userId));
+    },
+
     async addAuditEvent(event: {
       userId: string;
       eventType: ConsentAuditEvent["eventType"];
@@ -156,9 +167,8 @@ export function createConsentOps(db: DbAdapter) {
       const key = KV_KEYS.consent.auditEvents(event.userId);
       await db.lpush(key, JSON.stringify(auditEvent));
 
-      const events = await db.lrange(key, 0, -1);
-      if (events.length > MAX_AUDIT_EVENTS) {
-        await db.lrange(key, MAX_AUDIT_EVENTS, -1);
+      if ((await db.llen(key)) > MAX_AUDIT_EVENTS) {
+        await db.ltrim(key, 0, MAX_AUDIT_EVENTS - 1);
       }
     },
 
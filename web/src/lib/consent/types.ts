@@ -1,5 +1,9 @@
 // Health data consent types and audit trail definitions
 
+import type { DataDeletionReceipt } from "@/lib/db/types";
+
+export type { DataDeletionReceipt } from "@/lib/db/types";
+
 /**
  * Consent state for health data sync
  * - NONE: User has not yet given consent
@@ -58,6 +62,7 @@ export interface ConsentAuditEvent {
     reason?: string;
     metadata?: Record<string, unknown>;
     triggeredByRevocation?: boolean;
+    deletionReceipt?: DataDeletionReceipt;
   };
   ipAddress?: string;
   userAgent?: string;
@@ -74,6 +79,7 @@ export interface ConsentStatusResponse {
   expiresAt?: number;
   scope?: ConsentScope;
   version?: string;
+  deletionReceipt?: DataDeletionReceipt; // Most recent health data erasure, if any
 }
 
 /**
@@ -0,0 +1,90 @@
+// Client-facing view of a consultation's responses
+// Agents are anonymous to the asker: responderId never leaves the server
+
+import type { AgentResponseRecord } from "./db/types";
+
+export interface ResponseView {
+  id: string;
+  agentLabel: string; // "代理 N", stable across rounds within one consultation
+  round: "initial" | "reaction" | "followup" | "directed";
+  roundIndex?: number; // Which follow-up or deliberation pass
+  parentResponseId?: string; // Directed replies hang under this answer
+  directedQuestion?: string;
+  rawResponse?: string;
+  keyPoints: string[];
+  isValid: boolean;
+  invalidReason?: string;
+  latencyMs: number;
+  late?: boolean;
+  retracted?: boolean; // Withdrawn by the agent's owner; text and key points are withheld
+}
+
+/**
+ * "代理 N" labels from the persisted order agents were first queried in, so the live
+ * stream and the report agree. Agents missing from it (consultations from before the
+ * order was stored) follow in the order `extra` names them.
+ */
+export function agentLabels(agentOrder: string[], extra: string[] = []): Map<string, string> {
+  const labels = new Map<string, string>();
+  for (const agentId of [...agentOrder, ...extra]) {
+    if (!labels.has(agentId)) labels.set(agentId, `代理 ${labels.size + 1}`);
+  }
+  return labels;
+}
+
+/** Oldest first, labelled by `agentOrder` (see agentLabels) */
+export function toResponseViews(responses: AgentResponseRecord[], agentOrder: string[] = []): ResponseView[] {
+  const sorted = [...responses].sort((a, b) => a.createdAt - b.createdAt);
+  const labels = agentLabels(agentOrder, sorted.map((r) => r.responderId));
+  // A withdrawn answer takes the directed replies under it along
+  const withdrawn = new Set(responses.filter((r) => r.retracted).map((r) => r.id));
+
+  return sorted.map((r) => {
+    const retracted = r.retracted || (!!r.parentResponseId && withdrawn.has(r.parentResponseId)) || undefined;
+    return {
+      id: r.id,
+      agentLabel: labels.get(r.responderId)!,
+      round: r.round ?? "initial",
+      roundIndex: r.roundIndex,
+      parentResponseId: r.parentResponseId,
+      directedQuestion: r.directedQuestion,
+      rawResponse: r.isValid && !retracted ? r.rawResponse : undefined,
+      keyPoints: retracted ? [] : r.keyPoints,
+      isValid: r.isValid,
+      invalidReason: r.invalidReason,
+      latencyMs: r.latencyMs,
+      late: r.late,
+      retracted,
+    };
+  });
+}
+
+/**
+ * Swap an engine event's `agentId` for its "代理 N" label. `labels` should come from
+ * agentLabels over the stored order to match the report; an agent not in it gets the
+ * next free number so the event still goes out anonymised.
+ */
+export function anonymiseEvent(
+  event: Record<string, unknown>,
+  labels: Map<string, string>
+): Record<string, unknown> {
+  if (typeof event.agentId !== "string") return event;
+  if (!labels.has(event.agentId)) labels.set(event.agentId, `代理 ${labels.size + 1}`);
+  const { agentId, ...rest } = event;
+  return { ...rest, agentLabel: labels.get(agentId) };
+}
+
+// Contact details and ID numbers an asker may have typed into the question
+const PERSONAL_DETAILS = [
+  /[\w.+-]+@[\w-]+(\.[\w-]+)+/g, // Email
+  /\d{17}[\dXx]/g, // Resident ID number
+  /1[3-9]\d{9}/g, // Mobile number
+  /\d{6,}/g, // Any other long number (landline, card, case number)
+];
+const QUESTION_PREVIEW_LENGTH = 120;
+
+/** The asker's question as shown to an answering agent's owner: personal details masked, shortened */
+export function anonymiseQuestion(question: string): string {
+  const masked = PERSONAL_DETAILS.reduce((text, pattern) => text.replace(pattern, "***"), question.trim());
+  return masked.length > QUESTION_PREVIEW_LENGTH ? `${masked.slice(0, QUESTION_PREVIEW_LENGTH)}…` : masked;
+}
@@ -4,18 +4,41 @@ export {
   getUserById,
   getUserBySecondmeId,
   getConsultableUsers,
-  circuitBreakUser,
+  searchAgents,
+  updateAgentSettings,
+  recordAgentRequest,
+  getAgentRequestsToday,
   updateUserTokens,
+  getUsersWithTokensExpiringBefore,
   createConsultation,
   getConsultation,
   updateConsultation,
+  cancelConsultation,
   getUserConsultations,
+  addConsultationAgents,
+  getConsultationAgentOrder,
+  // Consultation job queue
+  enqueueConsultationJob,
+  getConsultationJob,
+  claimConsultationJob,
+  renewConsultationJobLease,
+  requeueConsultationJob,
+  completeConsultationJob,
+  failConsultationJob,
+  getActiveConsultationJobs,
+  // Consultation event log (SSE)
+  appendConsultationEvent,
+  getConsultationEventsAfter,
   addAgentResponse,
   addAgentResponsesBatch,
+  addDirectedResponse,
   getAgentResponses,
+  getResponderAnswers,
+  retractAgentResponse,
   checkDBHealth,
   getDBMode,
   resetJSONCache,
+  resetSQLiteDb,
   // Health metrics exports
   addHealthMetric,
   addHealthMetricsBatch,
@@ -26,7 +49,9 @@ export {
   aggregateHealthToWeekly,
   getUserHealthMetricTypes,
   deleteUserHealthMetrics,
+  runWeeklyHealthRollup,
   checkHealthMetricsMigrationTriggers,
+  flushHealthLatencySamples,
   // Consent operations
   getConsentRecord,
   checkConsent,
@@ -34,28 +59,58 @@ export {
   revokeConsent,
   hasValidConsent,
   getConsentAuditEvents,
+  getDeletionReceipt,
   logSyncBlocked,
   getWeekId,
+  // Circuit breaker operations
+  recordAgentFailure,
+  recordAgentSuccess,
+  getAgentBreaker,
+  getAgentBreakerHistory,
+  getTrippedAgentBreakers,
+  getAgentsDueForProbe,
+  claimAgentProbe,
+  // Notification operations
+  getNotifications,
+  notifyUser,
+  clearNotifications,
+  // Reputation operations
+  getAgentReputation,
+  getAgentReputations,
+  recordAgentOutcomes,
+  recordConsultationVote,
   // Feedback operations
   submitFeedback,
   getFeedback,
-  // Lock and event helpers
+  // Lock helpers
   acquireLock,
   releaseLock,
-  pushEvent,
-  getEvents,
 } from "./db/index";
 
 export type {
+  DbMode,
   UserRecord,
   ConsultationRecord,
+  ConsultationFollowup,
+  ConsultationJobRecord,
   AgentResponseRecord,
+  SequencedEvent,
+  AgentReputationStats,
+  AgentMatch,
+  AgentSettings,
+  AgentBreakerRecord,
+  BreakerTransition,
+  UserNotification,
   // Health metrics types
   HealthMetricType,
   HealthMetricPoint,
   WeeklySnapshot,
   HealthMetricsIndex,
   StorageLatencyMetrics,
+  LatencyPercentiles,
+  MigrationTriggerStatus,
+  DataDeletionReceipt,
+  HealthRollupReport,
   // Feedback types
   FeedbackRecord,
 } from "./db/index";
@@ -0,0 +1,210 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import * as os from "os";
+import * as path from "path";
+import { createJsonAdapter, sweepExpiredKeys } from "@/lib/db/json-adapter";
+import { createSqliteAdapter, resetSqliteDb, sweepExpiredSqliteKeys } from "@/lib/db/sqlite-adapter";
+import type { DbAdapter } from "@/lib/db/types";
+import { resetTestDb } from "@/test/db";
+
+const TEST_SQLITE_FILE = path.join(os.tmpdir(), `medcrowd-adapter-${process.pid}.db`);
+
+const ADAPTERS: Array<{ name: string; create: () => DbAdapter; reset: () => void; sweep: () => number }> = [
+  {
+    name: "JSON",
+    create: () => createJsonAdapter(),
+    reset: () => resetTestDb(),
+    sweep: () => sweepExpiredKeys(),
+  },
+  {
+    name: "SQLite",
+    create: () => createSqliteAdapter(TEST_SQLITE_FILE),
+    reset: () => resetSqliteDb(TEST_SQLITE_FILE),
+    sweep: () => sweepExpiredSqliteKeys(TEST_SQLITE_FILE),
+  },
+];
+
+describe.each(ADAPTERS)("DbAdapter Primitives ($name)", ({ create, reset, sweep }) => {
+  let db: DbAdapter;
+
+  beforeEach(() => {
+    reset();
+    db = create();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    reset();
+  });
+
+  describe("scan", () => {
+    it("should return keys matching a prefix across kv, sets and lists", async () => {
+      await db.set("health:u1:raw:weight:2024-01-15", [1]);
+      await db.sadd("health:u1:set", "a");
+      await db.lpush("health:u1:list", "a");
+      await db.set("health:u2:raw:weight:2024-01-15", [2]);
+
+      const keys = await db.scan("health:u1:");
+      expect(keys.sort()).toEqual([
+        "health:u1:list",
+        "health:u1:raw:weight:2024-01-15",
+        "health:u1:set",
+      ]);
+    });
+  });
+
+  describe("mget / mset", () => {
+    it("should read many keys in order with null for missing ones", async () => {
+      await db.mset({ a: 1, b: { x: 2 } });
+
+      const values = await db.mget<unknown>(["a", "missing", "b"]);
+      expect(values).toEqual([1, null, { x: 2 }]);
+    });
+
+    it("should return an empty array for no keys", async () => {
+      expect(await db.mget([])).toEqual([]);
+    });
+  });
+
+  describe("incr", () => {
+    it("should start at 1 and increment atomically", async () => {
+      expect(await db.incr("counter")).toBe(1);
+      expect(await db.incr("counter")).toBe(2);
+      expect(await db.get<number>("counter")).toBe(2);
+    });
+
+    it("should step by a given amount, including negative", async () => {
+      await db.incr("counter", 5);
+      expect(await db.incr("counter", -2)).toBe(3);
+    });
+  });
+
+  describe("sets", () => {
+    it("should add, dedupe and remove members", async () => {
+      await db.sadd("s", "a");
+      await db.sadd("s", "a");
+      await db.sadd("s", "b");
+      await db.srem("s", "a");
+
+      expect(await db.smembers("s")).toEqual(["b"]);
+    });
+  });
+
+  describe("lists", () => {
+    it("should trim and count list entries", async () => {
+      for (const v of ["1", "2", "3", "4"]) {
+        await db.lpush("list", v);
+      }
+
+      expect(await db.llen("list")).toBe(4);
+      await db.ltrim("list", 0, 1);
+      expect(await db.llen("list")).toBe(2);
+      expect(await db.lrange("list", 0, -1)).toEqual(["4", "3"]);
+    });
+
+    it("should support negative lrange bounds", async () => {
+      for (const v of ["1", "2", "3"]) {
+        await db.lpush("list", v);
+      }
+
+      expect(await db.lrange("list", 0, -1)).toEqual(["3", "2", "1"]);
+      expect(await db.lrange("list", 1, 1)).toEqual(["2"]);
+    });
+
+    it("should report zero length for a missing list", async () => {
+      expect(await db.llen("nope")).toBe(0);
+    });
+  });
+
+  describe("del", () => {
+    it("should remove keys of any type", async () => {
+      await db.sadd("s", "a");
+      await db.lpush("l", "a");
+
+      await db.del("s");
+      await db.del("l");
+
+      expect(await db.smembers("s")).toEqual([]);
+      expect(await db.llen("l")).toBe(0);
+    });
+  });
+
+  describe("TTL", () => {
+    function advance(ms: number) {
+      const now = Date.now();
+      vi.spyOn(Date, "now").mockReturnValue(now + ms);
+    }
+
+    it("should expire keys set with ex", async () => {
+      await db.set("ttl-key", "v", { ex: 10 });
+      expect(await db.get("ttl-key")).toBe("v");
+
+      advance(11_000);
+      expect(await db.get("ttl-key")).toBeNull();
+    });
+
+    it("should clear the TTL when a key is overwritten without ex", async () => {
+      await db.set("k", "a", { ex: 10 });
+      await db.set("k", "b");
+
+      advance(11_000);
+      expect(await db.get("k")).toBe("b");
+    });
+
+    it("should allow NX set again once the previous key expired", async () => {
+      expect(await db.set("lock:x", "1", { ex: 5, nx: true })).toBe(true);
+      expect(await db.set("lock:x", "1", { ex: 5, nx: true })).toBe(false);
+
+      advance(6_000);
+      expect(await db.set("lock:x", "1", { ex: 5, nx: true })).toBe(true);
+    });
+
+    it("should expire lists and counters via expire", async () => {
+      await db.lpush("events", "e1");
+      await db.expire("events", 5);
+      await db.incr("counter");
+      await db.expire("counter", 5);
+
+      advance(6_000);
+      expect(await db.llen("events")).toBe(0);
+      expect(await db.get("counter")).toBeNull();
+      expect(await db.incr("counter")).toBe(1);
+    });
+
+    it("should apply ex to every key in mset", async () => {
+      await db.mset({ a: 1, b: 2 }, { ex: 5 });
+
+      advance(6_000);
+      expect(await db.mget(["a", "b"])).toEqual([null, null]);
+    });
+
+    it("should sweep expired keys without reading them", async () => {
+      await db.set("short", 1, { ex: 1 });
+      await db.set("long", 1, { ex: 100 });
+      await db.set("forever", 1);
+
+      advance(2_000);
+      expect(sweep()).toBe(1);
+      expect((await db.scan("")).sort()).toEqual(["forever", "long"]);
+    });
+
+    it("should report remaining TTL in seconds", async () => {
+      await db.set("k", "v", { ex: 10 });
+      await db.lpush("l", "a");
+      await db.set("forever", 1);
+
+      advance(4_000);
+      expect(await db.ttl("k")).toBe(6);
+      expect(await db.ttl("l")).toBeNull();
+      expect(await db.ttl("forever")).toBeNull();
+      expect(await db.ttl("missing")).toBeNull();
+    });
+
+    it("should not list expired keys in scan", async () => {
+      await db.set("short", 1, { ex: 1 });
+      await db.set("forever", 1);
+
+      advance(2_000);
+      expect(await db.scan("")).toEqual(["forever"]);
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { createJsonAdapter } from "@/lib/db/json-adapter";
+import { createAgentIndexOps } from "@/lib/db/agent-index";
+import { KV_KEYS } from "@/lib/db/types";
+import { tokenize } from "@/lib/relevance";
+import { resetTestDb } from "@/test/db";
+
+describe("Agent Relevance Index", () => {
+  let adapter: ReturnType<typeof createJsonAdapter>;
+  let index: ReturnType<typeof createAgentIndexOps>;
+
+  beforeEach(() => {
+    resetTestDb();
+    adapter = createJsonAdapter();
+    index = createAgentIndexOps(adapter);
+  });
+
+  afterEach(() => {
+    resetTestDb();
+  });
+
+  it("should tokenize Han text into bigrams and keep Latin words whole", () => {
+    expect(tokenize("胃镜 HPV疫苗 a")).toEqual(["胃镜", "hpv", "疫苗"]);
+    expect(tokenize("痛")).toEqual(["痛"]);
+  });
+
+  it("should rank tag matches above bio mentions and rare terms above common ones", async () => {
+    await index.indexAgent({ id: "tagged", tags: ["胃镜"], bio: "平时喜欢跑步" });
+    await index.indexAgent({ id: "mentioned", bio: "体检时顺便做过一次胃镜，平时喜欢跑步" });
+    await index.indexAgent({ id: "runner", bio: "平时喜欢跑步" });
+
+    const matches = await index.search("胃镜后还能跑步吗", 10);
+    expect(matches.map((m) => m.agentId)).toEqual(["tagged", "mentioned", "runner"]);
+    expect(await index.search("胃镜", 1)).toHaveLength(1);
+    expect(await index.search("完全无关", 10)).toEqual([]);
+  });
+
+  it("should replace an agent's postings when it is re-indexed", async () => {
+    await index.indexAgent({ id: "a1", bio: "失眠多年" });
+    await index.indexAgent({ id: "a1", bio: "过敏性鼻炎" });
+
+    expect(await index.search("失眠", 10)).toEqual([]);
+    expect((await index.search("鼻炎", 10)).map((m) => m.agentId)).toEqual(["a1"]);
+    expect(await adapter.get(KV_KEYS.agentIndex.docCount())).toBe(1);
+
+    await index.removeAgent("a1");
+    expect(await index.search("鼻炎", 10)).toEqual([]);
+    expect(await adapter.get(KV_KEYS.agentIndex.docCount())).toBe(0);
+  });
+
+  it("should count an agent once when it is indexed concurrently", async () => {
+    await Promise.all([
+      index.indexAgent({ id: "a1", bio: "失眠多年" }),
+      index.indexAgent({ id: "a1", bio: "失眠多年" }),
+    ]);
+
+    expect(await adapter.get(KV_KEYS.agentIndex.docCount())).toBe(1);
+    expect(await adapter.get(KV_KEYS.agentIndex.totalLength())).toBe(tokenize("失眠多年").length);
+  });
+
+  it("should backfill existing agents once across concurrent callers", async () => {
+    const agents = [
+      { id: "a1", bio: "失眠多年" },
+      { id: "a2", bio: "过敏性鼻炎" },
+    ];
+    const loads: string[] = [];
+    const loadAgents = async () => {
+      loads.push("load");
+      return agents;
+    };
+
+    await Promise.all([index.backfill(loadAgents), index.backfill(loadAgents)]);
+    await index.backfill(loadAgents);
+
+    expect(loads).toHaveLength(1);
+    expect(await adapter.get(KV_KEYS.agentIndex.docCount())).toBe(2);
+  });
+});
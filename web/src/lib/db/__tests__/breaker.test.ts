@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createJsonAdapter } from "@/lib/db/json-adapter";
+import { createBreakerOps } from "@/lib/db/breaker";
+import { createUserOps } from "@/lib/db/users";
+import { KV_KEYS, AGENT_BREAKER, type DbAdapter, type UserRecord } from "@/lib/db/types";
+import { resetTestDb } from "@/test/db";
+
+describe("Agent Circuit Breaker", () => {
+  let db: DbAdapter;
+  let breaker: ReturnType<typeof createBreakerOps>;
+
+  async function inPool(agentId: string): Promise<boolean> {
+    return (await db.smembers(KV_KEYS.consultableUsers())).includes(agentId);
+  }
+
+  beforeEach(async () => {
+    resetTestDb();
+    db = createJsonAdapter();
+    breaker = createBreakerOps(db);
+
+    await db.set(KV_KEYS.user("a1"), { id: "a1", consultable: true } as UserRecord);
+    await db.sadd(KV_KEYS.consultableUsers(), "a1");
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    resetTestDb();
+  });
+
+  it("should open after consecutive failures and take the agent out of the pool", async () => {
+    for (let n = 1; n < AGENT_BREAKER.FAILURE_THRESHOLD; n++) {
+      expect((await breaker.recordFailure("a1", "timeout")).state).toBe("CLOSED");
+    }
+    const record = await breaker.recordFailure("a1", "timeout");
+
+    expect(record).toMatchObject({ state: "OPEN", trips: 1 });
+    expect(record.retryAt! - Date.now()).toBeLessThanOrEqual(AGENT_BREAKER.BASE_OPEN_MS);
+    expect(await inPool("a1")).toBe(false);
+    expect((await db.get<UserRecord>(KV_KEYS.user("a1")))?.circuitBreakerUntil).toBe(record.retryAt);
+  });
+
+  it("should reset the failure count on success", async () => {
+    await breaker.recordFailure("a1", "timeout");
+    await breaker.recordFailure("a1", "timeout");
+    await breaker.recordSuccess("a1");
+
+    expect((await breaker.recordFailure("a1", "timeout")).state).toBe("CLOSED");
+  });
+
+  it("should probe only once due, then close and return the agent to the pool", async () => {
+    await breaker.recordFailure("a1", "401", { trip: true });
+    expect(await breaker.getDueProbes()).toEqual([]);
+    expect(await breaker.claimProbe("a1")).toBeNull();
+
+    vi.useFakeTimers({ now: Date.now() + AGENT_BREAKER.BASE_OPEN_MS + 1, toFake: ["Date"] });
+    expect(await breaker.getDueProbes()).toEqual(["a1"]);
+    expect((await breaker.claimProbe("a1"))?.state).toBe("HALF_OPEN");
+    expect(await breaker.claimProbe("a1")).toBeNull(); // Another prober already has it
+
+    await breaker.recordSuccess("a1", "probe succeeded");
+    expect((await breaker.getBreaker("a1"))).toMatchObject({ state: "CLOSED", trips: 0 });
+    expect(await inPool("a1")).toBe(true);
+    expect(await breaker.getTrippedBreakers()).toEqual([]);
+
+    const history = await breaker.getHistory("a1");
+    expect(history.map((t) => `${t.from}>${t.to}`)).toEqual(["HALF_OPEN>CLOSED", "OPEN>HALF_OPEN", "CLOSED>OPEN"]);
+    expect(history[0].reason).toBe("probe succeeded");
+  });
+
+  it("should reopen for twice as long when the probe fails", async () => {
+    await breaker.recordFailure("a1", "401", { trip: true });
+    vi.useFakeTimers({ now: Date.now() + AGENT_BREAKER.BASE_OPEN_MS + 1, toFake: ["Date"] });
+    await breaker.claimProbe("a1");
+
+    const record = await breaker.recordFailure("a1", "401");
+    expect(record).toMatchObject({ state: "OPEN", trips: 2 });
+    expect(record.retryAt! - Date.now()).toBe(2 * AGENT_BREAKER.BASE_OPEN_MS);
+    expect(await inPool("a1")).toBe(false);
+  });
+
+  it("should not return a paused agent to the pool on recovery", async () => {
+    await db.set(KV_KEYS.user("a1"), { id: "a1", consultable: false, paused: true } as UserRecord);
+    await breaker.recordFailure("a1", "401", { trip: true });
+    await breaker.reset("a1", "owner logged in");
+
+    expect((await breaker.getBreaker("a1"))?.state).toBe("CLOSED");
+    expect(await inPool("a1")).toBe(false);
+  });
+
+  it("should keep a settings change that races a trip", async () => {
+    // Slow reads widen the window between each writer's read and its write
+    const slow: DbAdapter = {
+      ...db,
+      get: async (key) => {
+        const value = structuredClone(await db.get(key));
+        await new Promise((r) => setTimeout(r, 10));
+        return value as never;
+      },
+    };
+
+    await Promise.all([
+      createBreakerOps(slow).recordFailure("a1", "401", { trip: true }),
+      createUserOps(slow).updateAgentSettings("a1", { dailyAnswerCap: 3 }),
+    ]);
+
+    const user = await db.get<UserRecord>(KV_KEYS.user("a1"));
+    expect(user?.dailyAnswerCap).toBe(3);
+    expect(user?.circuitBreakerUntil).toBeGreaterThan(Date.now());
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createJsonAdapter } from "@/lib/db/json-adapter";
+import { createEventOps, EVENT_LOG_TTL_SECONDS, EVENT_GAP_WAIT_MS } from "@/lib/db/events";
+import { KV_KEYS } from "@/lib/db/types";
+import { resetTestDb } from "@/test/db";
+
+describe("Consultation Event Log", () => {
+  let adapter: ReturnType<typeof createJsonAdapter>;
+  let events: ReturnType<typeof createEventOps>;
+
+  beforeEach(() => {
+    resetTestDb();
+    adapter = createJsonAdapter();
+    events = createEventOps(adapter);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    resetTestDb();
+  });
+
+  it("should assign increasing ids per consultation", async () => {
+    expect(await events.appendEvent("c1", { type: "consultation:start" })).toBe(1);
+    expect(await events.appendEvent("c1", { type: "agent:query_start" })).toBe(2);
+    expect(await events.appendEvent("c2", { type: "consultation:start" })).toBe(1);
+    expect(await events.getLatestEventId("c1")).toBe(2);
+    expect(await events.getLatestEventId("missing")).toBe(0);
+  });
+
+  it("should return only events after the given id, oldest first", async () => {
+    for (const type of ["a", "b", "c", "d"]) {
+      await events.appendEvent("c1", { type });
+    }
+
+    expect((await events.getEventsAfter("c1", 0)).map((e) => e.event.type)).toEqual(["a", "b", "c", "d"]);
+    expect(await events.getEventsAfter("c1", 2)).toEqual([
+      { id: 3, event: { type: "c" } },
+      { id: 4, event: { type: "d" } },
+    ]);
+    expect(await events.getEventsAfter("c1", 4)).toEqual([]);
+  });
+
+  it("should hold back events behind an id whose entry has not landed yet", async () => {
+    await events.appendEvent("c1", { type: "a" });
+    // A second producer took id 2 but has not pushed it; id 3 lands first
+    await adapter.incr(KV_KEYS.consultationEventSeq("c1"));
+    await events.appendEvent("c1", { type: "c" });
+
+    expect((await events.getEventsAfter("c1", 0)).map((e) => e.id)).toEqual([1]);
+
+    await adapter.lpush(KV_KEYS.consultationEvents("c1"), JSON.stringify({ id: 2, at: Date.now(), event: { type: "b" } }));
+    expect((await events.getEventsAfter("c1", 1)).map((e) => e.event.type)).toEqual(["b", "c"]);
+  });
+
+  it("should step over an id that never lands once the gap has waited long enough", async () => {
+    await adapter.incr(KV_KEYS.consultationEventSeq("c1"));
+    await events.appendEvent("c1", { type: "b" });
+    expect(await events.getEventsAfter("c1", 0)).toEqual([]);
+
+    vi.spyOn(Date, "now").mockReturnValue(Date.now() + EVENT_GAP_WAIT_MS);
+    expect(await events.getEventsAfter("c1", 0)).toEqual([{ id: 2, event: { type: "b" } }]);
+  });
+
+  it("should expire the log and its counter", async () => {
+    await events.appendEvent("c1", { type: "a" });
+
+    const ttl = await adapter.ttl(KV_KEYS.consultationEvents("c1"));
+    expect(ttl).toBeGreaterThan(EVENT_LOG_TTL_SECONDS - 5);
+    expect(await adapter.ttl(KV_KEYS.consultationEventSeq("c1"))).toBeGreaterThan(0);
+  });
+});
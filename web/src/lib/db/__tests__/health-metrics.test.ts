@@ -1,6 +1,4 @@
-import { describe, it, expect, beforeEach, afterEach } from "vitest";
-import * as fs from "fs";
-import * as path from "path";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import {
   addHealthMetric,
   addHealthMetricsBatch,
@@ -12,30 +10,34 @@ import {
   getUserHealthMetricTypes,
   deleteUserHealthMetrics,
   checkHealthMetricsMigrationTriggers,
-  resetJSONCache,
+  flushHealthLatencySamples,
   getWeekId,
   type HealthMetricPoint,
   type WeeklySnapshot,
 } from "@/lib/db";
-
-const TEST_DB_FILE = path.join(process.cwd(), "data", "medcrowd.db.json");
+import { createHealthMetricsOps } from "@/lib/db/health-metrics";
+import { createJsonAdapter } from "@/lib/db/json-adapter";
+import { after } from "next/server";
+import { resetTestDb } from "@/test/db";
+
+vi.mock("next/server", async (importOriginal) => {
+  const actual = await importOriginal<typeof import("next/server")>();
+  return { ...actual, after: vi.fn(actual.after) };
+});
 
 describe("Health Metrics CRUD Tests", () => {
   const testUserId = "test-user-health-metrics";
 
-  beforeEach(() => {
+  beforeEach(async () => {
     process.env.KV_REST_API_URL = "";
     process.env.DB_MODE = "json";
-    resetJSONCache();
-    if (fs.existsSync(TEST_DB_FILE)) {
-      fs.unlinkSync(TEST_DB_FILE);
-    }
+    // Drop samples still buffered from the previous test before wiping its data
+    await flushHealthLatencySamples();
+    resetTestDb();
   });
 
   afterEach(() => {
-    if (fs.existsSync(TEST_DB_FILE)) {
-      fs.unlinkSync(TEST_DB_FILE);
-    }
+    resetTestDb();
   });
 
   function createMetricPoint(overrides: Partial<HealthMetricPoint> = {}): HealthMetricPoint {
@@ -315,17 +317,143 @@ describe("Health Metrics CRUD Tests", () => {
       types = await getUserHealthMetricTypes(testUserId);
       expect(types.length).toBe(0);
     });
+
+    it("should erase raw and weekly keys and return a receipt", async () => {
+      const weekStart = new Date("2024-01-15T00:00:00Z").getTime();
+      await addHealthMetric(testUserId, "weight", createMetricPoint({ timestamp: weekStart, value: 70 }));
+      await addHealthMetric(testUserId, "weight", createMetricPoint({ timestamp: weekStart + 86400000, value: 71 }));
+      await addHealthMetric(testUserId, "sleep", createMetricPoint({ timestamp: weekStart, value: 8, unit: "hours" }));
+      await aggregateHealthToWeekly(testUserId, "weight", "2024-W03");
+
+      const receipt = await deleteUserHealthMetrics(testUserId);
+
+      expect(receipt.userId).toBe(testUserId);
+      expect(receipt.rawKeysDeleted).toBe(3);
+      expect(receipt.weeklyKeysDeleted).toBe(1);
+      expect(receipt.indexDeleted).toBe(true);
+      expect(receipt.metricTypes).toEqual(expect.arrayContaining(["weight", "sleep"]));
+
+      const raw = await getHealthMetrics(testUserId, "weight", weekStart, weekStart + 7 * 86400000);
+      expect(raw).toEqual([]);
+      const weekly = await getWeeklyHealthSnapshots(testUserId, "weight", "2024-W03", "2024-W03");
+      expect(weekly).toEqual([]);
+    });
+
+    it("should not touch other users' data", async () => {
+      const timestamp = new Date("2024-01-15T12:00:00Z").getTime();
+      await addHealthMetric(testUserId, "weight", createMetricPoint({ timestamp, value: 70 }));
+      await addHealthMetric("other-user", "weight", createMetricPoint({ timestamp, value: 80 }));
+
+      await deleteUserHealthMetrics(testUserId);
+
+      const others = await getHealthMetrics("other-user", "weight", timestamp - 1000, timestamp + 1000);
+      expect(others.length).toBe(1);
+    });
   });
 
   describe("checkHealthMetricsMigrationTriggers", () => {
-    it("should return migration trigger status", async () => {
-      const result = await checkHealthMetricsMigrationTriggers();
+    function createLatencyOps() {
+      return createHealthMetricsOps(createJsonAdapter());
+    }
+
+    async function recordSamples(latencies: number[], operation = "getRawMetrics") {
+      const ops = createLatencyOps();
+      for (const latencyMs of latencies) {
+        await ops.recordLatency({
+          operation,
+          keyPattern: "health:*:raw:weight:*",
+          latencyMs,
+          timestamp: Date.now(),
+        });
+      }
+      await ops.flushLatency();
+    }
+
+    it("should report no reasons without recorded samples", async () => {
+      const result = await createLatencyOps().checkMigrationTriggers();
 
       expect(result.shouldMigrate).toBe(false);
-      expect(Array.isArray(result.reasons)).toBe(true);
+      expect(result.reasons).toEqual([]);
       expect(result.metrics.highLatencyOps).toBe(0);
       expect(result.metrics.totalOps).toBe(0);
     });
+
+    it("should record a sample for every tracked operation", async () => {
+      await addHealthMetric(testUserId, "weight", createMetricPoint());
+      await getHealthMetrics(testUserId, "weight", Date.now() - 60_000, Date.now());
+      await new Promise((r) => setTimeout(r, 0));
+
+      const result = await checkHealthMetricsMigrationTriggers();
+      const operations = result.metrics.percentiles.map((p) => p.operation).sort();
+
+      expect(operations).toEqual(["addRawMetric", "getRawMetrics"]);
+      expect(result.metrics.percentiles[0].keyPattern).toBe("health:*:raw:weight:*");
+      expect(result.metrics.totalOps).toBe(2);
+    });
+
+    it("should write buffered samples once the request ends, and straight through outside one", async () => {
+      const adapter = createJsonAdapter();
+      const lpush = vi.spyOn(adapter, "lpush");
+      const ops = createHealthMetricsOps(adapter);
+      const sample = { operation: "getRawMetrics", keyPattern: "health:*:raw:weight:*", latencyMs: 5 };
+      const requestEnd: Array<() => unknown> = [];
+      vi.mocked(after).mockImplementation((task) => {
+        requestEnd.push(task as () => unknown);
+      });
+
+      for (let i = 0; i < 3; i++) {
+        await ops.recordLatency({ ...sample, timestamp: Date.now() });
+      }
+      expect(lpush).not.toHaveBeenCalled();
+      expect(requestEnd).toHaveLength(1);
+
+      await requestEnd[0]();
+      expect(lpush).toHaveBeenCalledTimes(1);
+
+      // No request scope: the real `after` throws
+      vi.mocked(after).mockRestore();
+      await ops.recordLatency({ ...sample, timestamp: Date.now() });
+      expect(lpush).toHaveBeenCalledTimes(2);
+      expect((await ops.getLatencyPercentiles())[0].count).toBe(4);
+    });
+
+    it("should compute p50/p95/p99 per operation and key pattern", async () => {
+      await recordSamples(Array.from({ length: 100 }, (_, i) => i + 1));
+
+      const [stat] = await createLatencyOps().getLatencyPercentiles();
+
+      expect(stat).toMatchObject({ operation: "getRawMetrics", count: 100, p50: 50, p95: 95, p99: 99 });
+    });
+
+    it("should trigger migration when p95 exceeds the threshold", async () => {
+      await recordSamples([...Array(18).fill(500), 50, 50]);
+
+      const result = await createLatencyOps().checkMigrationTriggers();
+
+      expect(result.shouldMigrate).toBe(true);
+      expect(result.reasons).toHaveLength(1);
+      expect(result.reasons[0]).toContain("getRawMetrics");
+      expect(result.metrics.highLatencyOps).toBe(18);
+    });
+
+    it("should not trigger on too few slow samples", async () => {
+      await recordSamples([900, 900, 900]);
+
+      const result = await createLatencyOps().checkMigrationTriggers();
+
+      expect(result.shouldMigrate).toBe(false);
+      expect(result.metrics.highLatencyOps).toBe(3);
+    });
+
+    it("should ignore samples outside the rolling window", async () => {
+      await recordSamples(Array(20).fill(500));
+
+      const dayLater = Date.now() + 25 * 60 * 60 * 1000;
+      const result = await createLatencyOps().checkMigrationTriggers(dayLater);
+
+      expect(result.shouldMigrate).toBe(false);
+      expect(result.metrics.totalOps).toBe(0);
+    });
   });
 
   describe("Data Integrity", () => {
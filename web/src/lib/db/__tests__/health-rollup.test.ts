@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createJsonAdapter } from "@/lib/db/json-adapter";
+import { createHealthMetricsOps, getWeekId } from "@/lib/db/health-metrics";
+import { createHealthRollupOps } from "@/lib/db/health-rollup";
+import { createConsentOps } from "@/lib/consent/store";
+import { KV_KEYS, type DbAdapter, type HealthMetricsIndex, type WeeklySnapshot } from "@/lib/db/types";
+import { resetTestDb } from "@/test/db";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2025, 2, 12, 10); // Wednesday 2025-03-12
+const LAST_WEEK_MONDAY = Date.UTC(2025, 2, 3);
+const THIS_WEEK_MONDAY = Date.UTC(2025, 2, 10);
+
+describe("Weekly Health Rollup", () => {
+  const userId = "rollup-user";
+  let db: DbAdapter;
+  let metrics: ReturnType<typeof createHealthMetricsOps>;
+  let rollup: ReturnType<typeof createHealthRollupOps>;
+  let consent: ReturnType<typeof createConsentOps>;
+
+  beforeEach(async () => {
+    vi.spyOn(Date, "now").mockReturnValue(NOW);
+    resetTestDb();
+    db = createJsonAdapter();
+    metrics = createHealthMetricsOps(db);
+    rollup = createHealthRollupOps(db);
+    consent = createConsentOps(db);
+
+    // Last week (Thu-Sun, still within the raw TTL) and the current, unfinished week
+    const days = [LAST_WEEK_MONDAY + 3 * DAY_MS, LAST_WEEK_MONDAY + 6 * DAY_MS, THIS_WEEK_MONDAY + DAY_MS];
+    for (const [i, timestamp] of days.entries()) {
+      await metrics.addRawMetric(userId, "weight", {
+        timestamp: timestamp + 8 * 60 * 60 * 1000,
+        value: 70 + i,
+        unit: "kg",
+        source: "apple_health",
+        confidence: 0.9,
+      });
+    }
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    resetTestDb();
+  });
+
+  function snapshot(weekStart: number) {
+    return db.get<WeeklySnapshot>(KV_KEYS.health.weeklySnapshot(userId, "weight", getWeekId(weekStart)));
+  }
+
+  it("should snapshot completed weeks only", async () => {
+    const report = await rollup.runWeeklyRollup();
+
+    expect(report).toEqual({ usersProcessed: 1, snapshotsCreated: 1, skipped: false });
+    expect(await snapshot(LAST_WEEK_MONDAY)).toMatchObject({ count: 2, avg: 70.5, min: 70, max: 71 });
+    expect(await snapshot(THIS_WEEK_MONDAY)).toBeNull();
+  });
+
+  it("should advance rawRetentionCutoff to the end of the last completed week", async () => {
+    await rollup.runWeeklyRollup();
+
+    const index = await db.get<HealthMetricsIndex>(KV_KEYS.health.userMetricsIndex(userId));
+    expect(index?.rawRetentionCutoff).toBe(THIS_WEEK_MONDAY);
+    expect(index?.lastRollupAt).toBe(NOW);
+    expect(index?.metricTypes).toEqual(["weight"]);
+  });
+
+  it("should record a RETENTION_POLICY_APPLIED audit event", async () => {
+    await rollup.runWeeklyRollup();
+
+    const events = await consent.getAuditEvents(userId);
+    expect(events).toHaveLength(1);
+    expect(events[0].eventType).toBe("RETENTION_POLICY_APPLIED");
+    expect(events[0].details.metadata?.snapshots).toEqual([`weight:${getWeekId(LAST_WEEK_MONDAY)}`]);
+  });
+
+  it("should be idempotent across runs", async () => {
+    await rollup.runWeeklyRollup();
+    const first = await snapshot(LAST_WEEK_MONDAY);
+
+    const report = await rollup.runWeeklyRollup();
+
+    expect(report.snapshotsCreated).toBe(0);
+    expect(await snapshot(LAST_WEEK_MONDAY)).toEqual(first);
+    expect(await consent.getAuditEvents(userId)).toHaveLength(1);
+  });
+
+  it("should not overwrite an existing snapshot with partial raw data", async () => {
+    await rollup.runWeeklyRollup();
+    // Last week's Thursday expires before the next daily run
+    await db.del(KV_KEYS.health.rawMetric(userId, "weight", "2025-03-06"));
+
+    await rollup.runWeeklyRollup();
+
+    expect(await snapshot(LAST_WEEK_MONDAY)).toMatchObject({ count: 2 });
+  });
+
+  it("should skip the run while another holds the lock", async () => {
+    await db.set("lock:health-rollup", "1", { nx: true, ex: 600 });
+
+    expect(await rollup.runWeeklyRollup()).toEqual({ usersProcessed: 0, snapshotsCreated: 0, skipped: true });
+  });
+
+  it("should forget users whose health data was deleted", async () => {
+    await metrics.deleteAllUserMetrics(userId);
+
+    expect(await db.smembers(KV_KEYS.health.usersWithMetrics())).toEqual([]);
+    expect((await rollup.runWeeklyRollup()).usersProcessed).toBe(0);
+  });
+});
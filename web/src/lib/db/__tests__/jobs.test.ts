@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createJsonAdapter } from "@/lib/db/json-adapter";
+import { createJobOps } from "@/lib/db/jobs";
+import { JOB_QUEUE } from "@/lib/db/types";
+import { resetTestDb } from "@/test/db";
+
+describe("Consultation Job Queue", () => {
+  let jobs: ReturnType<typeof createJobOps>;
+
+  function advance(ms: number) {
+    const now = Date.now();
+    vi.spyOn(Date, "now").mockReturnValue(now + ms);
+  }
+
+  beforeEach(() => {
+    resetTestDb();
+    jobs = createJobOps(createJsonAdapter());
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    resetTestDb();
+  });
+
+  it("should enqueue a job as QUEUED and active", async () => {
+    await jobs.enqueueJob("c1", "asker", "问题");
+
+    const job = await jobs.getJob("c1");
+    expect(job).toMatchObject({ state: "QUEUED", attempts: 0, askerId: "asker" });
+    expect((await jobs.getActiveJobs()).map((j) => j.consultationId)).toEqual(["c1"]);
+  });
+
+  it("should let only one worker claim a job", async () => {
+    await jobs.enqueueJob("c1", "asker", "问题");
+
+    const [a, b] = await Promise.all([jobs.claimJob("w1", "c1"), jobs.claimJob("w2", "c1")]);
+
+    expect([a, b].filter(Boolean)).toHaveLength(1);
+    const job = await jobs.getJob("c1");
+    expect(job).toMatchObject({ state: "RUNNING", attempts: 1 });
+    expect(job?.leaseExpiresAt).toBeGreaterThan(Date.now());
+  });
+
+  it("should claim the oldest job when no id is given", async () => {
+    await jobs.enqueueJob("c1", "asker", "问题一");
+    advance(1000);
+    await jobs.enqueueJob("c2", "asker", "问题二");
+
+    expect((await jobs.claimJob("w1"))?.consultationId).toBe("c1");
+    expect((await jobs.claimJob("w1"))?.consultationId).toBe("c2");
+    expect(await jobs.claimJob("w1")).toBeNull();
+  });
+
+  it("should let another worker resume a job once its lease lapses", async () => {
+    await jobs.enqueueJob("c1", "asker", "问题");
+    await jobs.claimJob("w1", "c1");
+
+    advance((JOB_QUEUE.LEASE_SECONDS + 1) * 1000);
+    const resumed = await jobs.claimJob("w2", "c1");
+
+    expect(resumed).toMatchObject({ state: "RUNNING", attempts: 2, leaseOwner: "w2" });
+    expect(await jobs.renewJobLease("c1", "w1")).toBe(false);
+  });
+
+  it("should keep the lease while the worker renews it", async () => {
+    await jobs.enqueueJob("c1", "asker", "问题");
+    await jobs.claimJob("w1", "c1");
+
+    const start = Date.now();
+    vi.spyOn(Date, "now").mockReturnValue(start + (JOB_QUEUE.LEASE_SECONDS - 10) * 1000);
+    expect(await jobs.renewJobLease("c1", "w1")).toBe(true);
+
+    // Past the original lease, still inside the renewed one
+    vi.spyOn(Date, "now").mockReturnValue(start + (JOB_QUEUE.LEASE_SECONDS + 30) * 1000);
+    expect(await jobs.claimJob("w2", "c1")).toBeNull();
+  });
+
+  it("should stop handing out a job after its last attempt", async () => {
+    await jobs.enqueueJob("c1", "asker", "问题");
+    for (let i = 0; i < JOB_QUEUE.MAX_ATTEMPTS; i++) {
+      await jobs.claimJob("w1", "c1");
+      await jobs.requeueJob("c1", "boom");
+    }
+
+    expect(await jobs.claimJob("w2", "c1")).toBeNull();
+    expect(await jobs.getJob("c1")).toMatchObject({ state: "QUEUED", lastError: "boom" });
+  });
+
+  it("should drop finished jobs from the active set", async () => {
+    await jobs.enqueueJob("c1", "asker", "问题");
+    await jobs.enqueueJob("c2", "asker", "问题");
+    await jobs.claimJob("w1", "c1");
+
+    await jobs.completeJob("c1");
+    await jobs.failJob("c2", "boom");
+
+    expect(await jobs.getActiveJobs()).toEqual([]);
+    expect(await jobs.getJob("c1")).toMatchObject({ state: "DONE" });
+    expect(await jobs.getJob("c2")).toMatchObject({ state: "FAILED", lastError: "boom" });
+  });
+});
@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as os from "os";
+import * as path from "path";
+import { createJsonAdapter } from "@/lib/db/json-adapter";
+import { createSqliteAdapter, resetSqliteDb } from "@/lib/db/sqlite-adapter";
+import { migrateStorage, KEY_FAMILIES } from "@/lib/db/migrate";
+import { KV_KEYS } from "@/lib/db/types";
+import type { DbAdapter } from "@/lib/db/types";
+import { resetTestDb } from "@/test/db";
+
+const TEST_SQLITE_FILE = path.join(os.tmpdir(), `medcrowd-migrate-${process.pid}.db`);
+
+function reset() {
+  resetTestDb();
+  resetSqliteDb(TEST_SQLITE_FILE);
+}
+
+async function seed(db: DbAdapter) {
+  await db.set(KV_KEYS.user("u1"), { id: "u1", name: "Alice" });
+  await db.set(KV_KEYS.userBySecondme("sm1"), "u1");
+  await db.sadd(KV_KEYS.consultableUsers(), "u1");
+  await db.set(KV_KEYS.consultation("c1"), { id: "c1", askerId: "u1" });
+  await db.set(KV_KEYS.idempotent("c1", 1, "u2"), "1", { ex: 600 });
+  for (const id of ["c1", "c2", "c3"]) {
+    await db.lpush(KV_KEYS.userConsultations("u1"), id);
+  }
+  await db.set(KV_KEYS.health.rawMetric("u1", "weight", "2024-01-15"), [{ value: 70 }], { ex: 3600 });
+  await db.set(KV_KEYS.health.userMetricsIndex("u1"), { userId: "u1" });
+  await db.set(KV_KEYS.consent.record("u1"), { status: "GRANTED" });
+  await db.lpush(KV_KEYS.consent.auditEvents("u1"), JSON.stringify({ type: "GRANTED" }));
+}
+
+describe("Storage Migration", () => {
+  let json: DbAdapter;
+  let sqlite: DbAdapter;
+
+  beforeEach(() => {
+    reset();
+    json = createJsonAdapter();
+    sqlite = createSqliteAdapter(TEST_SQLITE_FILE);
+  });
+
+  afterEach(() => {
+    reset();
+  });
+
+  it("should copy every family and report per-family counts", async () => {
+    await seed(json);
+
+    const report = await migrateStorage(json, sqlite);
+
+    expect(report.dryRun).toBe(false);
+    expect(report.totalKeys).toBe(10);
+    expect(report.families.user).toEqual({ keys: 1, withTtl: 0 });
+    expect(report.families.userBySecondme).toEqual({ keys: 1, withTtl: 0 });
+    expect(report.families.consultation).toEqual({ keys: 1, withTtl: 0 });
+    expect(report.families.idempotent).toEqual({ keys: 1, withTtl: 1 });
+    expect(report.families["health.rawMetric"]).toEqual({ keys: 1, withTtl: 1 });
+    expect(report.families["consent.record"]).toEqual({ keys: 1, withTtl: 0 });
+
+    expect(await sqlite.get(KV_KEYS.user("u1"))).toEqual({ id: "u1", name: "Alice" });
+    expect(await sqlite.smembers(KV_KEYS.consultableUsers())).toEqual(["u1"]);
+    expect(await sqlite.get(KV_KEYS.consent.record("u1"))).toEqual({ status: "GRANTED" });
+  });
+
+  it("should preserve list order and TTLs", async () => {
+    await seed(json);
+
+    await migrateStorage(json, sqlite);
+
+    expect(await sqlite.lrange(KV_KEYS.userConsultations("u1"), 0, -1)).toEqual(["c3", "c2", "c1"]);
+    const ttl = await sqlite.ttl(KV_KEYS.health.rawMetric("u1", "weight", "2024-01-15"));
+    expect(ttl).toBeGreaterThan(3590);
+    expect(ttl).toBeLessThanOrEqual(3600);
+    expect(await sqlite.ttl(KV_KEYS.user("u1"))).toBeNull();
+  });
+
+  it("should not write anything in dry-run mode", async () => {
+    await seed(json);
+
+    const report = await migrateStorage(json, sqlite, { dryRun: true });
+
+    expect(report.dryRun).toBe(true);
+    expect(report.totalKeys).toBe(10);
+    expect(await sqlite.scan("")).toEqual([]);
+  });
+
+  it("should be safe to re-run without duplicating list entries", async () => {
+    await seed(sqlite);
+
+    await migrateStorage(sqlite, json);
+    await migrateStorage(sqlite, json);
+
+    expect(await json.llen(KV_KEYS.userConsultations("u1"))).toBe(3);
+    expect(await json.llen(KV_KEYS.consent.auditEvents("u1"))).toBe(1);
+  });
+
+  it("should limit the copy to the requested families", async () => {
+    await seed(json);
+
+    const report = await migrateStorage(json, sqlite, { families: ["user"] });
+
+    expect(Object.keys(report.families)).toEqual(["user"]);
+    expect(await sqlite.scan("")).toEqual([KV_KEYS.user("u1")]);
+  });
+
+  it("should reject unknown family names", async () => {
+    await expect(migrateStorage(json, sqlite, { families: ["nope"] })).rejects.toThrow("nope");
+  });
+
+  it("should assign every KV_KEYS builder to exactly one family", () => {
+    const keys: string[] = [];
+    const collect = (builders: object) => {
+      for (const [name, builder] of Object.entries(builders)) {
+        if (typeof builder === "function") {
+          // Prefix helpers build scan prefixes, not stored keys
+          if (name.endsWith("Prefix")) continue;
+          keys.push(builder(...Array.from({ length: builder.length }, (_, i) => `arg${i}`)));
+        } else {
+          collect(builder);
+        }
+      }
+    };
+    collect(KV_KEYS);
+
+    expect(keys.length).toBeGreaterThan(30);
+    for (const key of keys) {
+      const owners = KEY_FAMILIES.filter((f) => key.startsWith(f.prefix) && (!f.match || f.match.test(key)));
+      expect({ key, owners: owners.map((f) => f.name) }).toEqual({ key, owners: [expect.any(String)] });
+    }
+  });
+
+  it("should copy the consultation event log and its sequence", async () => {
+    await json.lpush(KV_KEYS.consultationEvents("c1"), JSON.stringify({ id: 1 }));
+    await json.set(KV_KEYS.consultationEventSeq("c1"), 1);
+
+    const report = await migrateStorage(json, sqlite, { families: ["consultationEvents", "consultationEventSeq"] });
+
+    expect(report.totalKeys).toBe(2);
+    expect(await sqlite.lrange(KV_KEYS.consultationEvents("c1"), 0, -1)).toHaveLength(1);
+    expect(await sqlite.get(KV_KEYS.consultationEventSeq("c1"))).toBe(1);
+  });
+});
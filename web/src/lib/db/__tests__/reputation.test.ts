@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { createJsonAdapter } from "@/lib/db/json-adapter";
+import { createReputationOps } from "@/lib/db/reputation";
+import type { AgentResponseRecord } from "@/lib/db/types";
+import { scoreReputation, rankingReputation } from "@/lib/reputation";
+import { resetTestDb } from "@/test/db";
+
+function response(responderId: string, patch: Partial<AgentResponseRecord> = {}): AgentResponseRecord {
+  return {
+    id: `r-${Math.random()}`,
+    consultationId: "c1",
+    responderId,
+    sessionId: "s",
+    rawResponse: "建议规律作息，必要时就医。",
+    keyPoints: [],
+    isValid: true,
+    latencyMs: 1000,
+    createdAt: Date.now(),
+    round: "initial",
+    ...patch,
+  };
+}
+
+describe("Agent Reputation", () => {
+  let reputation: ReturnType<typeof createReputationOps>;
+
+  beforeEach(() => {
+    resetTestDb();
+    reputation = createReputationOps(createJsonAdapter());
+  });
+
+  afterEach(() => {
+    resetTestDb();
+  });
+
+  it("should classify answer outcomes", async () => {
+    await reputation.recordOutcomes([
+      response("a1", { latencyMs: 800 }),
+      response("a1", { isValid: false, rawResponse: "", invalidReason: "Agent timeout or error" }),
+      response("a1", { isValid: false, invalidReason: "与其他回复重复", latencyMs: 1200 }),
+      response("a1", { isValid: false, invalidReason: "回复内容过短" }),
+      response("a2"),
+    ]);
+
+    const stats = await reputation.getStats("a1");
+    expect(stats).toMatchObject({ answered: 4, valid: 1, timeouts: 1, duplicates: 1, rejected: 1 });
+    expect(stats?.recentLatencies).toEqual([800, 1200, 1000]); // Timeouts carry no latency
+
+    const many = await reputation.getStatsMany(["a1", "a2", "missing"]);
+    expect([...many.keys()]).toEqual(["a1", "a2"]);
+  });
+
+  it("should count a consultation vote once per consultation", async () => {
+    expect(await reputation.recordVote("c1", ["a1", "a2", "a1"], "helpful")).toBe(true);
+    expect(await reputation.recordVote("c1", ["a1"], "not_helpful")).toBe(false);
+    await reputation.recordVote("c2", ["a1"], "not_helpful");
+
+    expect(await reputation.getStats("a1")).toMatchObject({ helpful: 1, notHelpful: 1 });
+    expect(await reputation.getStats("a2")).toMatchObject({ helpful: 1, notHelpful: 0 });
+  });
+
+  it("should score reliable agents above unreliable ones and favour new agents in ranking", async () => {
+    await reputation.recordOutcomes(Array.from({ length: 10 }, () => response("good")));
+    await reputation.recordOutcomes(
+      Array.from({ length: 10 }, () => response("bad", { isValid: false, rawResponse: "" }))
+    );
+
+    const good = scoreReputation(await reputation.getStats("good"));
+    const bad = scoreReputation(await reputation.getStats("bad"));
+    expect(good.score).toBeGreaterThan(bad.score);
+    expect(good).toMatchObject({ validRate: 1, timeoutRate: 0, isNew: false });
+    expect(bad.timeoutRate).toBe(1);
+
+    const fresh = scoreReputation(null);
+    expect(fresh).toMatchObject({ samples: 0, isNew: true, validRate: null });
+    expect(rankingReputation(null)).toBeGreaterThan(rankingReputation(await reputation.getStats("bad")));
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { createJsonAdapter } from "@/lib/db/json-adapter";
+import { createResponseOps } from "@/lib/db/responses";
+import {
+  KV_KEYS,
+  followupRound,
+  deliberationRound,
+  type AgentResponseRecord,
+  type DbAdapter,
+} from "@/lib/db/types";
+import { resetTestDb } from "@/test/db";
+
+function createResponse(id: string, responderId: string, overrides: Partial<AgentResponseRecord> = {}) {
+  return {
+    id,
+    consultationId: "c1",
+    responderId,
+    sessionId: `session-${id}`,
+    rawResponse: `Response ${id}`,
+    keyPoints: [],
+    isValid: true,
+    latencyMs: 1000,
+    createdAt: Date.now(),
+    ...overrides,
+  } as AgentResponseRecord;
+}
+
+describe("Append-only Response Storage", () => {
+  let db: DbAdapter;
+  let ops: ReturnType<typeof createResponseOps>;
+
+  beforeEach(() => {
+    resetTestDb();
+    db = createJsonAdapter();
+    ops = createResponseOps(db);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    resetTestDb();
+  });
+
+  it("should keep every response from concurrent writers", async () => {
+    await Promise.all([
+      ops.addAgentResponse(createResponse("r1", "agent-1")),
+      ops.addAgentResponsesBatch([{ response: createResponse("r2", "agent-2") }]),
+      ops.addAgentResponsesBatch([{ response: createResponse("r3", "agent-1"), round: 1 }]),
+    ]);
+
+    const stored = await ops.getAgentResponses("c1");
+    expect(stored.map((r) => r.id).sort()).toEqual(["r1", "r2", "r3"]);
+    expect(stored.find((r) => r.id === "r3")?.round).toBe("reaction");
+  });
+
+  it("should store a racing duplicate only once", async () => {
+    await Promise.all([
+      ops.addAgentResponse(createResponse("r1", "agent-1")),
+      ops.addAgentResponse(createResponse("r1-retry", "agent-1")),
+    ]);
+
+    const stored = await ops.getAgentResponses("c1");
+    expect(stored.map((r) => r.id)).toEqual(["r1"]);
+  });
+
+  it("should return responses in insertion order", async () => {
+    for (const [id, agent] of [["r1", "a1"], ["r2", "a2"], ["r3", "a3"]]) {
+      await ops.addAgentResponse(createResponse(id, agent));
+    }
+
+    expect((await ops.getAgentResponses("c1")).map((r) => r.id)).toEqual(["r1", "r2", "r3"]);
+  });
+
+  it("should not duplicate a response after the idempotency key expires", async () => {
+    await ops.addAgentResponse(createResponse("r1", "agent-1"));
+
+    const now = Date.now();
+    vi.spyOn(Date, "now").mockReturnValue(now + 601_000);
+    await ops.addAgentResponse(createResponse("r1-late", "agent-1"));
+
+    expect((await ops.getAgentResponses("c1")).map((r) => r.id)).toEqual(["r1"]);
+  });
+
+  it("should release the idempotency key when the append fails", async () => {
+    vi.spyOn(db, "lpush").mockRejectedValueOnce(new Error("write failed"));
+
+    const [failed] = await ops.addAgentResponsesBatch([{ response: createResponse("r1", "agent-1") }]);
+    expect(failed.success).toBe(false);
+
+    await ops.addAgentResponse(createResponse("r1", "agent-1"));
+    expect((await ops.getAgentResponses("c1")).map((r) => r.id)).toEqual(["r1"]);
+  });
+
+  it("should list an agent's own answers newest first across consultations", async () => {
+    await ops.addAgentResponse(createResponse("r1", "agent-1"));
+    await ops.addAgentResponse(createResponse("r2", "agent-2"));
+    await ops.addAgentResponse(createResponse("r3", "agent-1", { consultationId: "c2" }));
+    await ops.addDirectedResponse(createResponse("r4", "agent-1"));
+
+    const answers = await ops.getResponderAnswers("agent-1", 10);
+    expect(answers.map((r) => r.id)).toEqual(["r4", "r3", "r1"]);
+    expect((await ops.getResponderAnswers("agent-1", 2)).map((r) => r.id)).toEqual(["r4", "r3"]);
+  });
+
+  it("should let only the answering agent retract an answer", async () => {
+    await ops.addAgentResponse(createResponse("r1", "agent-1"));
+    await ops.addAgentResponse(createResponse("r2", "agent-2"));
+
+    expect(await ops.retractResponse("agent-2", "c1", "r1")).toBe(false);
+    expect(await ops.retractResponse("agent-1", "c1", "r1")).toBe(true);
+
+    const stored = await ops.getAgentResponses("c1");
+    expect(stored.find((r) => r.id === "r1")?.retracted).toBe(true);
+    expect(stored.find((r) => r.id === "r2")?.retracted).toBeUndefined();
+    expect((await ops.getResponderAnswers("agent-1", 10))[0].retracted).toBe(true);
+  });
+
+  it("should store the writer's round label and index, keying idempotency on the number", async () => {
+    await ops.addAgentResponsesBatch([
+      { response: createResponse("f2", "agent-1", { round: "followup", roundIndex: 2 }), round: followupRound(2) },
+      { response: createResponse("d2", "agent-1", { round: "reaction", roundIndex: 2 }), round: deliberationRound(2) },
+      { response: createResponse("d2-retry", "agent-1", { round: "reaction", roundIndex: 2 }), round: deliberationRound(2) },
+    ]);
+
+    const stored = await ops.getAgentResponses("c1");
+    expect(stored.map((r) => [r.id, r.round, r.roundIndex])).toEqual([
+      ["f2", "followup", 2],
+      ["d2", "reaction", 2],
+    ]);
+  });
+
+  it("should read the round index of responses stored with the old per-kind fields", async () => {
+    const log = KV_KEYS.responseLog("c1");
+    await db.lpush(log, JSON.stringify({ ...createResponse("f1", "agent-1", { round: "followup" }), followupIndex: 1 }));
+    await db.lpush(log, JSON.stringify({ ...createResponse("d3", "agent-1", { round: "reaction" }), deliberationRound: 3 }));
+
+    const stored = await ops.getAgentResponses("c1");
+    expect(stored.map((r) => r.roundIndex)).toEqual([1, 3]);
+    expect(stored[0]).not.toHaveProperty("followupIndex");
+  });
+
+  describe("legacy array records", () => {
+    it("should upgrade an array-shaped record on read", async () => {
+      await db.set(KV_KEYS.responses("c1"), [
+        createResponse("old-1", "agent-1", { round: "initial" }),
+        createResponse("old-2", "agent-2", { round: "initial" }),
+      ]);
+
+      const stored = await ops.getAgentResponses("c1");
+
+      expect(stored.map((r) => r.id)).toEqual(["old-1", "old-2"]);
+      expect(await db.get(KV_KEYS.responses("c1"))).toBeNull();
+      expect(await db.llen(KV_KEYS.responseLog("c1"))).toBe(2);
+    });
+
+    it("should upgrade before appending so legacy responses keep their place", async () => {
+      await db.set(KV_KEYS.responses("c1"), [createResponse("old-1", "agent-1", { round: "initial" })]);
+
+      await ops.addAgentResponse(createResponse("new-1", "agent-2"));
+      await ops.addAgentResponse(createResponse("dup", "agent-1"));
+
+      expect((await ops.getAgentResponses("c1")).map((r) => r.id)).toEqual(["old-1", "new-1"]);
+    });
+
+    it("should merge both shapes while another writer holds the upgrade lock", async () => {
+      await db.set(KV_KEYS.responses("c1"), [createResponse("old-1", "agent-1", { round: "initial" })]);
+      await db.lpush(KV_KEYS.responseLog("c1"), JSON.stringify(createResponse("old-1", "agent-1")));
+      await db.set(`lock:${KV_KEYS.responses("c1")}`, "1", { ex: 30 });
+
+      expect((await ops.getAgentResponses("c1")).map((r) => r.id)).toEqual(["old-1"]);
+    });
+  });
+});
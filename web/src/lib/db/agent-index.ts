@@ -0,0 +1,117 @@
+// Agent relevance index - inverted index over agent tags and bios
+//
+// Each term maps to a set of "agentId|tf|docLength" postings, so a query costs one
+// smembers per question term instead of loading every agent. Each agent's doc record
+// remembers what it posted so re-indexing can take the old postings back out.
+// Indexing an agent holds a lock on its doc record, so its postings and its share
+// of the doc-count and total-length stats change together.
+
+import type { DbAdapter, UserRecord } from "./types";
+import { KV_KEYS } from "./types";
+import { withRecordLock } from "./record-lock";
+import { tokenize, agentTermFrequencies, bm25 } from "../relevance";
+
+interface IndexedAgentDoc {
+  terms: Record<string, number>;
+  length: number;
+}
+
+export interface AgentMatch {
+  agentId: string;
+  score: number;
+}
+
+// Long enough for a backfill of the whole pool
+const BACKFILL_LOCK_SECONDS = 120;
+
+function posting(agentId: string, termFrequency: number, docLength: number): string {
+  return `${agentId}|${termFrequency}|${docLength}`;
+}
+
+export function createAgentIndexOps(db: DbAdapter) {
+  const keys = KV_KEYS.agentIndex;
+
+  /** Take an agent's postings out; the caller holds its doc lock */
+  async function unindex(agentId: string): Promise<void> {
+    const doc = await db.get<IndexedAgentDoc>(keys.doc(agentId));
+    if (!doc) return;
+    await Promise.all(
+      Object.entries(doc.terms).map(([term, tf]) => db.srem(keys.term(term), posting(agentId, tf, doc.length)))
+    );
+    await db.del(keys.doc(agentId));
+    await db.incr(keys.docCount(), -1);
+    await db.incr(keys.totalLength(), -doc.length);
+  }
+
+  async function removeAgent(agentId: string): Promise<void> {
+    await withRecordLock(db, keys.doc(agentId), () => unindex(agentId));
+  }
+
+  /** (Re)index an agent's tags and bio; safe to call on every profile change */
+  async function indexAgent(agent: Pick<UserRecord, "id" | "tags" | "bio">): Promise<void> {
+    await withRecordLock(db, keys.doc(agent.id), async () => {
+      await unindex(agent.id);
+      const terms = agentTermFrequencies(agent);
+      const length = Object.values(terms).reduce((a, b) => a + b, 0);
+      await Promise.all(
+        Object.entries(terms).map(([term, tf]) => db.sadd(keys.term(term), posting(agent.id, tf, length)))
+      );
+      await db.set(keys.doc(agent.id), { terms, length } satisfies IndexedAgentDoc);
+      await db.incr(keys.docCount(), 1);
+      await db.incr(keys.totalLength(), length);
+    });
+  }
+
+  /** Whether agents that existed before the index have been backfilled */
+  async function isBuilt(): Promise<boolean> {
+    return (await db.get(keys.built())) !== null;
+  }
+
+  return {
+    removeAgent,
+    indexAgent,
+
+    /**
+     * Index agents that existed before the index, once. Only the caller that takes
+     * the backfill lock runs it; the rest search the partial index meanwhile.
+     */
+    async backfill(loadAgents: () => Promise<Array<Pick<UserRecord, "id" | "tags" | "bio">>>): Promise<void> {
+      if (await isBuilt()) return;
+      const lockKey = `lock:${keys.built()}`;
+      if (!(await db.set(lockKey, "1", { ex: BACKFILL_LOCK_SECONDS, nx: true }))) return;
+      try {
+        // Another instance may have finished between the check and the lock
+        if (await isBuilt()) return;
+        for (const agent of await loadAgents()) await indexAgent(agent);
+        await db.set(keys.built(), Date.now());
+      } finally {
+        await db.del(lockKey);
+      }
+    },
+
+    /** Best-scoring agents for the query, highest first; agents sharing no term are absent */
+    async search(query: string, limit: number): Promise<AgentMatch[]> {
+      const terms = [...new Set(tokenize(query))];
+      if (terms.length === 0) return [];
+
+      const [docCount, totalLength] = await db.mget<number>([keys.docCount(), keys.totalLength()]);
+      if (!docCount) return [];
+      const avgDocLength = (totalLength ?? 0) / docCount;
+
+      const postings = await Promise.all(terms.map((term) => db.smembers(keys.term(term))));
+      const scores = new Map<string, number>();
+      for (const members of postings) {
+        for (const member of members) {
+          const [agentId, tf, docLength] = member.split("|");
+          const score = bm25(Number(tf), Number(docLength), avgDocLength, members.length, docCount);
+          scores.set(agentId, (scores.get(agentId) ?? 0) + score);
+        }
+      }
+
+      return [...scores]
+        .map(([agentId, score]) => ({ agentId, score }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+    },
+  };
+}
@@ -0,0 +1,171 @@
+// Per-agent circuit breaker
+//
+// CLOSED counts consecutive failures; enough of them (or one fatal failure such as
+// a rejected token) opens the breaker and takes the agent out of `consultable-users`.
+// Once `retryAt` passes, a prober claims the agent (HALF_OPEN) and sends one cheap
+// request: success closes the breaker and returns the agent to the pool, failure
+// reopens it for twice as long.
+
+import type { DbAdapter } from "./types";
+import { withRecordLock } from "./record-lock";
+import {
+  KV_KEYS,
+  AGENT_BREAKER,
+  type AgentBreakerRecord,
+  type BreakerState,
+  type BreakerTransition,
+  type UserRecord,
+} from "./types";
+
+function probeLockKey(agentId: string): string {
+  return `lock:${KV_KEYS.breaker(agentId)}:probe`;
+}
+
+function openDuration(trips: number): number {
+  return Math.min(AGENT_BREAKER.BASE_OPEN_MS * 2 ** (trips - 1), AGENT_BREAKER.MAX_OPEN_MS);
+}
+
+function closedRecord(agentId: string): AgentBreakerRecord {
+  return { agentId, state: "CLOSED", failures: 0, trips: 0, updatedAt: Date.now() };
+}
+
+export function createBreakerOps(db: DbAdapter) {
+  async function getBreaker(agentId: string): Promise<AgentBreakerRecord | null> {
+    return db.get<AgentBreakerRecord>(KV_KEYS.breaker(agentId));
+  }
+
+  async function save(record: AgentBreakerRecord): Promise<AgentBreakerRecord> {
+    const updated = { ...record, updatedAt: Date.now() };
+    await db.set(KV_KEYS.breaker(record.agentId), updated);
+    return updated;
+  }
+
+  /**
+   * Mirror the breaker on the user record and in the consultable pool. Only
+   * `circuitBreakerUntil` is written, on a copy re-read under the user record lock,
+   * so a token refresh or settings change in between is kept.
+   */
+  async function applyToPool(agentId: string, state: BreakerState, retryAt?: number): Promise<void> {
+    if (state === "HALF_OPEN") return;
+    await withRecordLock(db, KV_KEYS.user(agentId), async () => {
+      const user = await db.get<UserRecord>(KV_KEYS.user(agentId));
+      if (state === "OPEN") {
+        await db.srem(KV_KEYS.consultableUsers(), agentId);
+        await db.sadd(KV_KEYS.trippedAgents(), agentId);
+        if (user) await db.set(KV_KEYS.user(agentId), { ...user, circuitBreakerUntil: retryAt });
+      } else {
+        await db.srem(KV_KEYS.trippedAgents(), agentId);
+        if (!user) return;
+        await db.set(KV_KEYS.user(agentId), { ...user, circuitBreakerUntil: undefined });
+        // An owner's pause outlives any recovery
+        if (!user.paused) await db.sadd(KV_KEYS.consultableUsers(), agentId);
+      }
+    });
+  }
+
+  async function transition(
+    record: AgentBreakerRecord,
+    to: BreakerState,
+    reason: string,
+    patch: Partial<AgentBreakerRecord> = {}
+  ): Promise<AgentBreakerRecord> {
+    const updated = await save({ ...record, ...patch, state: to });
+    const entry: BreakerTransition = { from: record.state, to, reason, at: updated.updatedAt };
+    await db.lpush(KV_KEYS.breakerHistory(record.agentId), JSON.stringify(entry));
+    await db.ltrim(KV_KEYS.breakerHistory(record.agentId), 0, AGENT_BREAKER.HISTORY_LENGTH - 1);
+    await applyToPool(record.agentId, to, updated.retryAt);
+    return updated;
+  }
+
+  async function open(record: AgentBreakerRecord, reason: string): Promise<AgentBreakerRecord> {
+    const trips = record.trips + 1;
+    await db.del(probeLockKey(record.agentId));
+    return transition(record, "OPEN", reason, {
+      trips,
+      failures: 0,
+      lastError: reason,
+      retryAt: Date.now() + openDuration(trips),
+    });
+  }
+
+  async function close(record: AgentBreakerRecord, reason: string): Promise<AgentBreakerRecord> {
+    await db.del(probeLockKey(record.agentId));
+    return transition(record, "CLOSED", reason, { trips: 0, failures: 0, retryAt: undefined });
+  }
+
+  return {
+    getBreaker,
+
+    /**
+     * Count a failed request. `trip` opens the breaker at once (the agent cannot
+     * work until something changes, e.g. its token was rejected).
+     */
+    async recordFailure(agentId: string, error: string, options: { trip?: boolean } = {}): Promise<AgentBreakerRecord> {
+      const record = (await getBreaker(agentId)) ?? closedRecord(agentId);
+      if (record.state === "OPEN") return record;
+      if (record.state === "HALF_OPEN") return open(record, `probe failed: ${error}`);
+
+      const failures = record.failures + 1;
+      if (options.trip || failures >= AGENT_BREAKER.FAILURE_THRESHOLD) {
+        return open({ ...record, failures }, error);
+      }
+      return save({ ...record, failures, lastError: error });
+    },
+
+    /** Count a successful request; closes the breaker if it was not already */
+    async recordSuccess(agentId: string, reason: string = "request succeeded"): Promise<void> {
+      const record = await getBreaker(agentId);
+      if (!record || (record.state === "CLOSED" && record.failures === 0)) return;
+      if (record.state === "CLOSED") {
+        await save({ ...record, failures: 0 });
+        return;
+      }
+      await close(record, reason);
+    },
+
+    /** Close the breaker unconditionally, e.g. after the owner logs in with fresh tokens */
+    async reset(agentId: string, reason: string): Promise<void> {
+      const record = await getBreaker(agentId);
+      if (record && record.state !== "CLOSED") await close(record, reason);
+    },
+
+    /** Agents whose breaker is OPEN past `retryAt`, or HALF_OPEN with an abandoned probe */
+    async getDueProbes(): Promise<string[]> {
+      const agentIds = await db.smembers(KV_KEYS.trippedAgents());
+      if (agentIds.length === 0) return [];
+      const now = Date.now();
+      const staleProbe = now - AGENT_BREAKER.PROBE_TIMEOUT_SECONDS * 1000;
+      const records = await db.mget<AgentBreakerRecord>(agentIds.map((id) => KV_KEYS.breaker(id)));
+      return records
+        .filter((r): r is AgentBreakerRecord => !!r)
+        .filter((r) =>
+          r.state === "OPEN" ? (r.retryAt ?? 0) <= now : r.state === "HALF_OPEN" && r.updatedAt <= staleProbe
+        )
+        .map((r) => r.agentId);
+    },
+
+    /** Move a due breaker to HALF_OPEN; only one prober wins. Returns null if not claimed */
+    async claimProbe(agentId: string): Promise<AgentBreakerRecord | null> {
+      const record = await getBreaker(agentId);
+      if (!record || record.state === "CLOSED") return null;
+      if (record.state === "OPEN" && (record.retryAt ?? 0) > Date.now()) return null;
+
+      const won = await db.set(probeLockKey(agentId), "1", { nx: true, ex: AGENT_BREAKER.PROBE_TIMEOUT_SECONDS });
+      if (!won) return null;
+      return transition(record, "HALF_OPEN", "probe started");
+    },
+
+    async getHistory(agentId: string, limit: number = AGENT_BREAKER.HISTORY_LENGTH): Promise<BreakerTransition[]> {
+      const entries = await db.lrange(KV_KEYS.breakerHistory(agentId), 0, limit - 1);
+      return entries.map((e) => JSON.parse(e) as BreakerTransition);
+    },
+
+    /** Every breaker that is currently OPEN or HALF_OPEN */
+    async getTrippedBreakers(): Promise<AgentBreakerRecord[]> {
+      const agentIds = await db.smembers(KV_KEYS.trippedAgents());
+      if (agentIds.length === 0) return [];
+      const records = await db.mget<AgentBreakerRecord>(agentIds.map((id) => KV_KEYS.breaker(id)));
+      return records.filter((r): r is AgentBreakerRecord => !!r);
+    },
+  };
+}
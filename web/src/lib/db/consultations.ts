@@ -3,10 +3,38 @@
 import { randomUUID } from "crypto";
 import type { DbAdapter } from "./types";
 import { KV_KEYS, type ConsultationRecord } from "./types";
+import { withRecordLock } from "./record-lock";
 
 export function createConsultationOps(db: DbAdapter) {
+  // Cancel and the engine's final write must not overwrite each other
+  function withConsultationLock<T>(id: string, fn: () => Promise<T>): Promise<T> {
+    return withRecordLock(db, KV_KEYS.consultation(id), fn);
+  }
+
+  /** Responder ids oldest first; a duplicate from a racing append keeps its first place */
+  async function getConsultationAgentOrder(id: string): Promise<string[]> {
+    const ids = await db.lrange(KV_KEYS.consultationAgents(id), 0, -1);
+    return [...new Set([...(ids ?? [])].reverse())];
+  }
+
   return {
-    async createConsultation(askerId: string, question: string): Promise<ConsultationRecord> {
+    getConsultationAgentOrder,
+
+    /** Record agents the first time they are queried; their position is their "代理 N" label */
+    async addConsultationAgents(id: string, agentIds: string[]): Promise<void> {
+      const known = new Set(await getConsultationAgentOrder(id));
+      for (const agentId of agentIds) {
+        if (known.has(agentId)) continue;
+        known.add(agentId);
+        await db.lpush(KV_KEYS.consultationAgents(id), agentId);
+      }
+    },
+
+    async createConsultation(
+      askerId: string,
+      question: string,
+      rateLimitWindow?: number
+    ): Promise<ConsultationRecord> {
       const consultation: ConsultationRecord = {
         id: randomUUID(),
         askerId,
@@ -15,11 +43,11 @@ export function createConsultationOps(db: DbAdapter) {
         agentCount: 0,
         summary: null,
         triage: null,
+        ...(rateLimitWindow !== undefined && { rateLimitWindow }),
         createdAt: Date.now(),
       };
 
       await db.set(KV_KEYS.consultation(consultation.id), consultation);
-      await db.set(KV_KEYS.responses(consultation.id), []);
       await db.lpush(KV_KEYS.userConsultations(askerId), consultation.id);
       return consultation;
     },
@@ -31,24 +59,36 @@ export function createConsultationOps(db: DbAdapter) {
 
     async updateConsultation(
       id: string,
-      updates: Partial<Pick<ConsultationRecord, "status" | "agentCount" | "summary" | "triage">>
+      updates: Partial<Pick<ConsultationRecord, "status" | "agentCount" | "summary" | "triage" | "statusReason" | "followups" | "lateFoldedCount">>
     ): Promise<void> {
-      const c = await db.get<ConsultationRecord>(KV_KEYS.consultation(id));
-      if (c) {
-        Object.assign(c, updates);
+      await withConsultationLock(id, async () => {
+        const c = await db.get<ConsultationRecord>(KV_KEYS.consultation(id));
+        // CANCELLED is final: late writes from a still-running engine are dropped
+        if (c && c.status !== "CANCELLED") {
+          Object.assign(c, updates);
+          await db.set(KV_KEYS.consultation(id), c);
+        }
+      });
+    },
+
+    /** Cancel a consultation that is still running; returns false once it has finished */
+    async cancelConsultation(id: string, reason: string): Promise<boolean> {
+      return withConsultationLock(id, async () => {
+        const c = await db.get<ConsultationRecord>(KV_KEYS.consultation(id));
+        if (!c || (c.status !== "PENDING" && c.status !== "CONSULTING")) return false;
+        c.status = "CANCELLED";
+        c.statusReason = reason;
         await db.set(KV_KEYS.consultation(id), c);
-      }
+        return true;
+      });
     },
 
     async getUserConsultations(userId: string): Promise<ConsultationRecord[]> {
       const ids = await db.lrange(KV_KEYS.userConsultations(userId), 0, -1);
       if (!ids || ids.length === 0) return [];
 
-      const consultations: ConsultationRecord[] = [];
-      for (const id of ids) {
-        const c = await db.get<ConsultationRecord>(KV_KEYS.consultation(id));
-        if (c) consultations.push(c);
-      }
+      const records = await db.mget<ConsultationRecord>(ids.map((id) => KV_KEYS.consultation(id)));
+      const consultations = records.filter((c): c is ConsultationRecord => c !== null);
       return consultations.sort((a, b) => b.createdAt - a.createdAt);
     },
   };
@@ -0,0 +1,73 @@
+// Sequenced consultation event log (SSE source of truth)
+//
+// Each append takes the next id from `consultation-events:{id}:seq`, so readers
+// can resume after the last id they saw and skip the list read when nothing is new.
+// Taking the id and pushing the entry are two writes, so concurrent producers can
+// land N+1 before N; readers stop at the missing id rather than step over it.
+
+import type { DbAdapter } from "./types";
+import { KV_KEYS, type SequencedEvent } from "./types";
+
+// Outlives any single run, including queue time and follow-up rounds
+export const EVENT_LOG_TTL_SECONDS = 60 * 60;
+
+// A missing id whose successor is older than this belongs to a producer that died
+// between its two writes, and is skipped
+export const EVENT_GAP_WAIT_MS = 5_000;
+
+// A skipped id that lands after all sits above newer entries in the list
+const READ_SLACK = 8;
+
+// Stored form; `at` (append time) is only used to age out gaps
+interface StoredEvent extends SequencedEvent {
+  at?: number;
+}
+
+export function createEventOps(db: DbAdapter) {
+  async function appendEvent(consultationId: string, event: Record<string, unknown>): Promise<number> {
+    const id = await db.incr(KV_KEYS.consultationEventSeq(consultationId));
+    const entry: StoredEvent = { id, at: Date.now(), event };
+    await db.lpush(KV_KEYS.consultationEvents(consultationId), JSON.stringify(entry));
+    if (id === 1) {
+      await db.expire(KV_KEYS.consultationEventSeq(consultationId), EVENT_LOG_TTL_SECONDS);
+      await db.expire(KV_KEYS.consultationEvents(consultationId), EVENT_LOG_TTL_SECONDS);
+    }
+    return id;
+  }
+
+  /** Id of the newest appended event, 0 if none */
+  async function getLatestEventId(consultationId: string): Promise<number> {
+    return (await db.get<number>(KV_KEYS.consultationEventSeq(consultationId))) ?? 0;
+  }
+
+  /** Events with id > afterId, oldest first, up to the first id that has not landed yet */
+  async function getEventsAfter(consultationId: string, afterId: number): Promise<SequencedEvent[]> {
+    const latest = await getLatestEventId(consultationId);
+    if (latest <= afterId) return [];
+
+    // Newest first, so only the head of the list can hold unseen entries
+    const raw = await db.lrange(KV_KEYS.consultationEvents(consultationId), 0, latest - afterId - 1 + READ_SLACK);
+    const stored: StoredEvent[] = [];
+    for (const item of raw) {
+      try {
+        const entry = JSON.parse(item) as StoredEvent;
+        if (typeof entry.id === "number" && entry.id > afterId) stored.push(entry);
+      } catch {
+        // Skip malformed entries
+      }
+    }
+    stored.sort((a, b) => a.id - b.id);
+
+    const entries: SequencedEvent[] = [];
+    let next = afterId + 1;
+    for (const { id, event, at } of stored) {
+      if (id < next) continue; // Duplicate
+      if (id > next && Date.now() - (at ?? 0) < EVENT_GAP_WAIT_MS) break;
+      entries.push({ id, event });
+      next = id + 1;
+    }
+    return entries;
+  }
+
+  return { appendEvent, getLatestEventId, getEventsAfter };
+}
@@ -1,15 +1,21 @@
 // Health Metrics CRUD operations with bounded retention
 
+import { randomUUID } from "crypto";
+import { after } from "next/server";
 import type { DbAdapter } from "./types";
 import {
   KV_KEYS,
   RETENTION,
   MIGRATION_TRIGGERS,
+  LATENCY_TRACKING,
   type HealthMetricType,
   type HealthMetricPoint,
   type WeeklySnapshot,
   type HealthMetricsIndex,
   type StorageLatencyMetrics,
+  type LatencyPercentiles,
+  type MigrationTriggerStatus,
+  type DataDeletionReceipt,
 } from "./types";
 
 function formatDateKey(timestamp: number): string {
@@ -42,7 +48,86 @@ function getWeekBounds(weekId: string): { start: number; end: number } {
   return { start: weekStart.getTime(), end: weekEnd.getTime() };
 }
 
+/** Nearest-rank percentile of an ascending array */
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.max(rank - 1, 0)];
+}
+
+/** Group samples by operation and key pattern, slowest p95 first */
+function summariseLatency(samples: StorageLatencyMetrics[]): LatencyPercentiles[] {
+  const groups = new Map<string, number[]>();
+  for (const sample of samples) {
+    const groupKey = `${sample.operation}\n${sample.keyPattern}`;
+    const latencies = groups.get(groupKey);
+    if (latencies) latencies.push(sample.latencyMs);
+    else groups.set(groupKey, [sample.latencyMs]);
+  }
+
+  const stats: LatencyPercentiles[] = [];
+  for (const [groupKey, latencies] of groups) {
+    const [operation, keyPattern] = groupKey.split("\n");
+    const sorted = latencies.sort((a, b) => a - b);
+    stats.push({
+      operation,
+      keyPattern,
+      count: sorted.length,
+      p50: percentile(sorted, 50),
+      p95: percentile(sorted, 95),
+      p99: percentile(sorted, 99),
+    });
+  }
+  return stats.sort((a, b) => b.p95 - a.p95);
+}
+
 export function createHealthMetricsOps(db: DbAdapter) {
+  // Samples are buffered and written as one list entry per hour bucket, so tracking
+  // costs three writes per batch rather than per operation. The buffer is flushed
+  // once the request that recorded them has responded, so nothing waits on an
+  // instance that may be frozen or recycled after its response.
+  let pendingLatency: StorageLatencyMetrics[] = [];
+  let flushQueued = false;
+
+  async function flushLatency(): Promise<void> {
+    flushQueued = false;
+    if (pendingLatency.length === 0) return;
+    const batch = pendingLatency;
+    pendingLatency = [];
+
+    const buckets = new Map<number, StorageLatencyMetrics[]>();
+    for (const metric of batch) {
+      const bucketStart = metric.timestamp - (metric.timestamp % LATENCY_TRACKING.BUCKET_MS);
+      const samples = buckets.get(bucketStart);
+      if (samples) samples.push(metric);
+      else buckets.set(bucketStart, [metric]);
+    }
+
+    for (const [bucketStart, samples] of buckets) {
+      const key = KV_KEYS.health.latencyMetrics(bucketStart);
+      await db.lpush(key, JSON.stringify(samples));
+      await db.ltrim(key, 0, LATENCY_TRACKING.MAX_BATCHES_PER_BUCKET - 1);
+      // Keep one extra bucket so the oldest hour of the window is still complete
+      await db.expire(key, ((LATENCY_TRACKING.WINDOW_HOURS + 1) * LATENCY_TRACKING.BUCKET_MS) / 1000);
+    }
+  }
+
+  async function recordLatency(metric: StorageLatencyMetrics): Promise<void> {
+    pendingLatency.push(metric);
+    if (pendingLatency.length >= LATENCY_TRACKING.FLUSH_BATCH_SIZE) {
+      await flushLatency();
+      return;
+    }
+    if (flushQueued) return;
+    try {
+      after(() => flushLatency().catch((err) => console.error("[Health] Latency flush failed:", err)));
+      flushQueued = true;
+    } catch {
+      // Outside a request (scripts, cron, tests) there is no end to wait for
+      await flushLatency();
+    }
+  }
+
   async function trackLatency<T>(
     operation: string,
     keyPattern: string,
@@ -52,19 +137,33 @@ export function createHealthMetricsOps(db: DbAdapter) {
     try {
       return await fn();
     } finally {
-      const latencyMs = performance.now() - start;
       const metric: StorageLatencyMetrics = {
         operation,
-        latencyMs,
+        latencyMs: performance.now() - start,
         timestamp: Date.now(),
         keyPattern,
       };
-      if (latencyMs > MIGRATION_TRIGGERS.P95_LATENCY_MS) {
-        db.set(KV_KEYS.health.latencyMetrics(Date.now()), metric, {
-          ex: RETENTION.WEEKLY_TTL_SECONDS,
-        }).catch(() => {});
+      // Fire-and-forget: sampling must never fail or slow down the caller
+      recordLatency(metric).catch(() => {});
+    }
+  }
+
+  async function getLatencySamples(now: number = Date.now()): Promise<StorageLatencyMetrics[]> {
+    await flushLatency();
+    const current = now - (now % LATENCY_TRACKING.BUCKET_MS);
+    const windowStart = now - LATENCY_TRACKING.WINDOW_HOURS * LATENCY_TRACKING.BUCKET_MS;
+    const samples: StorageLatencyMetrics[] = [];
+    for (let i = 0; i <= LATENCY_TRACKING.WINDOW_HOURS; i++) {
+      const key = KV_KEYS.health.latencyMetrics(current - i * LATENCY_TRACKING.BUCKET_MS);
+      for (const entry of await db.lrange(key, 0, -1)) {
+        // Entries are batches; older single-sample entries are still read
+        const parsed = JSON.parse(entry) as StorageLatencyMetrics | StorageLatencyMetrics[];
+        for (const sample of Array.isArray(parsed) ? parsed : [parsed]) {
+          if (sample.timestamp >= windowStart) samples.push(sample);
+        }
       }
     }
+    return samples;
   }
 
   async function updateMetricsIndex(userId: string, metricType: HealthMetricType): Promise<void> {
@@ -80,9 +179,10 @@ export function createHealthMetricsOps(db: DbAdapter) {
     if (!index.metricTypes.includes(metricType)) {
       index.metricTypes.push(metricType);
     }
+    // rawRetentionCutoff is only advanced by the weekly rollup once snapshots exist
     index.lastUpdated = now;
-    index.rawRetentionCutoff = now - RETENTION.RAW_DAYS * 24 * 60 * 60 * 1000;
     await db.set(key, index);
+    await db.sadd(KV_KEYS.health.usersWithMetrics(), userId);
   }
 
   async function getUserMetricTypes(userId: string): Promise<HealthMetricType[]> {
@@ -96,7 +196,7 @@ export function createHealthMetricsOps(db: DbAdapter) {
     metricType: HealthMetricType,
     point: HealthMetricPoint
   ): Promise<void> {
-    await trackLatency("addRawMetric", "health:" + userId + ":raw:" + metricType + ":*", async () => {
+    await trackLatency("addRawMetric", "health:*:raw:" + metricType + ":*", async () => {
       const dateKey = formatDateKey(point.timestamp);
       const key = KV_KEYS.health.rawMetric(userId, metricType, dateKey);
       const existing = await db.get<HealthMetricPoint[]>(key);
@@ -124,18 +224,21 @@ export function createHealthMetricsOps(db: DbAdapter) {
       byDate.get(dateKey)!.push(point);
     }
 
-    await trackLatency("addRawMetricsBatch", "health:" + userId + ":raw:" + metricType + ":*", async () => {
-      for (const [dateKey, datePoints] of Array.from(byDate.entries())) {
-        try {
-          const key = KV_KEYS.health.rawMetric(userId, metricType, dateKey);
-          const existing = await db.get<HealthMetricPoint[]>(key);
-          const allPoints = [...(existing || []), ...datePoints];
+    await trackLatency("addRawMetricsBatch", "health:*:raw:" + metricType + ":*", async () => {
+      const entries = Array.from(byDate.entries());
+      const keys = entries.map(([dateKey]) => KV_KEYS.health.rawMetric(userId, metricType, dateKey));
+      try {
+        const existing = await db.mget<HealthMetricPoint[]>(keys);
+        const updates: Record<string, HealthMetricPoint[]> = {};
+        entries.forEach(([, datePoints], i) => {
+          const allPoints = [...(existing[i] || []), ...datePoints];
           allPoints.sort((a, b) => a.timestamp - b.timestamp);
-          await db.set(key, allPoints, { ex: RETENTION.RAW_TTL_SECONDS });
-          success += datePoints.length;
-        } catch {
-          failed += datePoints.length;
-        }
+          updates[keys[i]] = allPoints;
+        });
+        await db.mset(updates, { ex: RETENTION.RAW_TTL_SECONDS });
+        success += points.length;
+      } catch {
+        failed += points.length;
       }
       if (success > 0) {
         await updateMetricsIndex(userId, metricType);
@@ -151,23 +254,20 @@ export function createHealthMetricsOps(db: DbAdapter) {
     startTime: number,
     endTime: number
   ): Promise<HealthMetricPoint[]> {
-    return trackLatency("getRawMetrics", "health:" + userId + ":raw:" + metricType + ":*", async () => {
-      const result: HealthMetricPoint[] = [];
-      const startDate = new Date(startTime);
-      const endDate = new Date(endTime);
-      const current = new Date(startDate);
-      while (current <= endDate) {
-        const dateKey = formatDateKey(current.getTime());
-        const key = KV_KEYS.health.rawMetric(userId, metricType, dateKey);
-        const dayPoints = await db.get<HealthMetricPoint[]>(key);
-        if (dayPoints) {
-          const filtered = dayPoints.filter(
-            (p) => p.timestamp >= startTime && p.timestamp <= endTime
-          );
-          result.push(...filtered);
-        }
+    return trackLatency("getRawMetrics", "health:*:raw:" + metricType + ":*", async () => {
+      const keys: string[] = [];
+      const current = new Date(formatDateKey(startTime));
+      while (current.getTime() <= endTime) {
+        keys.push(KV_KEYS.health.rawMetric(userId, metricType, formatDateKey(current.getTime())));
         current.setUTCDate(current.getUTCDate() + 1);
       }
+
+      const days = await db.mget<HealthMetricPoint[]>(keys);
+      const result: HealthMetricPoint[] = [];
+      for (const dayPoints of days) {
+        if (!dayPoints) continue;
+        result.push(...dayPoints.filter((p) => p.timestamp >= startTime && p.timestamp <= endTime));
+      }
       return result.sort((a, b) => a.timestamp - b.timestamp);
     });
   }
@@ -177,7 +277,7 @@ export function createHealthMetricsOps(db: DbAdapter) {
     metricType: HealthMetricType,
     snapshot: WeeklySnapshot
   ): Promise<void> {
-    await trackLatency("saveWeeklySnapshot", "health:" + userId + ":weekly:" + metricType + ":*", async () => {
+    await trackLatency("saveWeeklySnapshot", "health:*:weekly:" + metricType + ":*", async () => {
       const key = KV_KEYS.health.weeklySnapshot(userId, metricType, snapshot.weekId);
       await db.set(key, snapshot, { ex: RETENTION.WEEKLY_TTL_SECONDS });
     });
@@ -189,20 +289,18 @@ export function createHealthMetricsOps(db: DbAdapter) {
     startWeekId: string,
     endWeekId: string
   ): Promise<WeeklySnapshot[]> {
-    return trackLatency("getWeeklySnapshots", "health:" + userId + ":weekly:" + metricType + ":*", async () => {
-      const result: WeeklySnapshot[] = [];
+    return trackLatency("getWeeklySnapshots", "health:*:weekly:" + metricType + ":*", async () => {
+      const keys: string[] = [];
       const startBounds = getWeekBounds(startWeekId);
       const endBounds = getWeekBounds(endWeekId);
       let currentTime = startBounds.start;
       while (currentTime <= endBounds.end) {
-        const weekId = getWeekId(currentTime);
-        const key = KV_KEYS.health.weeklySnapshot(userId, metricType, weekId);
-        const snapshot = await db.get<WeeklySnapshot>(key);
-        if (snapshot) {
-          result.push(snapshot);
-        }
+        keys.push(KV_KEYS.health.weeklySnapshot(userId, metricType, getWeekId(currentTime)));
         currentTime += 7 * 24 * 60 * 60 * 1000;
       }
+
+      const snapshots = await db.mget<WeeklySnapshot>(keys);
+      const result = snapshots.filter((s): s is WeeklySnapshot => s !== null);
       return result.sort((a, b) => a.startDate - b.startDate);
     });
   }
@@ -282,20 +380,66 @@ export function createHealthMetricsOps(db: DbAdapter) {
     return { raw, weekly, boundaryWeek };
   }
 
-  async function deleteAllUserMetrics(userId: string): Promise<void> {
-    const types = await getUserMetricTypes(userId);
-    for (const _type of types) {
-      const indexKey = KV_KEYS.health.userMetricsIndex(userId);
-      await db.del(indexKey);
+  /** Erase every raw point, weekly snapshot and the index for a user. */
+  async function deleteAllUserMetrics(userId: string): Promise<DataDeletionReceipt> {
+    const requestedAt = Date.now();
+    const metricTypes = await getUserMetricTypes(userId);
+
+    const rawKeys = await db.scan(KV_KEYS.health.rawMetricPrefix(userId));
+    for (const key of rawKeys) {
+      await db.del(key);
     }
+
+    const weeklyKeys = await db.scan(KV_KEYS.health.weeklySnapshotPrefix(userId));
+    for (const key of weeklyKeys) {
+      await db.del(key);
+    }
+
+    const indexKey = KV_KEYS.health.userMetricsIndex(userId);
+    const indexExists = (await db.get<HealthMetricsIndex>(indexKey)) !== null;
+    await db.del(indexKey);
+    await db.srem(KV_KEYS.health.usersWithMetrics(), userId);
+
+    return {
+      id: randomUUID(),
+      userId,
+      metricTypes,
+      rawKeysDeleted: rawKeys.length,
+      weeklyKeysDeleted: weeklyKeys.length,
+      indexDeleted: indexExists,
+      requestedAt,
+      completedAt: Date.now(),
+    };
   }
 
-  async function checkMigrationTriggers(): Promise<{
-    shouldMigrate: boolean;
-    reasons: string[];
-    metrics: { highLatencyOps: number; totalOps: number };
-  }> {
-    return { shouldMigrate: false, reasons: [], metrics: { highLatencyOps: 0, totalOps: 0 } };
+  /** Rolling p50/p95/p99 per operation and key pattern, slowest p95 first */
+  async function getLatencyPercentiles(now: number = Date.now()): Promise<LatencyPercentiles[]> {
+    return summariseLatency(await getLatencySamples(now));
+  }
+
+  async function checkMigrationTriggers(now: number = Date.now()): Promise<MigrationTriggerStatus> {
+    const samples = await getLatencySamples(now);
+    const percentiles = summariseLatency(samples);
+    const reasons: string[] = [];
+
+    for (const stat of percentiles) {
+      if (stat.count >= LATENCY_TRACKING.MIN_SAMPLES && stat.p95 > MIGRATION_TRIGGERS.P95_LATENCY_MS) {
+        reasons.push(
+          `${stat.operation} (${stat.keyPattern}) p95 延迟 ${Math.round(stat.p95)}ms 超过阈值 ${MIGRATION_TRIGGERS.P95_LATENCY_MS}ms`
+        );
+      }
+    }
+
+    return {
+      shouldMigrate: reasons.length > 0,
+      reasons,
+      metrics: {
+        highLatencyOps: samples.filter((s) => s.latencyMs > MIGRATION_TRIGGERS.P95_LATENCY_MS).length,
+        totalOps: samples.length,
+        windowHours: LATENCY_TRACKING.WINDOW_HOURS,
+        percentiles,
+      },
+    };
   }
 
   return {
@@ -309,6 +453,9 @@ export function createHealthMetricsOps(db: DbAdapter) {
     updateMetricsIndex,
     getUserMetricTypes,
     deleteAllUserMetrics,
+    recordLatency,
+    flushLatency,
+    getLatencyPercentiles,
     checkMigrationTriggers,
   };
 }
@@ -0,0 +1,98 @@
+// Weekly health rollup - snapshot every completed ISO week before its raw points expire
+
+import type { DbAdapter } from "./types";
+import {
+  KV_KEYS,
+  RETENTION,
+  type HealthMetricsIndex,
+  type HealthRollupReport,
+  type WeeklySnapshot,
+} from "./types";
+import { createHealthMetricsOps, getWeekId } from "./health-metrics";
+import { createConsentOps } from "@/lib/consent/store";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+const ROLLUP_LOCK_TTL_SECONDS = 600;
+
+/** Monday 00:00 UTC of the ISO week containing `timestamp` */
+function weekStart(timestamp: number): number {
+  const day = new Date(timestamp).getUTCDay() || 7;
+  const midnight = timestamp - (timestamp % DAY_MS);
+  return midnight - (day - 1) * DAY_MS;
+}
+
+export function createHealthRollupOps(db: DbAdapter) {
+  const healthMetricsOps = createHealthMetricsOps(db);
+  const consentOps = createConsentOps(db);
+
+  /**
+   * Aggregate one user's completed weeks that may still have raw points. Weeks that
+   * already have a snapshot are skipped: their raw days may have partly expired,
+   * and re-aggregating would overwrite a full snapshot with a partial one.
+   */
+  async function rollupUser(userId: string, now: number): Promise<number> {
+    const index = await db.get<HealthMetricsIndex>(KV_KEYS.health.userMetricsIndex(userId));
+    if (!index) return 0;
+
+    const lastCompleted = weekStart(now) - WEEK_MS;
+    const oldestWithRaw = weekStart(now - RETENTION.RAW_TTL_SECONDS * 1000);
+    const created: string[] = [];
+
+    for (const metricType of index.metricTypes) {
+      for (let start = oldestWithRaw; start <= lastCompleted; start += WEEK_MS) {
+        const weekId = getWeekId(start);
+        const existing = await db.get<WeeklySnapshot>(
+          KV_KEYS.health.weeklySnapshot(userId, metricType, weekId)
+        );
+        if (existing) continue;
+        if (await healthMetricsOps.aggregateToWeekly(userId, metricType, weekId)) {
+          created.push(`${metricType}:${weekId}`);
+        }
+      }
+    }
+
+    // Everything before the end of the last completed week is now served from snapshots.
+    // Re-read so a metric type added by a concurrent ingest is not dropped.
+    const latest = (await db.get<HealthMetricsIndex>(KV_KEYS.health.userMetricsIndex(userId))) ?? index;
+    const rawRetentionCutoff = Math.max(latest.rawRetentionCutoff, lastCompleted + WEEK_MS);
+    await db.set(KV_KEYS.health.userMetricsIndex(userId), { ...latest, rawRetentionCutoff, lastRollupAt: now });
+
+    if (created.length > 0) {
+      await consentOps.addAuditEvent({
+        userId,
+        eventType: "RETENTION_POLICY_APPLIED",
+        details: {
+          reason: "Raw health data rolled up to weekly snapshots",
+          metadata: { snapshots: created, rawRetentionCutoff, rawRetentionDays: RETENTION.RAW_DAYS },
+        },
+      });
+    }
+    return created.length;
+  }
+
+  /** Roll up every user with a metrics index; safe to call repeatedly */
+  async function runWeeklyRollup(now: number = Date.now()): Promise<HealthRollupReport> {
+    const lockKey = "lock:health-rollup";
+    const locked = await db.set(lockKey, "1", { nx: true, ex: ROLLUP_LOCK_TTL_SECONDS });
+    if (!locked) return { usersProcessed: 0, snapshotsCreated: 0, skipped: true };
+
+    try {
+      let usersProcessed = 0;
+      let snapshotsCreated = 0;
+      for (const userId of await db.smembers(KV_KEYS.health.usersWithMetrics())) {
+        try {
+          snapshotsCreated += await rollupUser(userId, now);
+          usersProcessed++;
+        } catch (err) {
+          console.error(`[HealthRollup] User ${userId} failed:`, err);
+        }
+      }
+      return { usersProcessed, snapshotsCreated, skipped: false };
+    } finally {
+      await db.del(lockKey);
+    }
+  }
+
+  return { runWeeklyRollup };
+}
@@ -3,54 +3,125 @@
 import type { DbAdapter } from "./types";
 import { createJsonAdapter } from "./json-adapter";
 import { createKvAdapter } from "./kv-adapter";
+import { createSqliteAdapter } from "./sqlite-adapter";
 import { createUserOps } from "./users";
 import { createConsultationOps } from "./consultations";
 import { createResponseOps } from "./responses";
 import { createHealthMetricsOps } from "./health-metrics";
+import { createHealthRollupOps } from "./health-rollup";
 import { createFeedbackOps } from "./feedback";
+import { createJobOps } from "./jobs";
+import { createEventOps } from "./events";
+import { createReputationOps } from "./reputation";
+import { createBreakerOps } from "./breaker";
+import { createNotificationOps } from "./notifications";
 import { createConsentOps } from "@/lib/consent/store";
 
 // Re-export types for backward compatibility
-export type { UserRecord, ConsultationRecord, AgentResponseRecord, FeedbackRecord } from "./types";
+export type {
+  UserRecord,
+  ConsultationRecord,
+  ConsultationFollowup,
+  ConsultationJobRecord,
+  AgentResponseRecord,
+  FeedbackRecord,
+  SequencedEvent,
+  AgentReputationStats,
+  AgentSettings,
+  AgentBreakerRecord,
+  BreakerTransition,
+  UserNotification,
+} from "./types";
+export type { AgentMatch } from "./agent-index";
 export type {
   HealthMetricType,
   HealthMetricPoint,
   WeeklySnapshot,
   HealthMetricsIndex,
   StorageLatencyMetrics,
+  LatencyPercentiles,
+  MigrationTriggerStatus,
+  DataDeletionReceipt,
+  HealthRollupReport,
 } from "./types";
 
+export type DbMode = "json" | "kv" | "sqlite";
+
 // Environment detection
 const REDIS_URL = process.env.UPSTASH_REDIS_REST_URL || process.env.KV_REST_API_URL;
-const USE_JSON_MODE = process.env.DB_MODE === "json" || !REDIS_URL;
+const DB_MODE: DbMode =
+  process.env.DB_MODE === "sqlite"
+    ? "sqlite"
+    : process.env.DB_MODE === "json" || !REDIS_URL
+      ? "json"
+      : "kv";
 
 // Create adapter based on environment
-const adapter: DbAdapter = USE_JSON_MODE ? createJsonAdapter() : createKvAdapter();
+export function createAdapter(mode: DbMode): DbAdapter {
+  switch (mode) {
+    case "sqlite":
+      return createSqliteAdapter();
+    case "kv":
+      return createKvAdapter();
+    default:
+      return createJsonAdapter();
+  }
+}
+
+const adapter: DbAdapter = createAdapter(DB_MODE);
 
 // Instantiate domain operations
 const userOps = createUserOps(adapter);
 const consultationOps = createConsultationOps(adapter);
 const responseOps = createResponseOps(adapter);
 const healthMetricsOps = createHealthMetricsOps(adapter);
+const healthRollupOps = createHealthRollupOps(adapter);
 const consentOps = createConsentOps(adapter);
 const feedbackOps = createFeedbackOps(adapter);
+const jobOps = createJobOps(adapter);
+const eventOps = createEventOps(adapter);
+const reputationOps = createReputationOps(adapter);
+const breakerOps = createBreakerOps(adapter);
+const notificationOps = createNotificationOps(adapter);
 
 // Export flat API (backward compatible)
 export const upsertUser = userOps.upsertUser;
 export const getUserById = userOps.getUserById;
 export const getUserBySecondmeId = userOps.getUserBySecondmeId;
 export const getConsultableUsers = userOps.getConsultableUsers;
-export const circuitBreakUser = userOps.circuitBreakUser;
+export const searchAgents = userOps.searchAgents;
+export const updateAgentSettings = userOps.updateAgentSettings;
+export const recordAgentRequest = userOps.recordAgentRequest;
+export const getAgentRequestsToday = userOps.getAgentRequestsToday;
 export const updateUserTokens = userOps.updateUserTokens;
+export const getUsersWithTokensExpiringBefore = userOps.getUsersWithTokensExpiringBefore;
 
 export const createConsultation = consultationOps.createConsultation;
 export const getConsultation = consultationOps.getConsultation;
 export const updateConsultation = consultationOps.updateConsultation;
+export const cancelConsultation = consultationOps.cancelConsultation;
 export const getUserConsultations = consultationOps.getUserConsultations;
+export const addConsultationAgents = consultationOps.addConsultationAgents;
+export const getConsultationAgentOrder = consultationOps.getConsultationAgentOrder;
+
+export const enqueueConsultationJob = jobOps.enqueueJob;
+export const getConsultationJob = jobOps.getJob;
+export const claimConsultationJob = jobOps.claimJob;
+export const renewConsultationJobLease = jobOps.renewJobLease;
+export const requeueConsultationJob = jobOps.requeueJob;
+export const completeConsultationJob = jobOps.completeJob;
+export const failConsultationJob = jobOps.failJob;
+export const getActiveConsultationJobs = jobOps.getActiveJobs;
+
+export const appendConsultationEvent = eventOps.appendEvent;
+export const getConsultationEventsAfter = eventOps.getEventsAfter;
 
 export const addAgentResponse = responseOps.addAgentResponse;
 export const addAgentResponsesBatch = responseOps.addAgentResponsesBatch;
+export const addDirectedResponse = responseOps.addDirectedResponse;
 export const getAgentResponses = responseOps.getAgentResponses;
+export const getResponderAnswers = responseOps.getResponderAnswers;
+export const retractAgentResponse = responseOps.retractResponse;
 
 export const addHealthMetric = healthMetricsOps.addRawMetric;
 export const addHealthMetricsBatch = healthMetricsOps.addRawMetricsBatch;
@@ -61,7 +132,9 @@ export const getWeeklyHealthSnapshots = healthMetricsOps.getWeeklySnapshots;
 export const aggregateHealthToWeekly = healthMetricsOps.aggregateToWeekly;
 export const getUserHealthMetricTypes = healthMetricsOps.getUserMetricTypes;
 export const deleteUserHealthMetrics = healthMetricsOps.deleteAllUserMetrics;
+export const runWeeklyHealthRollup = healthRollupOps.runWeeklyRollup;
 export const checkHealthMetricsMigrationTriggers = healthMetricsOps.checkMigrationTriggers;
+export const flushHealthLatencySamples = healthMetricsOps.flushLatency;
 
 // Consent operations
 export const getConsentRecord = consentOps.getConsentRecord.bind(consentOps);
@@ -70,24 +143,48 @@ export const grantConsent = consentOps.grantConsent.bind(consentOps);
 export const revokeConsent = consentOps.revokeConsent.bind(consentOps);
 export const hasValidConsent = consentOps.hasValidConsent.bind(consentOps);
 export const getConsentAuditEvents = consentOps.getAuditEvents.bind(consentOps);
+export const getDeletionReceipt = consentOps.getDeletionReceipt.bind(consentOps);
 export const logSyncBlocked = consentOps.logSyncBlocked.bind(consentOps);
 
+// Circuit breaker operations
+export const recordAgentFailure = breakerOps.recordFailure;
+export const recordAgentSuccess = breakerOps.recordSuccess;
+export const getAgentBreaker = breakerOps.getBreaker;
+export const getAgentBreakerHistory = breakerOps.getHistory;
+export const getTrippedAgentBreakers = breakerOps.getTrippedBreakers;
+export const getAgentsDueForProbe = breakerOps.getDueProbes;
+export const claimAgentProbe = breakerOps.claimProbe;
+
+// Notification operations
+export const getNotifications = notificationOps.getNotifications;
+export const notifyUser = notificationOps.notify;
+export const clearNotifications = notificationOps.clearNotifications;
+
+// Reputation operations
+export const getAgentReputation = reputationOps.getStats;
+export const getAgentReputations = reputationOps.getStatsMany;
+export const recordAgentOutcomes = reputationOps.recordOutcomes;
+export const recordConsultationVote = reputationOps.recordVote;
+
 // Feedback operations
 export const submitFeedback = feedbackOps.submitFeedback;
 export const getFeedback = feedbackOps.getFeedback;
 
 // Utility exports
 export { resetJsonCache as resetJSONCache } from "./json-adapter";
+export { resetSqliteDb as resetSQLiteDb } from "./sqlite-adapter";
 export { getWeekId } from "./health-metrics";
+export { migrateStorage, KEY_FAMILIES } from "./migrate";
+export type { MigrationReport, MigrationOptions } from "./migrate";
 
 export async function checkDBHealth(): Promise<{ healthy: boolean; mode: string; error?: string }> {
   try {
     await adapter.ping();
-    return { healthy: true, mode: USE_JSON_MODE ? "json" : "kv" };
+    return { healthy: true, mode: DB_MODE };
   } catch (error) {
     return {
       healthy: false,
-      mode: USE_JSON_MODE ? "json" : "kv",
+      mode: DB_MODE,
       error: error instanceof Error ? error.message : String(error),
     };
   }
@@ -103,21 +200,6 @@ export async function releaseLock(key: string): Promise<void> {
   await adapter.del(`lock:${key}`);
 }
 
-// KV event helpers (for SSE streaming)
-export async function pushEvent(key: string, event: string, ttlSeconds: number = 300): Promise<void> {
-  await adapter.lpush(key, event);
-  // Set TTL on first push (approximate — lpush doesn't support ex, so we use set for a sentinel)
-  const sentinelKey = `${key}:ttl`;
-  const exists = await adapter.get(sentinelKey);
-  if (!exists) {
-    await adapter.set(sentinelKey, "1", { ex: ttlSeconds });
-  }
-}
-
-export async function getEvents(key: string, start: number, stop: number): Promise<string[]> {
-  return adapter.lrange(key, start, stop);
-}
-
-export function getDBMode(): "json" | "kv" {
-  return USE_JSON_MODE ? "json" : "kv";
+export function getDBMode(): DbMode {
+  return DB_MODE;
 }
@@ -0,0 +1,123 @@
+// Consultation job queue with leases
+//
+// A job is claimed by winning a `lock:job:{id}` SET NX whose TTL equals the lease.
+// Workers renew the lease while running; a lease that lapses means the worker died
+// and the sweeper may requeue or finalise the job.
+
+import type { DbAdapter } from "./types";
+import { KV_KEYS, JOB_QUEUE, type ConsultationJobRecord } from "./types";
+
+function leaseKey(consultationId: string): string {
+  return `lock:${KV_KEYS.job(consultationId)}`;
+}
+
+export function createJobOps(db: DbAdapter) {
+  async function getJob(consultationId: string): Promise<ConsultationJobRecord | null> {
+    return db.get<ConsultationJobRecord>(KV_KEYS.job(consultationId));
+  }
+
+  async function saveJob(job: ConsultationJobRecord): Promise<ConsultationJobRecord> {
+    const updated = { ...job, updatedAt: Date.now() };
+    await db.set(KV_KEYS.job(job.consultationId), updated);
+    return updated;
+  }
+
+  async function finishJob(
+    job: ConsultationJobRecord,
+    state: "DONE" | "FAILED",
+    lastError?: string
+  ): Promise<void> {
+    await saveJob({ ...job, state, lastError, leaseOwner: undefined, leaseExpiresAt: undefined });
+    await db.srem(KV_KEYS.activeJobs(), job.consultationId);
+    await db.del(leaseKey(job.consultationId));
+  }
+
+  async function tryClaim(consultationId: string, workerId: string): Promise<ConsultationJobRecord | null> {
+    const job = await getJob(consultationId);
+    if (!job || job.state === "DONE" || job.state === "FAILED") {
+      await db.srem(KV_KEYS.activeJobs(), consultationId);
+      return null;
+    }
+    if (job.attempts >= JOB_QUEUE.MAX_ATTEMPTS) return null; // Left for the sweeper to finalise
+    if (job.state === "RUNNING" && (job.leaseExpiresAt ?? 0) > Date.now()) return null;
+
+    const won = await db.set(leaseKey(consultationId), workerId, { nx: true, ex: JOB_QUEUE.LEASE_SECONDS });
+    if (!won) return null;
+
+    return saveJob({
+      ...job,
+      state: "RUNNING",
+      attempts: job.attempts + 1,
+      leaseOwner: workerId,
+      leaseExpiresAt: Date.now() + JOB_QUEUE.LEASE_SECONDS * 1000,
+    });
+  }
+
+  return {
+    getJob,
+
+    async enqueueJob(consultationId: string, askerId: string, question: string): Promise<ConsultationJobRecord> {
+      const now = Date.now();
+      const job: ConsultationJobRecord = {
+        consultationId,
+        askerId,
+        question,
+        state: "QUEUED",
+        attempts: 0,
+        createdAt: now,
+        updatedAt: now,
+      };
+      await db.set(KV_KEYS.job(consultationId), job);
+      await db.sadd(KV_KEYS.activeJobs(), consultationId);
+      return job;
+    },
+
+    /** Claim a specific job, or the oldest claimable active job when no id is given */
+    async claimJob(workerId: string, consultationId?: string): Promise<ConsultationJobRecord | null> {
+      if (consultationId) return tryClaim(consultationId, workerId);
+
+      const ids = await db.smembers(KV_KEYS.activeJobs());
+      const jobs = (await db.mget<ConsultationJobRecord>(ids.map((id) => KV_KEYS.job(id))))
+        .filter((j): j is ConsultationJobRecord => j !== null)
+        .sort((a, b) => a.createdAt - b.createdAt);
+      for (const job of jobs) {
+        const claimed = await tryClaim(job.consultationId, workerId);
+        if (claimed) return claimed;
+      }
+      return null;
+    },
+
+    /** Extend the lease; false means another worker has taken the job over */
+    async renewJobLease(consultationId: string, workerId: string): Promise<boolean> {
+      if ((await db.get<string>(leaseKey(consultationId))) !== workerId) return false;
+      await db.set(leaseKey(consultationId), workerId, { ex: JOB_QUEUE.LEASE_SECONDS });
+      const job = await getJob(consultationId);
+      if (job) await saveJob({ ...job, leaseExpiresAt: Date.now() + JOB_QUEUE.LEASE_SECONDS * 1000 });
+      return true;
+    },
+
+    /** Return a job to the queue so the next worker resumes it */
+    async requeueJob(consultationId: string, lastError?: string): Promise<void> {
+      const job = await getJob(consultationId);
+      if (!job) return;
+      await saveJob({ ...job, state: "QUEUED", lastError, leaseOwner: undefined, leaseExpiresAt: undefined });
+      await db.del(leaseKey(consultationId));
+    },
+
+    async completeJob(consultationId: string): Promise<void> {
+      const job = await getJob(consultationId);
+      if (job) await finishJob(job, "DONE");
+    },
+
+    async failJob(consultationId: string, error: string): Promise<void> {
+      const job = await getJob(consultationId);
+      if (job) await finishJob(job, "FAILED", error);
+    },
+
+    async getActiveJobs(): Promise<ConsultationJobRecord[]> {
+      const ids = await db.smembers(KV_KEYS.activeJobs());
+      const jobs = await db.mget<ConsultationJobRecord>(ids.map((id) => KV_KEYS.job(id)));
+      return jobs.filter((j): j is ConsultationJobRecord => j !== null);
+    },
+  };
+}
@@ -4,27 +4,28 @@ import * as fs from "fs";
 import * as path from "path";
 import type { DbAdapter } from "./types";
 
-const DATA_DIR = path.join(process.cwd(), "data");
-const DB_FILE = path.join(DATA_DIR, "medcrowd.db.json");
+export const JSON_DB_FILE = process.env.JSON_DB_PATH || path.join(process.cwd(), "data", "medcrowd.db.json");
+
+const SWEEP_INTERVAL_MS = 60_000;
 
 interface JsonStore {
   kv: Record<string, unknown>;
   sets: Record<string, string[]>;
   lists: Record<string, string[]>;
+  expires: Record<string, number>; // key -> Unix timestamp ms
 }
 
 let cache: JsonStore | null = null;
+let sweepTimer: ReturnType<typeof setInterval> | null = null;
 
 function load(): JsonStore {
   if (cache) return cache;
 
-  if (!fs.existsSync(DATA_DIR)) {
-    fs.mkdirSync(DATA_DIR, { recursive: true });
-  }
+  fs.mkdirSync(path.dirname(JSON_DB_FILE), { recursive: true });
 
-  if (fs.existsSync(DB_FILE)) {
+  if (fs.existsSync(JSON_DB_FILE)) {
     try {
-      const raw = fs.readFileSync(DB_FILE, "utf-8");
+      const raw = fs.readFileSync(JSON_DB_FILE, "utf-8");
       const data = JSON.parse(raw);
       // Migrate from old format if needed
       if (data.users || data.consultations) {
@@ -33,26 +34,27 @@ function load(): JsonStore {
         persist();
         return migrated;
       }
-      cache = data as JsonStore;
-      return cache as JsonStore;
+      // Files written before TTL support have no expires map
+      cache = { expires: {}, ...data } as JsonStore;
+      return cache;
     } catch {
       // Corrupted file, start fresh
     }
   }
 
-  cache = { kv: {}, sets: {}, lists: {} };
+  cache = { kv: {}, sets: {}, lists: {}, expires: {} };
   return cache;
 }
 
 function persist(): void {
   if (cache) {
-    fs.writeFileSync(DB_FILE, JSON.stringify(cache, null, 2), "utf-8");
+    fs.writeFileSync(JSON_DB_FILE, JSON.stringify(cache, null, 2), "utf-8");
   }
 }
 
 /** Migrate old {users, consultations, agentResponses} format to new adapter format */
 function migrateOldFormat(old: Record<string, unknown>): JsonStore {
-  const store: JsonStore = { kv: {}, sets: {}, lists: {} };
+  const store: JsonStore = { kv: {}, sets: {}, lists: {}, expires: {} };
   const users = (old.users || {}) as Record<string, unknown>;
   const bySecondme = (old.usersBySecondmeId || {}) as Record<string, string>;
   const consultations = (old.consultations || {}) as Record<string, unknown>;
@@ -81,40 +83,144 @@ export function resetJsonCache(): void {
   cache = null;
 }
 
+function hasKey(store: JsonStore, key: string): boolean {
+  return store.kv[key] !== undefined || key in store.sets || key in store.lists;
+}
+
+function removeKey(store: JsonStore, key: string): void {
+  delete store.kv[key];
+  delete store.sets[key];
+  delete store.lists[key];
+  delete store.expires[key];
+}
+
+function isExpired(store: JsonStore, key: string, now: number = Date.now()): boolean {
+  const expiresAt = store.expires[key];
+  return expiresAt !== undefined && expiresAt <= now;
+}
+
+/** Load the store, lazily evicting `key` if its TTL has passed (mirrors Redis on read) */
+function loadKey(key: string): JsonStore {
+  const store = load();
+  if (isExpired(store, key)) {
+    removeKey(store, key);
+    persist();
+  }
+  return store;
+}
+
+function setExpiry(store: JsonStore, key: string, ex?: number): void {
+  if (ex) {
+    store.expires[key] = Date.now() + ex * 1000;
+  } else {
+    delete store.expires[key]; // Plain SET clears any previous TTL, as in Redis
+  }
+}
+
+/** Remove every expired key. Runs periodically so untouched keys do not linger on disk. */
+export function sweepExpiredKeys(): number {
+  if (!cache) return 0;
+  const now = Date.now();
+  let evicted = 0;
+  for (const key of Object.keys(cache.expires)) {
+    if (isExpired(cache, key, now)) {
+      removeKey(cache, key);
+      evicted++;
+    }
+  }
+  if (evicted > 0) persist();
+  return evicted;
+}
+
+function startSweeper(): void {
+  if (sweepTimer) return;
+  sweepTimer = setInterval(sweepExpiredKeys, SWEEP_INTERVAL_MS);
+  // Never keep the process alive just to sweep
+  sweepTimer.unref?.();
+}
+
 export function createJsonAdapter(): DbAdapter {
+  startSweeper();
+
   return {
     async get<T>(key: string): Promise<T | null> {
-      const store = load();
+      const store = loadKey(key);
       const val = store.kv[key];
       return (val as T) ?? null;
     },
 
-    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    async mget<T>(keys: string[]): Promise<(T | null)[]> {
+      return keys.map((key) => (loadKey(key).kv[key] as T) ?? null);
+    },
+
     async set(key: string, value: unknown, options?: { ex?: number; nx?: boolean }): Promise<boolean | void> {
-      const store = load();
+      const store = loadKey(key);
       if (options?.nx && store.kv[key] !== undefined) {
         return false; // Key already exists
       }
       store.kv[key] = value;
+      setExpiry(store, key, options?.ex);
       persist();
       if (options?.nx) return true;
     },
 
+    async mset(entries: Record<string, unknown>, options?: { ex?: number }): Promise<void> {
+      const store = load();
+      for (const [key, value] of Object.entries(entries)) {
+        store.kv[key] = value;
+        setExpiry(store, key, options?.ex);
+      }
+      persist();
+    },
+
     async del(key: string): Promise<void> {
       const store = load();
-      delete store.kv[key];
+      removeKey(store, key);
       persist();
     },
 
-    async sadd(key: string, member: string): Promise<void> {
+    async incr(key: string, by = 1): Promise<number> {
+      const store = loadKey(key);
+      const next = Number(store.kv[key] ?? 0) + by;
+      store.kv[key] = next; // Keeps any existing TTL, as in Redis
+      persist();
+      return next;
+    },
+
+    async expire(key: string, seconds: number): Promise<void> {
+      const store = loadKey(key);
+      if (!hasKey(store, key)) return;
+      store.expires[key] = Date.now() + seconds * 1000;
+      persist();
+    },
+
+    async ttl(key: string): Promise<number | null> {
+      const store = loadKey(key);
+      const expiresAt = store.expires[key];
+      if (!hasKey(store, key) || expiresAt === undefined) return null;
+      return Math.ceil((expiresAt - Date.now()) / 1000);
+    },
+
+    async scan(prefix: string): Promise<string[]> {
+      sweepExpiredKeys();
       const store = load();
+      const keys = new Set([
+        ...Object.keys(store.kv),
+        ...Object.keys(store.sets),
+        ...Object.keys(store.lists),
+      ]);
+      return Array.from(keys).filter((k) => k.startsWith(prefix));
+    },
+
+    async sadd(key: string, member: string): Promise<void> {
+      const store = loadKey(key);
       if (!store.sets[key]) store.sets[key] = [];
       if (!store.sets[key].includes(member)) store.sets[key].push(member);
       persist();
     },
 
     async srem(key: string, member: string): Promise<void> {
-      const store = load();
+      const store = loadKey(key);
       if (store.sets[key]) {
         store.sets[key] = store.sets[key].filter((m) => m !== member);
         persist();
@@ -122,22 +228,35 @@ export function createJsonAdapter(): DbAdapter {
     },
 
     async smembers(key: string): Promise<string[]> {
-      return load().sets[key] || [];
+      return loadKey(key).sets[key] || [];
     },
 
     async lpush(key: string, value: string): Promise<void> {
-      const store = load();
+      const store = loadKey(key);
       if (!store.lists[key]) store.lists[key] = [];
       store.lists[key].unshift(value);
       persist();
     },
 
     async lrange(key: string, start: number, stop: number): Promise<string[]> {
-      const list = load().lists[key] || [];
+      const list = loadKey(key).lists[key] || [];
       const end = stop === -1 ? list.length : stop + 1;
       return list.slice(start, end);
     },
 
+    async ltrim(key: string, start: number, stop: number): Promise<void> {
+      const store = loadKey(key);
+      const list = store.lists[key];
+      if (!list) return;
+      const end = stop === -1 ? list.length : stop + 1;
+      store.lists[key] = list.slice(start, end);
+      persist();
+    },
+
+    async llen(key: string): Promise<number> {
+      return (loadKey(key).lists[key] || []).length;
+    },
+
     async ping(): Promise<void> {
       load(); // Just verify we can read the file
     },
@@ -9,6 +9,11 @@ export function createKvAdapter(): DbAdapter {
       return kv.get<T>(key);
     },
 
+    async mget<T>(keys: string[]): Promise<(T | null)[]> {
+      if (keys.length === 0) return [];
+      return kv.mget<(T | null)[]>(...keys);
+    },
+
     async set(key: string, value: unknown, options?: { ex?: number; nx?: boolean }): Promise<boolean | void> {
       const kvOptions: Record<string, unknown> = {};
       if (options?.ex) kvOptions.ex = options.ex;
@@ -23,10 +28,45 @@ export function createKvAdapter(): DbAdapter {
       }
     },
 
+    async mset(entries: Record<string, unknown>, options?: { ex?: number }): Promise<void> {
+      const keys = Object.keys(entries);
+      if (keys.length === 0) return;
+
+      // MSET has no TTL option, so pipeline individual SETs when one is needed
+      if (options?.ex) {
+        const pipeline = kv.pipeline();
+        for (const key of keys) pipeline.set(key, entries[key], { ex: options.ex });
+        await pipeline.exec();
+      } else {
+        await kv.mset(entries);
+      }
+    },
+
     async del(key: string): Promise<void> {
       await kv.del(key);
     },
 
+    async incr(key: string, by = 1): Promise<number> {
+      return by === 1 ? kv.incr(key) : kv.incrby(key, by);
+    },
+
+    async expire(key: string, seconds: number): Promise<void> {
+      await kv.expire(key, seconds);
+    },
+
+    async ttl(key: string): Promise<number | null> {
+      const seconds = await kv.ttl(key);
+      return seconds > 0 ? seconds : null; // -1 = no TTL, -2 = missing
+    },
+
+    async scan(prefix: string): Promise<string[]> {
+      const keys: string[] = [];
+      for await (const key of kv.scanIterator({ match: `${prefix}*`, count: 500 })) {
+        keys.push(key);
+      }
+      return keys;
+    },
+
     async sadd(key: string, member: string): Promise<void> {
       await kv.sadd(key, member);
     },
@@ -47,6 +87,14 @@ export function createKvAdapter(): DbAdapter {
       return kv.lrange(key, start, stop);
     },
 
+    async ltrim(key: string, start: number, stop: number): Promise<void> {
+      await kv.ltrim(key, start, stop);
+    },
+
+    async llen(key: string): Promise<number> {
+      return kv.llen(key);
+    },
+
     async ping(): Promise<void> {
       await kv.ping();
     },
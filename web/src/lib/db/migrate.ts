@@ -0,0 +1,168 @@
+// Storage migration - copy every KV_KEYS family between two adapters
+
+import type { DbAdapter } from "./types";
+
+type KeyKind = "value" | "set" | "list";
+
+interface KeyFamily {
+  name: string;
+  prefix: string; // Passed to scan()
+  kind: KeyKind;
+  match?: RegExp; // Narrows keys when prefixes overlap with another family
+}
+
+// One entry per KV_KEYS family. `user:` also covers `user:secondme:`, `consultation:`
+// also covers the idempotency keys, `consultation-events:` covers the event log and its
+// sequence and `health:` covers several families, so `match` decides which family owns a scanned key.
+export const KEY_FAMILIES: KeyFamily[] = [
+  { name: "user", prefix: "user:", kind: "value", match: /^user:(?!secondme:)[^:]+$/ },
+  { name: "userBySecondme", prefix: "user:secondme:", kind: "value" },
+  { name: "consultableUsers", prefix: "consultable-users", kind: "set", match: /^consultable-users$/ },
+  { name: "consultation", prefix: "consultation:", kind: "value", match: /^consultation:[^:]+$/ },
+  { name: "userConsultations", prefix: "user-consultations:", kind: "list" },
+  { name: "consultationAgents", prefix: "consultation-agents:", kind: "list" },
+  { name: "responses", prefix: "responses:", kind: "value" },
+  { name: "responseLog", prefix: "response-log:", kind: "list" },
+  { name: "responderAnswers", prefix: "responder-answers:", kind: "list" },
+  { name: "retractedResponses", prefix: "retracted-responses:", kind: "set" },
+  { name: "idempotent", prefix: "consultation:", kind: "value", match: /^consultation:[^:]+:round:/ },
+  { name: "job", prefix: "job:", kind: "value" },
+  { name: "activeJobs", prefix: "active-jobs", kind: "set", match: /^active-jobs$/ },
+  {
+    name: "consultationEvents",
+    prefix: "consultation-events:",
+    kind: "list",
+    match: /^consultation-events:[^:]+$/,
+  },
+  {
+    name: "consultationEventSeq",
+    prefix: "consultation-events:",
+    kind: "value",
+    match: /^consultation-events:[^:]+:seq$/,
+  },
+  { name: "health.rawMetric", prefix: "health:", kind: "value", match: /^health:[^:]+:raw:/ },
+  { name: "health.weeklySnapshot", prefix: "health:", kind: "value", match: /^health:[^:]+:weekly:/ },
+  { name: "health.userMetricsIndex", prefix: "health:", kind: "value", match: /^health:[^:]+:metrics$/ },
+  { name: "health.latencyMetrics", prefix: "health:metrics:latency:", kind: "list" },
+  { name: "health.usersWithMetrics", prefix: "health:users", kind: "set", match: /^health:users$/ },
+  { name: "feedback", prefix: "feedback:", kind: "value" },
+  { name: "agentIndex.term", prefix: "agent-index:term:", kind: "set" },
+  { name: "agentIndex.doc", prefix: "agent-index:doc:", kind: "value" },
+  {
+    name: "agentIndex.meta",
+    prefix: "agent-index:",
+    kind: "value",
+    match: /^agent-index:(doc-count|total-length|built)$/,
+  },
+  { name: "agentDailyAnswers", prefix: "agent-answers:", kind: "value" },
+  { name: "notifications", prefix: "notifications:", kind: "value" },
+  { name: "breaker", prefix: "breaker:", kind: "value" },
+  { name: "breakerHistory", prefix: "breaker-history:", kind: "list" },
+  { name: "trippedAgents", prefix: "tripped-agents", kind: "set", match: /^tripped-agents$/ },
+  { name: "reputation", prefix: "reputation:", kind: "value", match: /^reputation:(?!voted:)[^:]+$/ },
+  { name: "reputationVoted", prefix: "reputation:voted:", kind: "value" },
+  {
+    name: "consent.record",
+    prefix: "consent:",
+    kind: "value",
+    match: /^consent:(?!audit:|deletion-receipt:)[^:]+$/,
+  },
+  { name: "consent.auditEvents", prefix: "consent:audit:", kind: "list" },
+  { name: "consent.deletionReceipt", prefix: "consent:deletion-receipt:", kind: "value" },
+];
+
+export interface FamilyReport {
+  keys: number; // Keys copied (or that would be copied in a dry run)
+  withTtl: number;
+}
+
+export interface MigrationReport {
+  dryRun: boolean;
+  families: Record<string, FamilyReport>;
+  totalKeys: number;
+}
+
+export interface MigrationOptions {
+  dryRun?: boolean;
+  families?: string[]; // Limit to these family names (default: all)
+}
+
+// Upstash deserialises JSON list/set members on read; store them back as strings
+function asString(item: unknown): string {
+  return typeof item === "string" ? item : JSON.stringify(item);
+}
+
+/** Copy one key, returning false if it vanished (expired) since the scan */
+async function copyKey(
+  source: DbAdapter,
+  target: DbAdapter,
+  key: string,
+  kind: KeyKind,
+  ttl: number | null
+): Promise<boolean> {
+  switch (kind) {
+    case "value": {
+      const value = await source.get<unknown>(key);
+      if (value === null) return false;
+      await target.set(key, value, ttl ? { ex: ttl } : undefined);
+      return true;
+    }
+    case "set": {
+      const members = await source.smembers(key);
+      if (members.length === 0) return false;
+      await target.del(key);
+      for (const member of members) {
+        await target.sadd(key, asString(member));
+      }
+      break;
+    }
+    case "list": {
+      const items = await source.lrange(key, 0, -1);
+      if (items.length === 0) return false;
+      await target.del(key);
+      // lrange returns head first, so push from the tail to rebuild the same order
+      for (let i = items.length - 1; i >= 0; i--) {
+        await target.lpush(key, asString(items[i]));
+      }
+      break;
+    }
+  }
+  if (ttl) await target.expire(key, ttl);
+  return true;
+}
+
+/** Copy every KV_KEYS family from `source` to `target`, preserving TTLs and list order */
+export async function migrateStorage(
+  source: DbAdapter,
+  target: DbAdapter,
+  options: MigrationOptions = {}
+): Promise<MigrationReport> {
+  const dryRun = options.dryRun ?? false;
+  const families = options.families
+    ? KEY_FAMILIES.filter((f) => options.families!.includes(f.name))
+    : KEY_FAMILIES;
+
+  const unknown = (options.families ?? []).filter((name) => !KEY_FAMILIES.some((f) => f.name === name));
+  if (unknown.length > 0) {
+    throw new Error(`未知的键族: ${unknown.join(", ")}`);
+  }
+
+  const report: MigrationReport = { dryRun, families: {}, totalKeys: 0 };
+
+  for (const family of families) {
+    const counts: FamilyReport = { keys: 0, withTtl: 0 };
+    const keys = (await source.scan(family.prefix)).filter((k) => !family.match || family.match.test(k));
+
+    for (const key of keys.sort()) {
+      const ttl = await source.ttl(key);
+      if (!dryRun && !(await copyKey(source, target, key, family.kind, ttl))) continue;
+      counts.keys++;
+      if (ttl) counts.withTtl++;
+    }
+
+    report.families[family.name] = counts;
+    report.totalKeys += counts.keys;
+  }
+
+  return report;
+}
@@ -0,0 +1,30 @@
+// In-app notifications - notices shown to a user on their next visit
+
+import type { DbAdapter } from "./types";
+import { KV_KEYS, type UserNotification } from "./types";
+
+export function createNotificationOps(db: DbAdapter) {
+  async function getNotifications(userId: string): Promise<UserNotification[]> {
+    return (await db.get<UserNotification[]>(KV_KEYS.notifications(userId))) ?? [];
+  }
+
+  return {
+    getNotifications,
+
+    /** Add a notice unless one of the same type is already pending; returns true if added */
+    async notify(userId: string, notification: Omit<UserNotification, "createdAt">): Promise<boolean> {
+      const pending = await getNotifications(userId);
+      if (pending.some((n) => n.type === notification.type)) return false;
+      await db.set(KV_KEYS.notifications(userId), [...pending, { ...notification, createdAt: Date.now() }]);
+      return true;
+    },
+
+    async clearNotifications(userId: string, type: UserNotification["type"]): Promise<void> {
+      const pending = await getNotifications(userId);
+      const remaining = pending.filter((n) => n.type !== type);
+      if (remaining.length === pending.length) return;
+      if (remaining.length === 0) await db.del(KV_KEYS.notifications(userId));
+      else await db.set(KV_KEYS.notifications(userId), remaining);
+    },
+  };
+}
@@ -0,0 +1,24 @@
+// Short per-record lock for read-modify-write updates
+//
+// Same `lock:` protocol as acquireLock, but waits instead of giving up, so writers
+// that each change different fields of one record cannot overwrite each other.
+
+import type { DbAdapter } from "./types";
+
+const RECORD_LOCK_SECONDS = 5;
+const RECORD_LOCK_RETRY_MS = 20;
+
+/** Run `fn` holding the lock on `key`; not re-entrant, so `fn` must not lock `key` again */
+export async function withRecordLock<T>(db: DbAdapter, key: string, fn: () => Promise<T>): Promise<T> {
+  const lockKey = `lock:${key}`;
+  const deadline = Date.now() + RECORD_LOCK_SECONDS * 1000;
+  while (!(await db.set(lockKey, "1", { ex: RECORD_LOCK_SECONDS, nx: true }))) {
+    if (Date.now() > deadline) throw new Error(`Record ${key} is locked`);
+    await new Promise((r) => setTimeout(r, RECORD_LOCK_RETRY_MS));
+  }
+  try {
+    return await fn();
+  } finally {
+    await db.del(lockKey);
+  }
+}
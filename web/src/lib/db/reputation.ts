@@ -0,0 +1,97 @@
+// Agent reputation statistics
+//
+// One record per agent, updated read-modify-write. Two consultations finishing at
+// the same moment can drop an increment; ranking only needs the rough shape.
+
+import type { DbAdapter } from "./types";
+import { KV_KEYS, type AgentReputationStats, type AgentResponseRecord } from "./types";
+
+const MAX_LATENCY_SAMPLES = 50;
+const VOTE_MARKER_TTL_SECONDS = 90 * 24 * 60 * 60;
+
+type Outcome = "valid" | "timeout" | "duplicate" | "rejected";
+
+/** How an initial answer went, from the fields the engine sets on failure */
+function classify(response: AgentResponseRecord): Outcome {
+  if (response.isValid) return "valid";
+  if (!response.rawResponse) return "timeout";
+  if (response.invalidReason === "与其他回复重复") return "duplicate";
+  return "rejected";
+}
+
+function emptyStats(agentId: string): AgentReputationStats {
+  return {
+    agentId, answered: 0, valid: 0, timeouts: 0, duplicates: 0, rejected: 0,
+    recentLatencies: [], helpful: 0, notHelpful: 0, updatedAt: Date.now(),
+  };
+}
+
+export function createReputationOps(db: DbAdapter) {
+  async function getStats(agentId: string): Promise<AgentReputationStats | null> {
+    return db.get<AgentReputationStats>(KV_KEYS.reputation(agentId));
+  }
+
+  async function update(agentId: string, apply: (stats: AgentReputationStats) => void): Promise<void> {
+    const stats = (await getStats(agentId)) ?? emptyStats(agentId);
+    apply(stats);
+    stats.updatedAt = Date.now();
+    await db.set(KV_KEYS.reputation(agentId), stats);
+  }
+
+  return {
+    getStats,
+
+    /** Stats for each agent that has any; agents without history are absent */
+    async getStatsMany(agentIds: string[]): Promise<Map<string, AgentReputationStats>> {
+      const result = new Map<string, AgentReputationStats>();
+      if (agentIds.length === 0) return result;
+      const records = await db.mget<AgentReputationStats>(agentIds.map((id) => KV_KEYS.reputation(id)));
+      records.forEach((stats, i) => {
+        if (stats) result.set(agentIds[i], stats);
+      });
+      return result;
+    },
+
+    /** Count the outcome of each initial answer */
+    async recordOutcomes(responses: AgentResponseRecord[]): Promise<void> {
+      for (const response of responses) {
+        const outcome = classify(response);
+        await update(response.responderId, (stats) => {
+          stats.answered++;
+          if (outcome === "valid") stats.valid++;
+          else if (outcome === "timeout") stats.timeouts++;
+          else if (outcome === "duplicate") stats.duplicates++;
+          else stats.rejected++;
+
+          if (outcome !== "timeout") {
+            stats.recentLatencies = [...stats.recentLatencies, response.latencyMs].slice(-MAX_LATENCY_SAMPLES);
+          }
+        });
+      }
+    },
+
+    /**
+     * Attribute an asker's vote on a consultation to every agent with a valid
+     * answer in it. Counted once per consultation; returns false if already counted.
+     */
+    async recordVote(
+      consultationId: string,
+      responderIds: string[],
+      vote: "helpful" | "not_helpful"
+    ): Promise<boolean> {
+      const claimed = await db.set(KV_KEYS.reputationVoted(consultationId), vote, {
+        nx: true,
+        ex: VOTE_MARKER_TTL_SECONDS,
+      });
+      if (!claimed) return false;
+
+      for (const agentId of new Set(responderIds)) {
+        await update(agentId, (stats) => {
+          if (vote === "helpful") stats.helpful++;
+          else stats.notHelpful++;
+        });
+      }
+      return true;
+    },
+  };
+}
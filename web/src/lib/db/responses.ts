@@ -1,61 +1,131 @@
 // Agent response operations with idempotency control
+//
+// Responses live in an append-only list per consultation. The idempotency key is
+// claimed with SET NX before appending, so concurrent writers (e.g. a reaction
+// round overlapping a retry) can neither lose nor duplicate a response.
 
 import type { DbAdapter } from "./types";
-import { KV_KEYS, type AgentResponseRecord } from "./types";
+import { KV_KEYS, type AgentResponseRecord, type ResponderAnswerRef } from "./types";
+
+const IDEMPOTENCY_TTL_SECONDS = 600;
+const UPGRADE_LOCK_TTL_SECONDS = 30;
+const RESPONDER_HISTORY_LENGTH = 200; // Answers kept in each agent's own history
+
+type AddResult = { success: boolean; responseId: string; error?: string };
+
+// Round fields written before `roundIndex` replaced them
+type LegacyRoundFields = { followupIndex?: number; deliberationRound?: number };
+
+/** The writer's own label wins; an unlabelled response is initial for round 0, else a reaction */
+function withRoundLabel(response: AgentResponseRecord, round: number): AgentResponseRecord {
+  if (response.round) return response;
+  return round === 0 ? { ...response, round: "initial" } : { ...response, round: "reaction", roundIndex: 1 };
+}
+
+function withRoundIndex(stored: AgentResponseRecord & LegacyRoundFields): AgentResponseRecord {
+  const { followupIndex, deliberationRound, ...response } = stored;
+  const roundIndex = response.roundIndex ?? followupIndex ?? deliberationRound;
+  return roundIndex === undefined ? response : { ...response, roundIndex };
+}
 
 export function createResponseOps(db: DbAdapter) {
-  return {
-    async addAgentResponse(response: AgentResponseRecord, round: number = 0): Promise<void> {
-      const idempotentKey = KV_KEYS.idempotent(response.consultationId, round, response.responderId);
-      const existingId = await db.get<string>(idempotentKey);
-      if (existingId) return;
+  async function readLog(consultationId: string): Promise<AgentResponseRecord[]> {
+    const entries = await db.lrange(KV_KEYS.responseLog(consultationId), 0, -1);
+    // lpush stores newest first; callers expect insertion order
+    return entries.map((e) => withRoundIndex(JSON.parse(e))).reverse();
+  }
 
-      const expectedRound = round === 0 ? "initial" : "reaction";
-      const responses =
-        (await db.get<AgentResponseRecord[]>(KV_KEYS.responses(response.consultationId))) || [];
+  /** Move a legacy array-shaped `responses:{id}` record into the append-only log */
+  async function upgradeLegacyResponses(consultationId: string): Promise<void> {
+    const legacyKey = KV_KEYS.responses(consultationId);
+    const legacy = await db.get<AgentResponseRecord[]>(legacyKey);
+    if (!legacy) return;
 
-      const alreadyExists = responses.some(
-        (r) => r.responderId === response.responderId && r.round === expectedRound
-      );
-      if (alreadyExists) {
-        await db.set(idempotentKey, response.id, { ex: 600 });
-        return;
+    const locked = await db.set(`lock:${legacyKey}`, "1", { nx: true, ex: UPGRADE_LOCK_TTL_SECONDS });
+    if (!locked) return; // Another writer is upgrading; reads merge both shapes meanwhile
+
+    try {
+      // Skip anything already copied by an interrupted upgrade
+      const logged = new Set((await readLog(consultationId)).map((r) => r.id));
+      for (const response of legacy) {
+        if (!logged.has(response.id)) {
+          await db.lpush(KV_KEYS.responseLog(consultationId), JSON.stringify(response));
+        }
       }
+      await db.del(legacyKey);
+    } finally {
+      await db.del(`lock:${legacyKey}`);
+    }
+  }
 
-      await db.set(idempotentKey, response.id, { ex: 600 });
-      responses.push({ ...response, round: expectedRound });
-      await db.set(KV_KEYS.responses(response.consultationId), responses);
-    },
+  /** Remember the answer under its agent, so the owner can find it again; best effort */
+  async function indexByResponder(response: AgentResponseRecord): Promise<void> {
+    const ref: ResponderAnswerRef = { consultationId: response.consultationId, responseId: response.id };
+    try {
+      await db.lpush(KV_KEYS.responderAnswers(response.responderId), JSON.stringify(ref));
+      await db.ltrim(KV_KEYS.responderAnswers(response.responderId), 0, RESPONDER_HISTORY_LENGTH - 1);
+    } catch (error) {
+      console.error("[DB] Failed to index response by responder:", error);
+    }
+  }
 
-    async addAgentResponsesBatch(
-      items: Array<{ response: AgentResponseRecord; round?: number }>
-    ): Promise<Array<{ success: boolean; responseId: string; error?: string }>> {
-      const results: Array<{ success: boolean; responseId: string; error?: string }> = [];
+  async function getAgentResponses(consultationId: string): Promise<AgentResponseRecord[]> {
+    await upgradeLegacyResponses(consultationId);
 
-      for (const { response, round = 0 } of items) {
-        try {
-          const idempotentKey = KV_KEYS.idempotent(response.consultationId, round, response.responderId);
-          const existingId = await db.get<string>(idempotentKey);
+    // A concurrent upgrade may still hold the legacy array; merge and dedupe by id
+    const legacy = (await db.get<AgentResponseRecord[]>(KV_KEYS.responses(consultationId))) || [];
+    const retracted = new Set(await db.smembers(KV_KEYS.retractedResponses(consultationId)));
+    const seen = new Set<string>();
+    return [...legacy, ...(await readLog(consultationId))]
+      .filter((r) => {
+        if (seen.has(r.id)) return false;
+        seen.add(r.id);
+        return true;
+      })
+      .map((r) => (retracted.has(r.id) ? { ...r, retracted: true } : r));
+  }
 
-          if (existingId) {
-            results.push({ success: true, responseId: response.id });
-            continue;
-          }
+  async function append(response: AgentResponseRecord, round: number): Promise<void> {
+    const idempotentKey = KV_KEYS.idempotent(response.consultationId, round, response.responderId);
+    const claimed = await db.set(idempotentKey, response.id, { nx: true, ex: IDEMPOTENCY_TTL_SECONDS });
+    if (!claimed) return;
 
-          const expectedRound = round === 0 ? "initial" : "reaction";
-          const existing =
-            (await db.get<AgentResponseRecord[]>(KV_KEYS.responses(response.consultationId))) || [];
+    try {
+      await upgradeLegacyResponses(response.consultationId);
 
-          const alreadyExists = existing.some(
-            (r) => r.responderId === response.responderId && r.round === expectedRound
-          );
+      // The idempotency key expires; the log itself is the durable record of who answered
+      const labelled = withRoundLabel(response, round);
+      const existing = await readLog(response.consultationId);
+      const alreadyExists = existing.some(
+        (r) =>
+          r.responderId === labelled.responderId &&
+          r.round === labelled.round &&
+          (r.roundIndex ?? 1) === (labelled.roundIndex ?? 1)
+      );
+      if (alreadyExists) return;
 
-          if (!alreadyExists) {
-            existing.push({ ...response, round: expectedRound });
-            await db.set(KV_KEYS.responses(response.consultationId), existing);
-          }
+      await db.lpush(KV_KEYS.responseLog(response.consultationId), JSON.stringify(labelled));
+      await indexByResponder(labelled);
+    } catch (error) {
+      // Release the claim so a retry can still write this response
+      await db.del(idempotentKey);
+      throw error;
+    }
+  }
 
-          await db.set(idempotentKey, response.id, { ex: 600 });
+  return {
+    async addAgentResponse(response: AgentResponseRecord, round: number = 0): Promise<void> {
+      await append(response, round);
+    },
+
+    async addAgentResponsesBatch(
+      items: Array<{ response: AgentResponseRecord; round?: number }>
+    ): Promise<AddResult[]> {
+      const results: AddResult[] = [];
+
+      for (const { response, round = 0 } of items) {
+        try {
+          await append(response, round);
           results.push({ success: true, responseId: response.id });
         } catch (error) {
           results.push({
@@ -69,9 +139,40 @@ export function createResponseOps(db: DbAdapter) {
       return results;
     },
 
-    async getAgentResponses(consultationId: string): Promise<AgentResponseRecord[]> {
-      const responses = await db.get<AgentResponseRecord[]>(KV_KEYS.responses(consultationId));
-      return responses || [];
+    /** Reply to a question put to a single agent; not part of any round, so never deduped */
+    async addDirectedResponse(response: AgentResponseRecord): Promise<void> {
+      await upgradeLegacyResponses(response.consultationId);
+      await db.lpush(
+        KV_KEYS.responseLog(response.consultationId),
+        JSON.stringify({ ...response, round: "directed" })
+      );
+      await indexByResponder(response);
+    },
+
+    getAgentResponses,
+
+    /** An agent's own answers, newest first; answers from before the history existed are absent */
+    async getResponderAnswers(agentId: string, limit: number): Promise<AgentResponseRecord[]> {
+      const refs = (await db.lrange(KV_KEYS.responderAnswers(agentId), 0, limit - 1)).map(
+        (e) => JSON.parse(e) as ResponderAnswerRef
+      );
+      const threads = new Map<string, AgentResponseRecord[]>();
+      for (const { consultationId } of refs) {
+        if (!threads.has(consultationId)) threads.set(consultationId, await getAgentResponses(consultationId));
+      }
+      return refs.flatMap(({ consultationId, responseId }) =>
+        threads.get(consultationId)!.filter((r) => r.id === responseId)
+      );
+    },
+
+    /** Withdraw one of the agent's answers; false if it is not theirs */
+    async retractResponse(agentId: string, consultationId: string, responseId: string): Promise<boolean> {
+      const responses = await getAgentResponses(consultationId);
+      if (!responses.some((r) => r.id === responseId && r.responderId === agentId)) return false;
+      await db.sadd(KV_KEYS.retractedResponses(consultationId), responseId);
+      return true;
     },
+
+    upgradeLegacyResponses,
   };
 }
@@ -0,0 +1,310 @@
+// Embedded SQLite adapter for self-hosted deployments
+
+import * as fs from "fs";
+import * as path from "path";
+import type Sqlite from "better-sqlite3";
+import type { DbAdapter } from "./types";
+
+const SQLITE_FILE = process.env.SQLITE_PATH || path.join(process.cwd(), "data", "medcrowd.db");
+const SWEEP_INTERVAL_MS = 60_000;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS kv (key TEXT PRIMARY KEY, value TEXT NOT NULL);
+  CREATE TABLE IF NOT EXISTS set_members (
+    key TEXT NOT NULL,
+    member TEXT NOT NULL,
+    PRIMARY KEY (key, member)
+  );
+  CREATE TABLE IF NOT EXISTS list_items (
+    key TEXT NOT NULL,
+    seq INTEGER NOT NULL,
+    value TEXT NOT NULL,
+    PRIMARY KEY (key, seq)
+  );
+  CREATE TABLE IF NOT EXISTS expiries (key TEXT PRIMARY KEY, expires_at INTEGER NOT NULL);
+  CREATE INDEX IF NOT EXISTS expiries_by_time ON expiries (expires_at);
+`;
+
+const connections = new Map<string, Sqlite.Database>();
+
+// The native driver is required on first open, so JSON/KV deployments never load it
+function loadDriver(): typeof Sqlite {
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  return require("better-sqlite3");
+}
+
+function open(file: string): Sqlite.Database {
+  const existing = connections.get(file);
+  if (existing) return existing;
+
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  const Database = loadDriver();
+  const conn = new Database(file);
+  // WAL lets readers proceed while a writer holds the lock; busy_timeout queues
+  // concurrent writers (other workers on the same host) instead of failing.
+  conn.pragma("journal_mode = WAL");
+  conn.pragma("busy_timeout = 5000");
+  conn.exec(SCHEMA);
+  connections.set(file, conn);
+  return conn;
+}
+
+/** Close the connection and delete the database file (tests and local resets) */
+export function resetSqliteDb(file: string = SQLITE_FILE): void {
+  connections.get(file)?.close();
+  connections.delete(file);
+  for (const suffix of ["", "-wal", "-shm"]) {
+    if (fs.existsSync(file + suffix)) fs.unlinkSync(file + suffix);
+  }
+}
+
+function removeKey(conn: Sqlite.Database, key: string): void {
+  conn.prepare("DELETE FROM kv WHERE key = ?").run(key);
+  conn.prepare("DELETE FROM set_members WHERE key = ?").run(key);
+  conn.prepare("DELETE FROM list_items WHERE key = ?").run(key);
+  conn.prepare("DELETE FROM expiries WHERE key = ?").run(key);
+}
+
+/** Lazily evict `key` if its TTL has passed (mirrors Redis on read) */
+function evictIfExpired(conn: Sqlite.Database, key: string): void {
+  const row = conn.prepare("SELECT expires_at FROM expiries WHERE key = ?").get(key) as
+    | { expires_at: number }
+    | undefined;
+  if (row && row.expires_at <= Date.now()) removeKey(conn, key);
+}
+
+function setExpiry(conn: Sqlite.Database, key: string, ex?: number): void {
+  if (ex) {
+    conn
+      .prepare("INSERT INTO expiries (key, expires_at) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET expires_at = excluded.expires_at")
+      .run(key, Date.now() + ex * 1000);
+  } else {
+    // Plain SET clears any previous TTL, as in Redis
+    conn.prepare("DELETE FROM expiries WHERE key = ?").run(key);
+  }
+}
+
+function hasKey(conn: Sqlite.Database, key: string): boolean {
+  return !!(
+    conn.prepare("SELECT 1 FROM kv WHERE key = ?").get(key) ||
+    conn.prepare("SELECT 1 FROM set_members WHERE key = ? LIMIT 1").get(key) ||
+    conn.prepare("SELECT 1 FROM list_items WHERE key = ? LIMIT 1").get(key)
+  );
+}
+
+/** Remove every expired key. Runs periodically so untouched keys do not linger on disk. */
+export function sweepExpiredSqliteKeys(file: string = SQLITE_FILE): number {
+  if (!connections.has(file)) return 0;
+  return sweepExpired(open(file));
+}
+
+function sweepExpired(conn: Sqlite.Database): number {
+  const expired = conn
+    .prepare("SELECT key FROM expiries WHERE expires_at <= ?")
+    .all(Date.now()) as { key: string }[];
+  conn.transaction(() => {
+    for (const { key } of expired) removeKey(conn, key);
+  })();
+  return expired.length;
+}
+
+/** Resolve Redis-style inclusive (possibly negative) list bounds to slice indices */
+function listBounds(length: number, start: number, stop: number): [number, number] {
+  const from = start < 0 ? Math.max(length + start, 0) : start;
+  const to = stop < 0 ? length + stop : Math.min(stop, length - 1);
+  return [from, to + 1];
+}
+
+export function createSqliteAdapter(file: string = SQLITE_FILE): DbAdapter {
+  const sweepTimer = setInterval(() => sweepExpiredSqliteKeys(file), SWEEP_INTERVAL_MS);
+  // Never keep the process alive just to sweep
+  sweepTimer.unref?.();
+
+  function listValues(conn: Sqlite.Database, key: string): string[] {
+    const rows = conn
+      .prepare("SELECT value FROM list_items WHERE key = ? ORDER BY seq ASC")
+      .all(key) as { value: string }[];
+    return rows.map((r) => r.value);
+  }
+
+  return {
+    async get<T>(key: string): Promise<T | null> {
+      const conn = open(file);
+      evictIfExpired(conn, key);
+      const row = conn.prepare("SELECT value FROM kv WHERE key = ?").get(key) as
+        | { value: string }
+        | undefined;
+      return row ? (JSON.parse(row.value) as T) : null;
+    },
+
+    async mget<T>(keys: string[]): Promise<(T | null)[]> {
+      const results: (T | null)[] = [];
+      for (const key of keys) {
+        results.push(await this.get<T>(key));
+      }
+      return results;
+    },
+
+    async set(key: string, value: unknown, options?: { ex?: number; nx?: boolean }): Promise<boolean | void> {
+      const conn = open(file);
+      const write = conn.transaction(() => {
+        evictIfExpired(conn, key);
+        if (options?.nx) {
+          const inserted = conn
+            .prepare("INSERT INTO kv (key, value) VALUES (?, ?) ON CONFLICT(key) DO NOTHING")
+            .run(key, JSON.stringify(value));
+          if (inserted.changes === 0) return false; // Key already exists
+        } else {
+          conn
+            .prepare("INSERT INTO kv (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value")
+            .run(key, JSON.stringify(value));
+        }
+        setExpiry(conn, key, options?.ex);
+        return true;
+      });
+      const written = write.immediate();
+      if (options?.nx) return written;
+    },
+
+    async mset(entries: Record<string, unknown>, options?: { ex?: number }): Promise<void> {
+      const conn = open(file);
+      conn.transaction(() => {
+        const upsert = conn.prepare(
+          "INSERT INTO kv (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value"
+        );
+        for (const [key, value] of Object.entries(entries)) {
+          upsert.run(key, JSON.stringify(value));
+          setExpiry(conn, key, options?.ex);
+        }
+      }).immediate();
+    },
+
+    async del(key: string): Promise<void> {
+      const conn = open(file);
+      conn.transaction(() => removeKey(conn, key)).immediate();
+    },
+
+    async incr(key: string, by = 1): Promise<number> {
+      const conn = open(file);
+      return conn.transaction(() => {
+        evictIfExpired(conn, key);
+        const row = conn.prepare("SELECT value FROM kv WHERE key = ?").get(key) as
+          | { value: string }
+          | undefined;
+        const next = Number(row ? JSON.parse(row.value) : 0) + by;
+        // Keeps any existing TTL, as in Redis
+        conn
+          .prepare("INSERT INTO kv (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value")
+          .run(key, JSON.stringify(next));
+        return next;
+      }).immediate();
+    },
+
+    async expire(key: string, seconds: number): Promise<void> {
+      const conn = open(file);
+      conn.transaction(() => {
+        evictIfExpired(conn, key);
+        if (hasKey(conn, key)) setExpiry(conn, key, seconds);
+      }).immediate();
+    },
+
+    async ttl(key: string): Promise<number | null> {
+      const conn = open(file);
+      evictIfExpired(conn, key);
+      const row = conn.prepare("SELECT expires_at FROM expiries WHERE key = ?").get(key) as
+        | { expires_at: number }
+        | undefined;
+      if (!row || !hasKey(conn, key)) return null;
+      return Math.ceil((row.expires_at - Date.now()) / 1000);
+    },
+
+    async scan(prefix: string): Promise<string[]> {
+      const conn = open(file);
+      sweepExpired(conn);
+      // Escape LIKE wildcards so the prefix is matched literally
+      const pattern = prefix.replace(/[\\%_]/g, (c) => `\\${c}`) + "%";
+      const rows = conn
+        .prepare(
+          `SELECT key FROM kv WHERE key LIKE ? ESCAPE '\\'
+           UNION SELECT DISTINCT key FROM set_members WHERE key LIKE ? ESCAPE '\\'
+           UNION SELECT DISTINCT key FROM list_items WHERE key LIKE ? ESCAPE '\\'`
+        )
+        .all(pattern, pattern, pattern) as { key: string }[];
+      return rows.map((r) => r.key);
+    },
+
+    async sadd(key: string, member: string): Promise<void> {
+      const conn = open(file);
+      conn.transaction(() => {
+        evictIfExpired(conn, key);
+        conn.prepare("INSERT OR IGNORE INTO set_members (key, member) VALUES (?, ?)").run(key, member);
+      }).immediate();
+    },
+
+    async srem(key: string, member: string): Promise<void> {
+      const conn = open(file);
+      conn.transaction(() => {
+        evictIfExpired(conn, key);
+        conn.prepare("DELETE FROM set_members WHERE key = ? AND member = ?").run(key, member);
+      }).immediate();
+    },
+
+    async smembers(key: string): Promise<string[]> {
+      const conn = open(file);
+      evictIfExpired(conn, key);
+      const rows = conn.prepare("SELECT member FROM set_members WHERE key = ?").all(key) as {
+        member: string;
+      }[];
+      return rows.map((r) => r.member);
+    },
+
+    async lpush(key: string, value: string): Promise<void> {
+      const conn = open(file);
+      conn.transaction(() => {
+        evictIfExpired(conn, key);
+        // Head of the list has the lowest seq, so prepend below the current minimum
+        const row = conn.prepare("SELECT MIN(seq) AS head FROM list_items WHERE key = ?").get(key) as {
+          head: number | null;
+        };
+        const seq = row.head === null ? 0 : row.head - 1;
+        conn.prepare("INSERT INTO list_items (key, seq, value) VALUES (?, ?, ?)").run(key, seq, value);
+      }).immediate();
+    },
+
+    async lrange(key: string, start: number, stop: number): Promise<string[]> {
+      const conn = open(file);
+      evictIfExpired(conn, key);
+      const values = listValues(conn, key);
+      const [from, to] = listBounds(values.length, start, stop);
+      return values.slice(from, to);
+    },
+
+    async ltrim(key: string, start: number, stop: number): Promise<void> {
+      const conn = open(file);
+      conn.transaction(() => {
+        evictIfExpired(conn, key);
+        const rows = conn
+          .prepare("SELECT seq FROM list_items WHERE key = ? ORDER BY seq ASC")
+          .all(key) as { seq: number }[];
+        const [from, to] = listBounds(rows.length, start, stop);
+        const drop = conn.prepare("DELETE FROM list_items WHERE key = ? AND seq = ?");
+        rows.forEach((row, i) => {
+          if (i < from || i >= to) drop.run(key, row.seq);
+        });
+      }).immediate();
+    },
+
+    async llen(key: string): Promise<number> {
+      const conn = open(file);
+      evictIfExpired(conn, key);
+      const row = conn.prepare("SELECT COUNT(*) AS n FROM list_items WHERE key = ?").get(key) as {
+        n: number;
+      };
+      return row.n;
+    },
+
+    async ping(): Promise<void> {
+      open(file).prepare("SELECT 1").get();
+    },
+  };
+}
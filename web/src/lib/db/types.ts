@@ -2,13 +2,21 @@
 
 export interface DbAdapter {
   get<T>(key: string): Promise<T | null>;
+  mget<T>(keys: string[]): Promise<(T | null)[]>;
   set(key: string, value: unknown, options?: { ex?: number; nx?: boolean }): Promise<boolean | void>;
+  mset(entries: Record<string, unknown>, options?: { ex?: number }): Promise<void>;
   del(key: string): Promise<void>;
+  incr(key: string, by?: number): Promise<number>; // `by` defaults to 1; negative decrements
+  expire(key: string, seconds: number): Promise<void>;
+  ttl(key: string): Promise<number | null>; // Remaining seconds, null if missing or persistent
+  scan(prefix: string): Promise<string[]>;
   sadd(key: string, member: string): Promise<void>;
   srem(key: string, member: string): Promise<void>;
   smembers(key: string): Promise<string[]>;
   lpush(key: string, value: string): Promise<void>;
   lrange(key: string, start: number, stop: number): Promise<string[]>;
+  ltrim(key: string, start: number, stop: number): Promise<void>;
+  llen(key: string): Promise<number>;
   ping(): Promise<void>;
 }
 
@@ -23,23 +31,59 @@ export interface UserRecord {
   refreshToken: string;
   tokenExpiry: number; // Unix timestamp ms
   consultable: boolean;
-  circuitBreakerUntil?: number; // Unix timestamp ms - temporary disable
+  circuitBreakerUntil?: number; // Unix timestamp ms - breaker open until its next probe
   bio?: string;    // From SecondMe user info
-  tags?: string[]; // Manual tags for smart matching
+  tags?: string[]; // Owner-chosen expertise tags for smart matching
+  paused?: boolean; // Owner paused answering; survives re-login
+  quietHours?: { start: number; end: number } | null; // Beijing-time hours, start inclusive
+  dailyAnswerCap?: number | null; // Consultations the agent may be asked per day
   createdAt: number;
 }
 
+/** The UserRecord fields an agent owner controls from the settings page */
+export type AgentSettings = Required<Pick<UserRecord, "tags" | "paused" | "quietHours" | "dailyAnswerCap">>;
+
 export interface ConsultationRecord {
   id: string;
   askerId: string;
   question: string;
-  status: "PENDING" | "CONSULTING" | "DONE" | "PARTIAL" | "FAILED";
+  status: "PENDING" | "CONSULTING" | "DONE" | "PARTIAL" | "FAILED" | "CANCELLED";
   agentCount: number;
   summary: Record<string, unknown> | null;
   triage: Record<string, unknown> | null;
+  statusReason?: string; // Shown to the asker when a run ends PARTIAL/FAILED
+  followups?: ConsultationFollowup[];
+  lateFoldedCount?: number; // Valid late answers the current summary already covers
+  rateLimitWindow?: number; // Rate-limit window the create request was charged to
   createdAt: number;
 }
 
+export interface ConsultationFollowup {
+  index: number; // 1-based
+  question: string;
+  askedAt: number; // Unix timestamp ms
+}
+
+// Durable consultation job (one per consultation)
+export interface ConsultationJobRecord {
+  consultationId: string;
+  askerId: string;
+  question: string;
+  state: "QUEUED" | "RUNNING" | "DONE" | "FAILED";
+  attempts: number;
+  leaseOwner?: string; // Worker id holding the lease
+  leaseExpiresAt?: number; // Unix timestamp ms
+  lastError?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/** One entry of a consultation's event log; ids increase by one per append */
+export interface SequencedEvent<T = Record<string, unknown>> {
+  id: number;
+  event: T;
+}
+
 export interface AgentResponseRecord {
   id: string;
   consultationId: string;
@@ -51,7 +95,59 @@ export interface AgentResponseRecord {
   invalidReason?: string;
   latencyMs: number;
   createdAt: number;
-  round?: "initial" | "reaction";
+  round?: "initial" | "reaction" | "followup" | "directed";
+  roundIndex?: number; // 1-based follow-up or deliberation pass, set when round is "followup" or "reaction"
+  parentResponseId?: string; // Set when round is "directed": the answer being followed up
+  directedQuestion?: string; // The asker's question to that one agent
+  late?: boolean; // Initial answer that arrived after quorum closed; not in the first summary
+  retracted?: boolean; // The agent's owner withdrew it; set on read from the retraction set
+}
+
+export type BreakerState = "CLOSED" | "OPEN" | "HALF_OPEN";
+
+// Per-agent circuit breaker (one per agent that has ever failed)
+export interface AgentBreakerRecord {
+  agentId: string;
+  state: BreakerState;
+  failures: number; // Consecutive failures while CLOSED
+  trips: number; // Consecutive openings without a recovery; drives the backoff
+  retryAt?: number; // OPEN: probe no earlier than this (Unix timestamp ms)
+  lastError?: string;
+  updatedAt: number;
+}
+
+/** One state change of an agent's breaker, kept for inspection */
+export interface BreakerTransition {
+  from: BreakerState;
+  to: BreakerState;
+  reason: string;
+  at: number; // Unix timestamp ms
+}
+
+/** A notice shown to the user on their next visit; one per type */
+export interface UserNotification {
+  type: "relogin_required";
+  message: string;
+  createdAt: number; // Unix timestamp ms
+}
+
+/** Entry of an agent's own answer history, newest first */
+export interface ResponderAnswerRef {
+  consultationId: string;
+  responseId: string;
+}
+
+// Numeric round used only to key idempotency claims: 0 initial, 1 reaction, 1 + n for
+// follow-up n. The record itself carries `round` and `roundIndex`.
+export function followupRound(followupIndex: number): number {
+  return 1 + followupIndex;
+}
+
+const DELIBERATION_ROUND_BASE = 1000;
+
+// Deliberation pass n keeps 1 for the first pass; later passes sit clear of follow-up numbers
+export function deliberationRound(n: number): number {
+  return n === 1 ? 1 : DELIBERATION_ROUND_BASE + n;
 }
 
 // Health Metric Types (V1)
@@ -90,6 +186,26 @@ export interface HealthMetricsIndex {
   metricTypes: HealthMetricType[];
   lastUpdated: number;
   rawRetentionCutoff: number; // Unix timestamp ms - data older than this is in weekly only
+  lastRollupAt?: number; // Unix timestamp ms - last weekly rollup that touched this user
+}
+
+// Result of one weekly rollup run
+export interface HealthRollupReport {
+  usersProcessed: number;
+  snapshotsCreated: number;
+  skipped: boolean; // Another run held the lock
+}
+
+// Receipt issued after a user's health data has been erased
+export interface DataDeletionReceipt {
+  id: string;
+  userId: string;
+  metricTypes: HealthMetricType[];
+  rawKeysDeleted: number;
+  weeklyKeysDeleted: number;
+  indexDeleted: boolean;
+  requestedAt: number; // Unix timestamp ms
+  completedAt: number; // Unix timestamp ms
 }
 
 // Migration trigger tracking
@@ -100,6 +216,26 @@ export interface StorageLatencyMetrics {
   keyPattern: string;
 }
 
+export interface LatencyPercentiles {
+  operation: string;
+  keyPattern: string;
+  count: number;
+  p50: number;
+  p95: number;
+  p99: number;
+}
+
+export interface MigrationTriggerStatus {
+  shouldMigrate: boolean;
+  reasons: string[];
+  metrics: {
+    highLatencyOps: number;
+    totalOps: number;
+    windowHours: number;
+    percentiles: LatencyPercentiles[];
+  };
+}
+
 export interface FeedbackRecord {
   id: string;
   consultationId: string;
@@ -109,6 +245,20 @@ export interface FeedbackRecord {
   createdAt: number;
 }
 
+/** Per-agent answer outcomes and asker votes, the inputs to reputation scoring */
+export interface AgentReputationStats {
+  agentId: string;
+  answered: number; // Initial answers requested (valid + timeouts + duplicates + rejected)
+  valid: number;
+  timeouts: number;
+  duplicates: number;
+  rejected: number; // Too short or boilerplate
+  recentLatencies: number[]; // Latest successful answers, oldest first
+  helpful: number; // Consultation votes, attributed to every agent with a valid answer in it
+  notHelpful: number;
+  updatedAt: number;
+}
+
 // KV Key schema (centralized)
 export const KV_KEYS = {
   user: (userId: string) => `user:${userId}`,
@@ -116,18 +266,46 @@ export const KV_KEYS = {
   consultableUsers: () => "consultable-users",
   consultation: (consultationId: string) => `consultation:${consultationId}`,
   userConsultations: (userId: string) => `user-consultations:${userId}`,
-  responses: (consultationId: string) => `responses:${consultationId}`,
+  consultationAgents: (consultationId: string) => `consultation-agents:${consultationId}`, // Agent ids in first-query order, newest first
+  responses: (consultationId: string) => `responses:${consultationId}`, // Legacy array, upgraded on access
+  responseLog: (consultationId: string) => `response-log:${consultationId}`, // Append-only list, newest first
+  responderAnswers: (agentId: string) => `responder-answers:${agentId}`, // List of ResponderAnswerRef JSON, newest first
+  retractedResponses: (consultationId: string) => `retracted-responses:${consultationId}`, // Set of response ids
   idempotent: (consultationId: string, round: number, agentId: string) =>
     `consultation:${consultationId}:round:${round}:agent:${agentId}`,
+  job: (consultationId: string) => `job:${consultationId}`,
+  activeJobs: () => "active-jobs", // Set of QUEUED/RUNNING job ids
+  consultationEvents: (consultationId: string) => `consultation-events:${consultationId}`, // List of SequencedEvent JSON, newest first
+  consultationEventSeq: (consultationId: string) => `consultation-events:${consultationId}:seq`,
   // Health metrics keys
   health: {
     rawMetric: (userId: string, metricType: HealthMetricType, date: string) =>
       `health:${userId}:raw:${metricType}:${date}`,
     weeklySnapshot: (userId: string, metricType: HealthMetricType, weekId: string) =>
       `health:${userId}:weekly:${metricType}:${weekId}`,
+    rawMetricPrefix: (userId: string) => `health:${userId}:raw:`,
+    weeklySnapshotPrefix: (userId: string) => `health:${userId}:weekly:`,
     userMetricsIndex: (userId: string) => `health:${userId}:metrics`,
-    latencyMetrics: (timestamp: number) => `health:metrics:latency:${timestamp}`,
+    usersWithMetrics: () => "health:users", // Set of userIds that have a metrics index
+    latencyMetrics: (bucketStart: number) => `health:metrics:latency:${bucketStart}`,
   },
+  // Agent relevance index keys
+  agentIndex: {
+    term: (term: string) => `agent-index:term:${term}`, // Set of "agentId|tf|docLength" postings
+    doc: (agentId: string) => `agent-index:doc:${agentId}`, // Terms the agent posted, for re-indexing
+    docCount: () => "agent-index:doc-count",
+    totalLength: () => "agent-index:total-length",
+    built: () => "agent-index:built", // Set once pre-existing agents have been backfilled
+  },
+  agentDailyAnswers: (agentId: string, day: string) => `agent-answers:${agentId}:${day}`, // Requests counted against the daily cap
+  notifications: (userId: string) => `notifications:${userId}`, // UserNotification[]
+  // Circuit breaker keys
+  breaker: (agentId: string) => `breaker:${agentId}`,
+  breakerHistory: (agentId: string) => `breaker-history:${agentId}`, // List of BreakerTransition JSON, newest first
+  trippedAgents: () => "tripped-agents", // Set of agent ids whose breaker is OPEN or HALF_OPEN
+  // Reputation keys
+  reputation: (agentId: string) => `reputation:${agentId}`,
+  reputationVoted: (consultationId: string) => `reputation:voted:${consultationId}`, // Vote already attributed
   // Feedback keys
   feedback: (consultationId: string, userId: string) =>
     `feedback:${consultationId}:${userId}`,
@@ -135,6 +313,7 @@ export const KV_KEYS = {
   consent: {
     record: (userId: string) => `consent:${userId}`,
     auditEvents: (userId: string) => `consent:audit:${userId}`,
+    deletionReceipt: (userId: string) => `consent:deletion-receipt:${userId}`,
   },
 };
 
@@ -151,3 +330,34 @@ export const MIGRATION_TRIGGERS = {
   P95_LATENCY_MS: 300,
   RETENTION_DAYS: 180,
 };
+
+// Consultation job queue
+export const JOB_QUEUE = {
+  LEASE_SECONDS: 120, // A worker must renew within this window or lose the job
+  HEARTBEAT_MS: 30_000,
+  MAX_ATTEMPTS: 2, // Runs before an abandoned job is finalised by the sweeper
+};
+
+// Per-agent circuit breaker
+export const AGENT_BREAKER = {
+  FAILURE_THRESHOLD: 3, // Consecutive failures that open the breaker
+  BASE_OPEN_MS: 60_000, // First opening; doubles with each consecutive trip
+  MAX_OPEN_MS: 6 * 60 * 60 * 1000,
+  PROBE_TIMEOUT_SECONDS: 120, // A HALF_OPEN probe that never reported back may be retried after this
+  HISTORY_LENGTH: 50,
+};
+
+// Background token refresh
+export const TOKEN_SWEEP = {
+  REFRESH_AHEAD_MS: 30 * 60 * 1000, // Refresh tokens expiring within this window (or already expired)
+  LOCK_SECONDS: 10, // Same lock queryAgent takes before refreshing
+};
+
+// Latency sampling behind the migration triggers
+export const LATENCY_TRACKING = {
+  BUCKET_MS: 60 * 60 * 1000, // One sample list per hour
+  WINDOW_HOURS: 24, // Rolling window for percentiles
+  FLUSH_BATCH_SIZE: 50, // Samples buffered in memory before one write; the rest go when the request ends
+  MAX_BATCHES_PER_BUCKET: 100,
+  MIN_SAMPLES: 20, // Too few samples to judge a p95
+};
@@ -3,7 +3,15 @@
 import { randomUUID } from "crypto";
 import { encrypt, decrypt } from "../crypto";
 import type { DbAdapter } from "./types";
-import { KV_KEYS, type UserRecord } from "./types";
+import { KV_KEYS, type UserRecord, type AgentSettings } from "./types";
+import { createAgentIndexOps, type AgentMatch } from "./agent-index";
+import { createBreakerOps } from "./breaker";
+import { createNotificationOps } from "./notifications";
+import { withRecordLock } from "./record-lock";
+import { isInQuietHours, answerDay } from "../agent-settings";
+
+const LOAD_CHUNK = 50; // Users fetched per mget while filling a candidate list
+const DAILY_COUNT_TTL_SECONDS = 2 * 24 * 60 * 60;
 
 /** Encrypt tokens before storage */
 function encryptTokens(user: UserRecord): UserRecord {
@@ -21,7 +29,34 @@ function decryptTokens(user: UserRecord): UserRecord {
   return { ...user, accessToken, refreshToken };
 }
 
+/** Whether a stored user can be asked right now, daily cap aside */
+function isConsultable(user: UserRecord, now: number): boolean {
+  return (
+    user.consultable &&
+    !user.paused &&
+    !isInQuietHours(user.quietHours, now) &&
+    (!user.circuitBreakerUntil || user.circuitBreakerUntil < now) &&
+    user.tokenExpiry > now
+  );
+}
+
 export function createUserOps(db: DbAdapter) {
+  const agentIndex = createAgentIndexOps(db);
+  const breaker = createBreakerOps(db);
+  const notifications = createNotificationOps(db);
+
+  async function canRejoinPool(userId: string): Promise<boolean> {
+    const record = await breaker.getBreaker(userId);
+    if (record && record.state !== "CLOSED") return false;
+    const pending = await notifications.getNotifications(userId);
+    return !pending.some((n) => n.type === "relogin_required");
+  }
+
+  // Settings, tokens, login and the breaker each write part of the record
+  function withUserLock<T>(userId: string, fn: () => Promise<T>): Promise<T> {
+    return withRecordLock(db, KV_KEYS.user(userId), fn);
+  }
+
   return {
     async upsertUser(data: {
       secondmeId: string;
@@ -36,19 +71,30 @@ export function createUserOps(db: DbAdapter) {
       const existingId = await db.get<string>(KV_KEYS.userBySecondme(data.secondmeId));
 
       if (existingId) {
-        const existing = await db.get<UserRecord>(KV_KEYS.user(existingId));
-        if (existing) {
+        const updated = await withUserLock(existingId, async () => {
+          const existing = await db.get<UserRecord>(KV_KEYS.user(existingId));
+          if (!existing) return undefined;
           const decrypted = decryptTokens(existing);
+          const bioChanged = (data.bio ?? decrypted.bio) !== decrypted.bio;
           decrypted.name = data.name;
           decrypted.avatar = data.avatar;
           decrypted.bio = data.bio ?? decrypted.bio;
           decrypted.accessToken = data.accessToken;
           decrypted.refreshToken = data.refreshToken;
           decrypted.tokenExpiry = now + data.expiresIn * 1000;
-          decrypted.consultable = true;
+          // Logging in lifts a circuit break, but not the owner's own pause
+          decrypted.consultable = !decrypted.paused;
           decrypted.circuitBreakerUntil = undefined;
           await db.set(KV_KEYS.user(existingId), encryptTokens(decrypted));
-          return decrypted;
+          if (decrypted.consultable) await db.sadd(KV_KEYS.consultableUsers(), existingId);
+          return { user: decrypted, bioChanged };
+        });
+        if (updated) {
+          // Closing the breaker writes the record too, so it runs after the lock is released
+          await breaker.reset(existingId, "owner logged in");
+          await notifications.clearNotifications(existingId, "relogin_required");
+          if (updated.bioChanged) await agentIndex.indexAgent(updated.user);
+          return updated.user;
         }
       }
 
@@ -68,6 +114,7 @@ export function createUserOps(db: DbAdapter) {
       await db.set(KV_KEYS.user(user.id), encryptTokens(user));
       await db.set(KV_KEYS.userBySecondme(data.secondmeId), user.id);
       await db.sadd(KV_KEYS.consultableUsers(), user.id);
+      await agentIndex.indexAgent(user);
       return user;
     },
 
@@ -83,34 +130,107 @@ export function createUserOps(db: DbAdapter) {
       return user ? decryptTokens(user) : undefined;
     },
 
-    async getConsultableUsers(excludeUserId: string): Promise<UserRecord[]> {
+    /**
+     * Consultable users other than the asker. `preferredIds` are loaded first, in
+     * order; with a `limit`, the rest of the pool is only read until it is filled.
+     */
+    async getConsultableUsers(
+      excludeUserId: string,
+      options: { preferredIds?: string[]; limit?: number } = {}
+    ): Promise<UserRecord[]> {
       const now = Date.now();
       const userIds = await db.smembers(KV_KEYS.consultableUsers());
       if (!userIds || userIds.length === 0) return [];
 
+      const pool = new Set(userIds);
+      const preferred = (options.preferredIds ?? []).filter((id) => pool.has(id));
+      const ordered = [...new Set([...preferred, ...userIds])];
+      const limit = options.limit ?? Infinity;
+
+      const day = answerDay(now);
+
       const users: UserRecord[] = [];
-      for (const userId of userIds) {
-        const user = await db.get<UserRecord>(KV_KEYS.user(userId));
-        if (
-          user &&
-          user.id !== excludeUserId &&
-          user.consultable &&
-          (!user.circuitBreakerUntil || user.circuitBreakerUntil < now) &&
-          user.tokenExpiry > now
-        ) {
-          users.push(decryptTokens(user));
+      for (let i = 0; i < ordered.length && users.length < limit; i += LOAD_CHUNK) {
+        const chunk = ordered.slice(i, i + LOAD_CHUNK);
+        const records = await db.mget<UserRecord>(chunk.map((id) => KV_KEYS.user(id)));
+        const eligible = records.filter(
+          (user): user is UserRecord => !!user && user.id !== excludeUserId && isConsultable(user, now)
+        );
+
+        // Owners with a daily cap: drop agents that have used it up
+        const capped = eligible.filter((user) => user.dailyAnswerCap);
+        const counts = capped.length
+          ? await db.mget<number>(capped.map((user) => KV_KEYS.agentDailyAnswers(user.id, day)))
+          : [];
+        const exhausted = new Set(
+          capped.filter((user, n) => (counts[n] ?? 0) >= user.dailyAnswerCap!).map((user) => user.id)
+        );
+
+        for (const user of eligible) {
+          if (!exhausted.has(user.id)) users.push(decryptTokens(user));
         }
       }
-      return users;
+      return users.slice(0, limit);
     },
 
-    async circuitBreakUser(userId: string, durationMs: number = 30 * 60 * 1000): Promise<void> {
-      const user = await db.get<UserRecord>(KV_KEYS.user(userId));
-      if (user) {
-        user.circuitBreakerUntil = Date.now() + durationMs;
-        await db.set(KV_KEYS.user(userId), user);
-        await db.srem(KV_KEYS.consultableUsers(), userId);
+    /** Pool members whose access token expires before `cutoff` (Unix timestamp ms) */
+    async getUsersWithTokensExpiringBefore(cutoff: number): Promise<UserRecord[]> {
+      const userIds = await db.smembers(KV_KEYS.consultableUsers());
+      const users: UserRecord[] = [];
+      for (let i = 0; i < userIds.length; i += LOAD_CHUNK) {
+        const chunk = userIds.slice(i, i + LOAD_CHUNK);
+        const records = await db.mget<UserRecord>(chunk.map((id) => KV_KEYS.user(id)));
+        for (const user of records) {
+          if (user && user.tokenExpiry < cutoff) users.push(decryptTokens(user));
+        }
       }
+      return users;
+    },
+
+    /** Agents whose tags and bio best match the question, from the relevance index */
+    async searchAgents(question: string, limit: number): Promise<AgentMatch[]> {
+      // Agents created before the index existed are indexed on first use
+      await agentIndex.backfill(async () => {
+        const userIds = await db.smembers(KV_KEYS.consultableUsers());
+        const records = await db.mget<UserRecord>(userIds.map((id) => KV_KEYS.user(id)));
+        return records.filter((user): user is UserRecord => !!user);
+      });
+      return agentIndex.search(question, limit);
+    },
+
+    /**
+     * Apply an owner's settings; tag changes re-index the agent, pausing leaves the pool.
+     * Unpausing rejoins only a healthy agent: an open breaker or a dead refresh token
+     * keeps it out until the breaker recovers or the owner logs in again.
+     */
+    async updateAgentSettings(userId: string, settings: Partial<AgentSettings>): Promise<UserRecord | undefined> {
+      // Re-read under the lock so a token refresh or breaker write in between is kept
+      const user = await withUserLock(userId, async () => {
+        const current = await db.get<UserRecord>(KV_KEYS.user(userId));
+        if (!current) return undefined;
+        Object.assign(current, settings);
+
+        if (settings.paused !== undefined) {
+          current.consultable = !settings.paused;
+          if (settings.paused) await db.srem(KV_KEYS.consultableUsers(), userId);
+          else if (await canRejoinPool(userId)) await db.sadd(KV_KEYS.consultableUsers(), userId);
+        }
+        await db.set(KV_KEYS.user(userId), current);
+        return current;
+      });
+      if (!user) return undefined;
+      if (settings.tags !== undefined) await agentIndex.indexAgent(user);
+      return decryptTokens(user);
+    },
+
+    /** Count one consultation request against the agent's daily cap */
+    async recordAgentRequest(agentId: string): Promise<void> {
+      const key = KV_KEYS.agentDailyAnswers(agentId, answerDay());
+      if ((await db.incr(key)) === 1) await db.expire(key, DAILY_COUNT_TTL_SECONDS);
+    },
+
+    async getAgentRequestsToday(agentId: string): Promise<number> {
+      return (await db.get<number>(KV_KEYS.agentDailyAnswers(agentId, answerDay()))) ?? 0;
     },
 
     async updateUserTokens(
@@ -119,14 +239,16 @@ export function createUserOps(db: DbAdapter) {
       refreshToken: string,
       expiresIn: number
     ): Promise<void> {
-      const user = await db.get<UserRecord>(KV_KEYS.user(userId));
-      if (user) {
-        const updated = decryptTokens(user);
-        updated.accessToken = accessToken;
-        updated.refreshToken = refreshToken;
-        updated.tokenExpiry = Date.now() + expiresIn * 1000;
-        await db.set(KV_KEYS.user(userId), encryptTokens(updated));
-      }
+      await withUserLock(userId, async () => {
+        const user = await db.get<UserRecord>(KV_KEYS.user(userId));
+        if (user) {
+          const updated = decryptTokens(user);
+          updated.accessToken = accessToken;
+          updated.refreshToken = refreshToken;
+          updated.tokenExpiry = Date.now() + expiresIn * 1000;
+          await db.set(KV_KEYS.user(userId), encryptTokens(updated));
+        }
+      });
     },
   };
 }
@@ -1,3 +1,3 @@
 // Re-export from modular engine layer for backward compatibility
-export { runConsultation } from "./engine/index";
-export type { ConsultationResult, ReportSummary } from "./engine/index";
+export { runConsultation, processConsultationJob, runWorker, sweepStaleJobs, runFollowup, runDirectedFollowup, refreshSummary, publishEvent, subscribeEvents, probeTrippedAgents, sweepExpiringTokens } from "./engine/index";
+export type { ConsultationResult, ReportSummary, FollowupResult, ConsultationEvent, ProbeReport, TokenSweepReport } from "./engine/index";
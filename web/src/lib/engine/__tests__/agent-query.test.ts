@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { getEventListeners } from "events";
+import { upsertUser, getAgentBreaker, getNotifications, type UserRecord } from "@/lib/db";
+import { chatWithAgent, refreshAccessToken, TokenRefreshError } from "@/lib/secondme";
+import { queryAgent, handleRefreshFailure } from "@/lib/engine/agent-query";
+import { resetTestDb } from "@/test/db";
+
+vi.mock("@/lib/secondme", async (importOriginal) => ({
+  TokenRefreshError: (await importOriginal<typeof import("@/lib/secondme")>()).TokenRefreshError,
+  getUserInfo: vi.fn(),
+  refreshAccessToken: vi.fn(),
+  chatWithAgent: vi.fn(),
+}));
+
+describe("Agent Query", () => {
+  const mockChat = vi.mocked(chatWithAgent);
+  const mockRefresh = vi.mocked(refreshAccessToken);
+  let agent: UserRecord;
+
+  beforeEach(async () => {
+    resetTestDb();
+    mockChat.mockReset();
+    mockRefresh.mockReset();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    agent = await upsertUser({
+      secondmeId: "sm-query",
+      name: "Query",
+      avatar: "",
+      accessToken: "token",
+      refreshToken: "refresh",
+      expiresIn: 7200,
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    resetTestDb();
+  });
+
+  it("should trip the breaker and ask for a login only when the refresh token is rejected", async () => {
+    await handleRefreshFailure(agent.id, new Error("fetch failed"));
+    expect(await getAgentBreaker(agent.id)).toMatchObject({ state: "CLOSED", failures: 1 });
+    expect(await getNotifications(agent.id)).toEqual([]);
+
+    await handleRefreshFailure(agent.id, new TokenRefreshError("Token refresh failed: invalid refresh token"));
+    expect((await getAgentBreaker(agent.id))?.state).toBe("OPEN");
+    expect((await getNotifications(agent.id)).map((n) => n.type)).toEqual(["relogin_required"]);
+  });
+
+  it("should not bench an agent whose token refresh hit a network error", async () => {
+    mockRefresh.mockRejectedValue(new Error("fetch failed"));
+
+    const result = await queryAgent({ ...agent, tokenExpiry: Date.now() }, "问题", "提示");
+
+    expect(result).toBeNull();
+    expect(mockChat).not.toHaveBeenCalled();
+    expect((await getAgentBreaker(agent.id))?.state).toBe("CLOSED");
+  });
+
+  it("should detach from the shared consultation signal whether the call succeeds or fails", async () => {
+    const controller = new AbortController();
+    mockChat.mockResolvedValueOnce({ text: "回答", sessionId: "s1" });
+    mockChat.mockRejectedValueOnce(new Error("500 Internal Server Error"));
+
+    expect(await queryAgent(agent, "问题", "提示", undefined, controller.signal)).not.toBeNull();
+    expect(await queryAgent(agent, "问题", "提示", undefined, controller.signal)).toBeNull();
+
+    expect(getEventListeners(controller.signal, "abort")).toHaveLength(0);
+  });
+});
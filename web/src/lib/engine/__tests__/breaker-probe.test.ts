@@ -0,0 +1,72 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  upsertUser,
+  getConsultableUsers,
+  getAgentBreaker,
+  recordAgentFailure,
+  type UserRecord,
+} from "@/lib/db";
+import { AGENT_BREAKER } from "@/lib/db/types";
+import { getUserInfo } from "@/lib/secondme";
+import { probeTrippedAgents } from "@/lib/engine/breaker-probe";
+import { resetTestDb } from "@/test/db";
+
+vi.mock("@/lib/secondme", async (importOriginal) => ({
+  TokenRefreshError: (await importOriginal<typeof import("@/lib/secondme")>()).TokenRefreshError,
+  getUserInfo: vi.fn(),
+  refreshAccessToken: vi.fn(),
+  chatWithAgent: vi.fn(),
+}));
+
+describe("Breaker Probing", () => {
+  const mockUserInfo = vi.mocked(getUserInfo);
+  let agent: UserRecord;
+
+  beforeEach(async () => {
+    resetTestDb();
+    mockUserInfo.mockReset();
+
+    agent = await upsertUser({
+      secondmeId: "sm-probe",
+      name: "Probe",
+      avatar: "",
+      accessToken: "token",
+      refreshToken: "refresh",
+      expiresIn: 7200,
+    });
+    await recordAgentFailure(agent.id, "401 Unauthorized", { trip: true });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    resetTestDb();
+  });
+
+  async function inPool(): Promise<boolean> {
+    return (await getConsultableUsers("asker")).some((u) => u.id === agent.id);
+  }
+
+  it("should leave agents alone until their backoff has passed", async () => {
+    expect(await probeTrippedAgents()).toEqual({ probed: 0, recovered: 0 });
+    expect(mockUserInfo).not.toHaveBeenCalled();
+    expect(await inPool()).toBe(false);
+  });
+
+  it("should return an agent whose probe succeeds to the pool", async () => {
+    mockUserInfo.mockResolvedValue({} as Awaited<ReturnType<typeof getUserInfo>>);
+    vi.useFakeTimers({ now: Date.now() + AGENT_BREAKER.BASE_OPEN_MS + 1, toFake: ["Date"] });
+
+    expect(await probeTrippedAgents()).toEqual({ probed: 1, recovered: 1 });
+    expect(mockUserInfo).toHaveBeenCalledWith("token");
+    expect(await inPool()).toBe(true);
+  });
+
+  it("should back off further when the probe fails", async () => {
+    mockUserInfo.mockRejectedValue(new Error("Get user info failed: 401"));
+    vi.useFakeTimers({ now: Date.now() + AGENT_BREAKER.BASE_OPEN_MS + 1, toFake: ["Date"] });
+
+    expect(await probeTrippedAgents()).toEqual({ probed: 1, recovered: 0 });
+    expect(await getAgentBreaker(agent.id)).toMatchObject({ state: "OPEN", trips: 2 });
+    expect(await inPool()).toBe(false);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  upsertUser,
+  createConsultation,
+  getConsultation,
+  cancelConsultation,
+  getAgentResponses,
+} from "@/lib/db";
+import { queryAgent } from "@/lib/engine/agent-query";
+import { runConsultation } from "@/lib/engine/orchestrator";
+import { watchCancellation } from "@/lib/engine/cancellation";
+import { resetTestDb } from "@/test/db";
+
+vi.mock("@/lib/engine/agent-query", () => ({ queryAgent: vi.fn() }));
+vi.mock("@/lib/act", () => ({
+  triageHealthQuestion: vi.fn(async () => ({ intent: "general_consultation" })),
+  getAdjustedSystemPrompt: vi.fn((prompt: string) => prompt),
+}));
+
+describe("Consultation Cancellation", () => {
+  const mockQuery = vi.mocked(queryAgent);
+
+  beforeEach(async () => {
+    resetTestDb();
+    mockQuery.mockReset();
+
+    for (const n of ["a", "b"]) {
+      await upsertUser({
+        secondmeId: `sm-${n}`,
+        name: `Agent ${n}`,
+        avatar: "",
+        accessToken: `token-${n}`,
+        refreshToken: `refresh-${n}`,
+        expiresIn: 7200,
+      });
+    }
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    resetTestDb();
+  });
+
+  it("should abort the watch signal once the consultation is cancelled", async () => {
+    const consultation = await createConsultation("asker-1", "最近总是失眠怎么办");
+    const watch = watchCancellation(consultation.id, 10);
+
+    await cancelConsultation(consultation.id, "已由提问者取消");
+    await new Promise((r) => setTimeout(r, 50));
+
+    expect(watch.signal.aborted).toBe(true);
+    watch.stop();
+  });
+
+  it("should not run a consultation cancelled while queued", async () => {
+    const consultation = await createConsultation("asker-1", "最近总是失眠怎么办");
+    await cancelConsultation(consultation.id, "已由提问者取消");
+
+    const result = await runConsultation("asker-1", "最近总是失眠怎么办", undefined, consultation.id);
+
+    expect(result.status).toBe("CANCELLED");
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+
+  it("should abort outstanding agent calls and skip the summary", async () => {
+    const consultation = await createConsultation("asker-1", "最近总是失眠怎么办");
+    const aborted: boolean[] = [];
+    // Agents only answer once their call is aborted
+    mockQuery.mockImplementation(
+      (_user, _question, _prompt, _session, signal) =>
+        new Promise((resolve) => {
+          signal?.addEventListener("abort", () => {
+            aborted.push(true);
+            resolve(null);
+          });
+        })
+    );
+
+    const run = runConsultation("asker-1", "最近总是失眠怎么办", undefined, consultation.id);
+    await vi.waitFor(() => expect(mockQuery).toHaveBeenCalledTimes(2));
+    await cancelConsultation(consultation.id, "已由提问者取消");
+
+    const result = await run;
+
+    expect(result.status).toBe("CANCELLED");
+    expect(aborted).toHaveLength(2);
+    const record = await getConsultation(consultation.id);
+    expect(record?.status).toBe("CANCELLED");
+    expect(record?.summary).toBeNull();
+    expect(await getAgentResponses(consultation.id)).toEqual([]);
+  });
+});
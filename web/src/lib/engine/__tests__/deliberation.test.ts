@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  upsertUser,
+  createConsultation,
+  getAgentResponses,
+  type AgentResponseRecord,
+  type UserRecord,
+} from "@/lib/db";
+import { queryAgent } from "@/lib/engine/agent-query";
+import { runDeliberation } from "@/lib/engine/reaction";
+import { ConsultationEmitter } from "@/lib/engine/emitter";
+import { MAX_DELIBERATION_ROUNDS } from "@/lib/engine/prompts";
+import { resetTestDb } from "@/test/db";
+
+vi.mock("@/lib/engine/agent-query", () => ({ queryAgent: vi.fn() }));
+
+const INITIAL = [
+  "一定要坚持每天固定作息时间。减少了晚上的咖啡因摄入。大概两周后有改善。",
+  "最好坚持每天固定作息时间。睡前一小时不看手机。一个月左右睡眠明显变好。",
+];
+
+describe("Deliberation Rounds", () => {
+  const mockQuery = vi.mocked(queryAgent);
+  let agents: UserRecord[];
+  let consultationId: string;
+
+  beforeEach(async () => {
+    resetTestDb();
+    mockQuery.mockReset();
+
+    agents = await Promise.all(
+      ["a", "b"].map((n) =>
+        upsertUser({
+          secondmeId: `sm-${n}`,
+          name: `Agent ${n}`,
+          avatar: "",
+          accessToken: `token-${n}`,
+          refreshToken: `refresh-${n}`,
+          expiresIn: 7200,
+        })
+      )
+    );
+    consultationId = (await createConsultation("asker-1", "最近总是失眠怎么办")).id;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    resetTestDb();
+  });
+
+  function initial(): AgentResponseRecord[] {
+    return agents.map((agent, i) => ({
+      id: `r-${i}`,
+      consultationId,
+      responderId: agent.id,
+      sessionId: `session-${i}`,
+      rawResponse: INITIAL[i],
+      keyPoints: [],
+      isValid: true,
+      latencyMs: 1000,
+      createdAt: Date.now(),
+      round: "initial",
+    }));
+  }
+
+  it("should feed clustered points and stop once positions settle", async () => {
+    // Round 1 changes every answer; round 2 repeats it
+    mockQuery.mockImplementation(async (user, _q, prompt) => {
+      const text = `${user.name} 看了大家的讨论，仍然认为固定作息最关键，另外可以试试白天晒太阳。`;
+      return { text, sessionId: `s-${user.id}-${prompt.length}`, latencyMs: 100 };
+    });
+
+    const trace = await runDeliberation(
+      consultationId, "最近总是失眠怎么办", initial(), agents, new ConsultationEmitter()
+    );
+
+    expect(trace.converged).toBe(true);
+    expect(trace.rounds.map((r) => r.round)).toEqual([0, 1, 2]);
+    expect(trace.rounds[2].similarity).toBe(1);
+    expect(trace.rounds[0].consensus[0]).toMatchObject({ agentCount: 2, totalAgents: 2 });
+
+    const prompt = mockQuery.mock.calls[0][2];
+    expect(prompt).toContain("大家的共识");
+    expect(prompt).toContain("（2/2 位认同）");
+    // Agents continue their own sessions
+    expect(mockQuery.mock.calls[0][3]).toBe("session-0");
+
+    const reactions = (await getAgentResponses(consultationId)).filter((r) => r.round === "reaction");
+    expect(reactions.map((r) => r.roundIndex).sort()).toEqual([1, 1, 2, 2]);
+  });
+
+  it("should stop after the configured number of rounds when positions keep moving", async () => {
+    const topics = ["散步", "泡脚", "冥想", "听音乐", "喝牛奶", "做瑜伽"];
+    let call = 0;
+    mockQuery.mockImplementation(async (user) => {
+      const topic = topics[call++ % topics.length];
+      return { text: `这一轮${user.name}想补充${topic}的经验${call}`.repeat(2), sessionId: `s-${call}`, latencyMs: 100 };
+    });
+
+    const trace = await runDeliberation(
+      consultationId, "最近总是失眠怎么办", initial(), agents, new ConsultationEmitter()
+    );
+
+    expect(trace.converged).toBe(false);
+    expect(trace.rounds).toHaveLength(MAX_DELIBERATION_ROUNDS + 1);
+  });
+
+  it("should end on a round nobody answers without calling it converged", async () => {
+    mockQuery.mockResolvedValue(null);
+    const events: string[] = [];
+    const emitter = new ConsultationEmitter();
+    emitter.on((event) => events.push(event.type));
+
+    const trace = await runDeliberation(consultationId, "最近总是失眠怎么办", initial(), agents, emitter);
+
+    expect(trace.converged).toBe(false);
+    expect(trace.rounds.slice(1)).toEqual([{ round: 1, consensus: [], failed: true }]);
+    expect(events).toContain("reaction:failed");
+    expect(events).not.toContain("reaction:complete");
+    expect(mockQuery).toHaveBeenCalledTimes(agents.length);
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { ConsultationEmitter } from "../emitter";
+import { createDeltaStreamer } from "../delta-stream";
+import type { ConsultationEvent } from "../events";
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+function collect() {
+  const emitter = new ConsultationEmitter();
+  const events: ConsultationEvent[] = [];
+  emitter.on((e) => events.push(e));
+  return { emitter, events };
+}
+
+describe("createDeltaStreamer", () => {
+  it("coalesces chunks per agent within the flush window", () => {
+    vi.useFakeTimers();
+    const { emitter, events } = collect();
+    const deltas = createDeltaStreamer(emitter, "initial");
+    const a = deltas.forAgent("a");
+    const b = deltas.forAgent("b");
+
+    a("我之前");
+    a("也遇到过");
+    b("没有相关经验");
+    expect(events).toHaveLength(0);
+
+    vi.advanceTimersByTime(250);
+    expect(events).toEqual([
+      { type: "agent:delta", agentId: "a", round: "initial", delta: "我之前也遇到过" },
+      { type: "agent:delta", agentId: "b", round: "initial", delta: "没有相关经验" },
+    ]);
+  });
+
+  it("flush emits buffered text immediately and only once", () => {
+    vi.useFakeTimers();
+    const { emitter, events } = collect();
+    const deltas = createDeltaStreamer(emitter, "reaction");
+    deltas.forAgent("a")("同意");
+
+    deltas.flush();
+    vi.advanceTimersByTime(1000);
+
+    expect(events).toEqual([{ type: "agent:delta", agentId: "a", round: "reaction", delta: "同意" }]);
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import { getConsultationEventsAfter } from "@/lib/db";
+import { publishEvent, subscribeEvents } from "@/lib/engine/event-bus";
+import { resetTestDb } from "@/test/db";
+
+describe("Consultation Event Bus", () => {
+  beforeEach(() => {
+    resetTestDb();
+  });
+
+  afterEach(() => {
+    resetTestDb();
+  });
+
+  it("should log events and push them to local subscribers with their ids", async () => {
+    const received: number[] = [];
+    const unsubscribe = subscribeEvents("c1", (entry) => received.push(entry.id));
+
+    await publishEvent("c1", { type: "validation:complete", validCount: 1, totalCount: 2 });
+    await publishEvent("c2", { type: "consultation:cancelled" });
+    await publishEvent("c1", { type: "consultation:cancelled" });
+    unsubscribe();
+    await publishEvent("c1", { type: "consultation:done", status: "DONE" });
+
+    expect(received).toEqual([1, 2]);
+    expect((await getConsultationEventsAfter("c1", 0)).map((e) => e.id)).toEqual([1, 2, 3]);
+  });
+});
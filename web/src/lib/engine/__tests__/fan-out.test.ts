@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  upsertUser,
+  createConsultation,
+  getConsultation,
+  type UserRecord,
+} from "@/lib/db";
+import { queryAgent } from "@/lib/engine/agent-query";
+import { runConsultation } from "@/lib/engine/orchestrator";
+import { ConsultationEmitter } from "@/lib/engine/emitter";
+import type { ConsultationEvent } from "@/lib/engine/events";
+import { resetTestDb } from "@/test/db";
+
+vi.mock("@/lib/engine/agent-query", () => ({ queryAgent: vi.fn() }));
+vi.mock("@/lib/act", () => ({
+  triageHealthQuestion: vi.fn(async () => ({ intent: "general_consultation" })),
+  getAdjustedSystemPrompt: vi.fn((prompt: string) => prompt),
+}));
+
+const ANSWERS = [
+  "我之前失眠时坚持固定作息，并减少了晚上的咖啡因摄入，大概两周后有改善。",
+  "我的经验是睡前一小时不看手机，配合散步和泡脚，一个月左右睡眠质量明显变好。",
+  "家里老人失眠去医院睡眠科做了监测，医生建议先做认知行为治疗，效果还可以。",
+  "我试过白天多晒太阳、午睡不超过二十分钟，晚上入睡明显快了不少。",
+  "朋友推荐了正念冥想的音频，每晚听十五分钟，坚持三周后焦虑和失眠都有缓解。",
+];
+
+describe("Wave-based Fan-out", () => {
+  const mockQuery = vi.mocked(queryAgent);
+  let agents: UserRecord[];
+
+  beforeEach(async () => {
+    resetTestDb();
+    mockQuery.mockReset();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    agents = [];
+    for (let n = 0; n < 8; n++) {
+      agents.push(
+        await upsertUser({
+          secondmeId: `sm-${n}`,
+          name: `Agent ${n}`,
+          avatar: "",
+          accessToken: `token-${n}`,
+          refreshToken: `refresh-${n}`,
+          expiresIn: 7200,
+        })
+      );
+    }
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    resetTestDb();
+  });
+
+  /** Agents listed in `answering` reply with a distinct valid answer, the rest time out */
+  function answerFrom(answering: Set<string>) {
+    let next = 0;
+    mockQuery.mockImplementation(async (user) =>
+      answering.has(user.id) ? { text: ANSWERS[next++], sessionId: `s-${user.id}`, latencyMs: 100 } : null
+    );
+  }
+
+  async function run() {
+    const consultation = await createConsultation("asker-1", "最近总是失眠怎么办");
+    const emitter = new ConsultationEmitter();
+    const events: ConsultationEvent[] = [];
+    emitter.on((e) => events.push(e));
+    const result = await runConsultation("asker-1", "最近总是失眠怎么办", emitter, consultation.id);
+    return { result, events, record: await getConsultation(consultation.id) };
+  }
+
+  it("should stop after the first wave when it yields enough valid answers", async () => {
+    answerFrom(new Set(agents.map((a) => a.id)));
+
+    const { result, events, record } = await run();
+
+    expect(mockQuery).toHaveBeenCalledTimes(5);
+    expect(events.filter((e) => e.type === "wave:start")).toHaveLength(1);
+    expect(record?.agentCount).toBe(5);
+    expect(result.status).toBe("DONE");
+  });
+
+  it("should recruit another wave when the first falls short", async () => {
+    const queried: string[] = [];
+    let next = 0;
+    mockQuery.mockImplementation(async (user) => {
+      queried.push(user.id);
+      // Only one agent in the first wave answers; everyone after does
+      const answers = queried.length === 1 || queried.length > 5;
+      return answers ? { text: ANSWERS[next++], sessionId: `s-${user.id}`, latencyMs: 100 } : null;
+    });
+
+    const { result, events, record } = await run();
+
+    expect(events.filter((e) => e.type === "wave:start")).toEqual([
+      { type: "wave:start", wave: 1, agentCount: 5 },
+      { type: "wave:start", wave: 2, agentCount: 3 },
+    ]);
+    expect(events).toContainEqual({ type: "wave:complete", wave: 2, validCount: 3, totalValid: 4 });
+    expect(new Set(queried).size).toBe(8);
+    expect(record?.agentCount).toBe(8);
+    expect(result.status).toBe("DONE");
+  });
+
+  it("should stop when the agent pool runs out", async () => {
+    answerFrom(new Set([agents[0].id]));
+
+    const { result, events, record } = await run();
+
+    expect(mockQuery).toHaveBeenCalledTimes(8);
+    expect(events.filter((e) => e.type === "wave:start")).toHaveLength(2);
+    expect(record?.agentCount).toBe(8);
+    expect(result.status).toBe("PARTIAL");
+  });
+});
@@ -0,0 +1,236 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  upsertUser,
+  createConsultation,
+  getConsultation,
+  updateConsultation,
+  addAgentResponse,
+  getAgentResponses,
+  retractAgentResponse,
+  type AgentResponseRecord,
+  type UserRecord,
+} from "@/lib/db";
+import { queryAgent } from "@/lib/engine/agent-query";
+import { runFollowup, runDirectedFollowup, mergeThreadByAgent, refreshSummary } from "@/lib/engine/followup";
+import { toResponseViews, anonymiseQuestion } from "@/lib/consultation-thread";
+import { resetTestDb } from "@/test/db";
+
+vi.mock("@/lib/engine/agent-query", () => ({ queryAgent: vi.fn() }));
+
+const ANSWER_A = "我之前失眠时坚持固定作息，并减少了晚上的咖啡因摄入，大概两周后有改善。";
+const ANSWER_B = "我的经验是睡前一小时不看手机，配合散步和泡脚，一个月左右睡眠质量明显变好。";
+
+describe("Follow-up Rounds", () => {
+  const mockQuery = vi.mocked(queryAgent);
+  let agents: UserRecord[];
+
+  beforeEach(async () => {
+    resetTestDb();
+    mockQuery.mockReset();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    agents = await Promise.all(
+      ["a", "b", "c"].map((n) =>
+        upsertUser({
+          secondmeId: `sm-${n}`,
+          name: `Agent ${n}`,
+          avatar: "",
+          accessToken: `token-${n}`,
+          refreshToken: `refresh-${n}`,
+          expiresIn: 7200,
+        })
+      )
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    resetTestDb();
+  });
+
+  function initial(consultationId: string, agent: UserRecord, text: string, isValid = true): AgentResponseRecord {
+    return {
+      id: `r-${agent.id}`,
+      consultationId,
+      responderId: agent.id,
+      sessionId: `session-${agent.secondmeId}`,
+      rawResponse: text,
+      keyPoints: [],
+      isValid,
+      latencyMs: 1000,
+      createdAt: Date.now(),
+    };
+  }
+
+  async function finishedConsultation() {
+    const consultation = await createConsultation("asker-1", "最近总是失眠怎么办");
+    await addAgentResponse(initial(consultation.id, agents[0], ANSWER_A));
+    await addAgentResponse(initial(consultation.id, agents[1], ANSWER_B));
+    await addAgentResponse(initial(consultation.id, agents[2], "不知道", false));
+    await updateConsultation(consultation.id, { status: "DONE", agentCount: 3 });
+    return (await getConsultation(consultation.id))!;
+  }
+
+  it("should continue each valid responder's session and store a follow-up round", async () => {
+    mockQuery.mockImplementation(async (user, _question, _prompt, sessionId) => ({
+      text: `${user.name} 补充：我当时大概坚持了三周左右才见效，期间也记录了每天的入睡时间。`,
+      sessionId: sessionId!,
+      latencyMs: 800,
+    }));
+    const consultation = await finishedConsultation();
+
+    const result = await runFollowup(consultation, "你们大概多久见效？");
+
+    expect(mockQuery).toHaveBeenCalledTimes(2);
+    expect(mockQuery.mock.calls.map((c) => c[3]).sort()).toEqual(["session-sm-a", "session-sm-b"]);
+    expect(mockQuery.mock.calls[0][2]).toContain("最近总是失眠怎么办");
+
+    expect(result.followupIndex).toBe(1);
+    expect(result.responses).toHaveLength(2);
+    expect(result.responses.every((r) => r.round === "followup" && r.roundIndex === 1)).toBe(true);
+
+    const updated = await getConsultation(consultation.id);
+    expect(updated?.followups).toEqual([
+      expect.objectContaining({ index: 1, question: "你们大概多久见效？" }),
+    ]);
+    expect(updated?.summary).not.toBeNull();
+  });
+
+  it("should number successive follow-ups and keep earlier rounds", async () => {
+    let n = 0;
+    mockQuery.mockImplementation(async (_user, _question, _prompt, sessionId) => ({
+      text: `第 ${++n} 条补充：坚持记录睡眠日记很有帮助，我每天都会写下入睡和醒来的时间。`,
+      sessionId: sessionId!,
+      latencyMs: 800,
+    }));
+    const consultation = await finishedConsultation();
+
+    await runFollowup(consultation, "你们大概多久见效？");
+    const second = await runFollowup((await getConsultation(consultation.id))!, "有没有副作用？");
+
+    expect(second.followupIndex).toBe(2);
+    const responses = await getAgentResponses(consultation.id);
+    expect(responses.filter((r) => r.round === "initial")).toHaveLength(3);
+    expect(responses.filter((r) => r.roundIndex === 1)).toHaveLength(2);
+    expect(responses.filter((r) => r.roundIndex === 2)).toHaveLength(2);
+  });
+
+  it("should record a failed agent as an invalid follow-up answer", async () => {
+    mockQuery.mockResolvedValueOnce(null).mockResolvedValueOnce({
+      text: ANSWER_B + "另外我还会在睡前听一些白噪音。",
+      sessionId: "session-sm-b",
+      latencyMs: 900,
+    });
+    const consultation = await finishedConsultation();
+
+    const result = await runFollowup(consultation, "你们大概多久见效？");
+
+    expect(result.responses.filter((r) => r.isValid)).toHaveLength(1);
+    expect(result.responses.find((r) => !r.isValid)?.invalidReason).toBe("请求失败或超时");
+  });
+
+  describe("runDirectedFollowup", () => {
+    it("should ask only the target agent and attach the reply to its answer", async () => {
+      mockQuery.mockResolvedValue({
+        text: "我当时在社区医院做的睡眠评估，挂号加检查一共大约 300 到 500 元。",
+        sessionId: "session-sm-a",
+        latencyMs: 700,
+      });
+      const consultation = await finishedConsultation();
+      const before = (await getConsultation(consultation.id))!.summary;
+
+      const reply = await runDirectedFollowup(
+        initial(consultation.id, agents[0], ANSWER_A),
+        "具体花了多少钱？"
+      );
+
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(mockQuery.mock.calls[0][0].id).toBe(agents[0].id);
+      expect(mockQuery.mock.calls[0][3]).toBe("session-sm-a");
+      expect(reply).toMatchObject({
+        round: "directed",
+        parentResponseId: `r-${agents[0].id}`,
+        directedQuestion: "具体花了多少钱？",
+        isValid: true,
+      });
+
+      const stored = (await getAgentResponses(consultation.id)).find((r) => r.id === reply.id);
+      expect(stored?.round).toBe("directed");
+      expect((await getConsultation(consultation.id))!.summary).toEqual(before);
+    });
+
+    it("should store an answer that fails validation as invalid", async () => {
+      mockQuery.mockResolvedValue({ text: "不清楚", sessionId: "session-sm-a", latencyMs: 500 });
+      const consultation = await finishedConsultation();
+
+      const reply = await runDirectedFollowup(
+        initial(consultation.id, agents[0], ANSWER_A),
+        "具体花了多少钱？"
+      );
+
+      expect(reply.isValid).toBe(false);
+      expect(reply.invalidReason).toBeTruthy();
+      const views = toResponseViews(await getAgentResponses(consultation.id));
+      expect(views.find((v) => v.id === reply.id)?.rawResponse).toBeUndefined();
+    });
+  });
+
+  it("should merge an agent's rounds into one record for the summary", () => {
+    const thread: AgentResponseRecord[] = [
+      { ...initial("c1", agents[0], ANSWER_A), round: "initial" },
+      { ...initial("c1", agents[0], "补充一"), id: "f1", round: "followup", roundIndex: 1 },
+      { ...initial("c1", agents[1], ANSWER_B), round: "initial" },
+      { ...initial("c1", agents[1], "单独追问的回复"), id: "d1", round: "directed", parentResponseId: "r-b" },
+    ];
+
+    const merged = mergeThreadByAgent(thread);
+
+    expect(merged).toHaveLength(2);
+    expect(merged[0].rawResponse).toBe(`${ANSWER_A}\n补充一`);
+  });
+
+  it("should label agents anonymously and consistently across rounds", () => {
+    const thread: AgentResponseRecord[] = [
+      { ...initial("c1", agents[0], ANSWER_A), createdAt: 1, round: "initial" },
+      { ...initial("c1", agents[1], ANSWER_B), createdAt: 2, round: "initial" },
+      { ...initial("c1", agents[0], "补充一"), id: "f1", createdAt: 3, round: "followup", roundIndex: 1 },
+    ];
+
+    const views = toResponseViews(thread);
+
+    expect(views.map((v) => v.agentLabel)).toEqual(["代理 1", "代理 2", "代理 1"]);
+    expect(views.some((v) => "responderId" in v)).toBe(false);
+  });
+
+  it("should withhold a retracted answer's text, and its directed replies, from the asker", () => {
+    const views = toResponseViews([
+      { ...initial("c1", agents[0], ANSWER_A), round: "initial", retracted: true },
+      { ...initial("c1", agents[0], "单独追问的回复"), id: "d1", round: "directed", parentResponseId: `r-${agents[0].id}` },
+    ]);
+
+    expect(views[0]).toMatchObject({ retracted: true, isValid: true, keyPoints: [] });
+    expect(views[0].rawResponse).toBeUndefined();
+    expect(views[1]).toMatchObject({ retracted: true, keyPoints: [] });
+    expect(views[1].rawResponse).toBeUndefined();
+  });
+
+  it("should rebuild the summary without a retracted answer", async () => {
+    const consultation = await finishedConsultation();
+    await refreshSummary(consultation);
+    expect(JSON.stringify((await getConsultation(consultation.id))!.summary)).toContain(ANSWER_A);
+
+    await retractAgentResponse(agents[0].id, consultation.id, `r-${agents[0].id}`);
+    const { summary } = await refreshSummary((await getConsultation(consultation.id))!);
+
+    expect(summary.agentResponses).toHaveLength(1);
+    expect(JSON.stringify((await getConsultation(consultation.id))!.summary)).not.toContain(ANSWER_A);
+  });
+
+  it("should mask personal details in the question shown to agent owners", () => {
+    const masked = anonymiseQuestion("我叫小王，电话13812345678，邮箱wang@example.com，身份证11010119900101123X，胃痛怎么办？");
+
+    expect(masked).not.toMatch(/13812345678|wang@example\.com|11010119900101123X/);
+    expect(masked).toContain("胃痛怎么办");
+    expect(anonymiseQuestion("胃".repeat(200)).length).toBeLessThan(200);
+  });
+});
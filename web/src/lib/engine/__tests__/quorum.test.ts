@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  upsertUser,
+  createConsultation,
+  getConsultation,
+  getAgentResponses,
+  type UserRecord,
+} from "@/lib/db";
+import { queryAgent } from "@/lib/engine/agent-query";
+import { runConsultation } from "@/lib/engine/orchestrator";
+import { refreshSummary } from "@/lib/engine/followup";
+import { ConsultationEmitter } from "@/lib/engine/emitter";
+import type { ConsultationEvent } from "@/lib/engine/events";
+import type { ReportSummary } from "@/lib/summary";
+import { resetTestDb } from "@/test/db";
+
+vi.mock("@/lib/engine/agent-query", () => ({ queryAgent: vi.fn() }));
+vi.mock("@/lib/engine/prompts", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("@/lib/engine/prompts")>()),
+  QUORUM_SOFT_DEADLINE_MS: 20,
+  LATE_ANSWER_GRACE_MS: 300,
+}));
+vi.mock("@/lib/act", () => ({
+  triageHealthQuestion: vi.fn(async () => ({ intent: "general_consultation" })),
+  getAdjustedSystemPrompt: vi.fn((prompt: string) => prompt),
+}));
+
+const ANSWERS = [
+  "我之前失眠时坚持固定作息，并减少了晚上的咖啡因摄入，大概两周后有改善。",
+  "我的经验是睡前一小时不看手机，配合散步和泡脚，一个月左右睡眠质量明显变好。",
+  "家里老人失眠去医院睡眠科做了监测，医生建议先做认知行为治疗，效果还可以。",
+  "我试过白天多晒太阳、午睡不超过二十分钟，晚上入睡明显快了不少。",
+];
+
+describe("Quorum Early Completion", () => {
+  const mockQuery = vi.mocked(queryAgent);
+  let agents: UserRecord[];
+
+  beforeEach(async () => {
+    resetTestDb();
+    mockQuery.mockReset();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    agents = [];
+    for (let n = 0; n < 4; n++) {
+      agents.push(
+        await upsertUser({
+          secondmeId: `sm-${n}`,
+          name: `Agent ${n}`,
+          avatar: "",
+          accessToken: `token-${n}`,
+          refreshToken: `refresh-${n}`,
+          expiresIn: 7200,
+        })
+      );
+    }
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    resetTestDb();
+  });
+
+  it("should report on quorum and store the straggler as a late answer", async () => {
+    const slowId = agents[3].id;
+    let next = 0;
+    let reportedBeforeLate = false;
+    mockQuery.mockImplementation(async (user) => {
+      const text = ANSWERS[next++];
+      if (user.id === slowId) {
+        await new Promise((r) => setTimeout(r, 150));
+        reportedBeforeLate = events.some((e) => e.type === "consultation:done");
+      }
+      return { text, sessionId: `s-${user.id}`, latencyMs: 100 };
+    });
+
+    const consultation = await createConsultation("asker-1", "最近总是失眠怎么办");
+    const emitter = new ConsultationEmitter();
+    const events: ConsultationEvent[] = [];
+    emitter.on((e) => events.push(e));
+
+    const result = await runConsultation("asker-1", "最近总是失眠怎么办", emitter, consultation.id);
+
+    expect(result.status).toBe("DONE");
+    expect(reportedBeforeLate).toBe(true);
+    expect(events.filter((e) => e.type === "agent:response")).toHaveLength(3);
+    expect(result.summary?.agentResponses).toHaveLength(3);
+
+    const late = (await getAgentResponses(consultation.id)).filter((r) => r.late);
+    expect(late).toHaveLength(1);
+    expect(late[0]).toMatchObject({ responderId: slowId, isValid: true, round: "initial" });
+  });
+
+  it("should fold late answers into a refreshed summary", async () => {
+    const slowId = agents[3].id;
+    let next = 0;
+    mockQuery.mockImplementation(async (user) => {
+      const text = ANSWERS[next++];
+      if (user.id === slowId) await new Promise((r) => setTimeout(r, 150));
+      return { text, sessionId: `s-${user.id}`, latencyMs: 100 };
+    });
+
+    const consultation = await createConsultation("asker-1", "最近总是失眠怎么办");
+    await runConsultation("asker-1", "最近总是失眠怎么办", undefined, consultation.id);
+
+    const record = await getConsultation(consultation.id);
+    expect(record?.lateFoldedCount).toBeUndefined();
+
+    const { summary } = await refreshSummary(record!);
+
+    expect(summary.agentResponses).toHaveLength(4);
+    const refreshed = await getConsultation(consultation.id);
+    expect(refreshed?.lateFoldedCount).toBe(1);
+    expect((refreshed?.summary as unknown as ReportSummary).agentResponses).toHaveLength(4);
+  });
+
+  it("should stop waiting on a straggler once the late-answer grace runs out", async () => {
+    const slowId = agents[3].id;
+    let next = 0;
+    mockQuery.mockImplementation(async (user, _question, _prompt, _session, signal) => {
+      const text = ANSWERS[next++];
+      if (user.id === slowId) return waitForAbort(signal);
+      return { text, sessionId: `s-${user.id}`, latencyMs: 100 };
+    });
+
+    const consultation = await createConsultation("asker-1", "最近总是失眠怎么办");
+    const startedAt = Date.now();
+    const result = await runConsultation("asker-1", "最近总是失眠怎么办", undefined, consultation.id);
+
+    expect(result.status).toBe("DONE");
+    expect(Date.now() - startedAt).toBeLessThan(5_000);
+    expect((await getAgentResponses(consultation.id)).filter((r) => r.late)).toHaveLength(0);
+  });
+});
+
+/** A call that only ends when its signal aborts, as queryAgent does */
+function waitForAbort(signal?: AbortSignal): Promise<null> {
+  return new Promise((resolve) => signal?.addEventListener("abort", () => resolve(null), { once: true }));
+}
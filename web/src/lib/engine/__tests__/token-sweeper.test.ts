@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  upsertUser,
+  getUserById,
+  getConsultableUsers,
+  getNotifications,
+  acquireLock,
+  releaseLock,
+  type UserRecord,
+} from "@/lib/db";
+import { refreshAccessToken, TokenRefreshError } from "@/lib/secondme";
+import { sweepExpiringTokens } from "@/lib/engine/token-sweeper";
+import { tokenRefreshLockKey } from "@/lib/engine/agent-query";
+import { resetTestDb } from "@/test/db";
+
+vi.mock("@/lib/secondme", async (importOriginal) => ({
+  TokenRefreshError: (await importOriginal<typeof import("@/lib/secondme")>()).TokenRefreshError,
+  getUserInfo: vi.fn(),
+  refreshAccessToken: vi.fn(),
+  chatWithAgent: vi.fn(),
+}));
+
+async function createAgent(n: number, expiresIn: number): Promise<UserRecord> {
+  return upsertUser({
+    secondmeId: `sm-sweep-${n}`,
+    name: `Agent ${n}`,
+    avatar: "",
+    accessToken: `token-${n}`,
+    refreshToken: `refresh-${n}`,
+    expiresIn,
+  });
+}
+
+describe("Token Refresh Sweeper", () => {
+  const mockRefresh = vi.mocked(refreshAccessToken);
+
+  beforeEach(() => {
+    resetTestDb();
+    mockRefresh.mockReset();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    resetTestDb();
+  });
+
+  it("should refresh only tokens inside the refresh window", async () => {
+    const expiring = await createAgent(1, 600);
+    await createAgent(2, 7200);
+    mockRefresh.mockResolvedValue({ accessToken: "fresh", refreshToken: "fresh-refresh", expiresIn: 7200 } as Awaited<
+      ReturnType<typeof refreshAccessToken>
+    >);
+
+    const report = await sweepExpiringTokens();
+
+    expect(report).toEqual({ checked: 1, refreshed: 1, failed: 0, reloginRequired: 0, skipped: 0 });
+    expect(mockRefresh).toHaveBeenCalledWith("refresh-1");
+    const updated = await getUserById(expiring.id);
+    expect(updated?.accessToken).toBe("fresh");
+    expect(updated?.tokenExpiry).toBeGreaterThan(Date.now() + 7000 * 1000);
+  });
+
+  it("should notify the owner and leave the pool when the refresh token is rejected", async () => {
+    const agent = await createAgent(1, -60);
+    mockRefresh.mockRejectedValue(new TokenRefreshError("Token refresh failed: invalid refresh token"));
+
+    const report = await sweepExpiringTokens();
+
+    expect(report).toMatchObject({ checked: 1, refreshed: 0, failed: 1, reloginRequired: 1 });
+    expect((await getNotifications(agent.id)).map((n) => n.type)).toEqual(["relogin_required"]);
+    expect((await getConsultableUsers("asker")).some((u) => u.id === agent.id)).toBe(false);
+
+    // Logging in again clears the notice
+    await createAgent(1, 7200);
+    expect(await getNotifications(agent.id)).toEqual([]);
+  });
+
+  it("should count network errors as failures without asking for a login", async () => {
+    const agent = await createAgent(1, 600);
+    mockRefresh.mockRejectedValue(new Error("fetch failed"));
+
+    expect(await sweepExpiringTokens()).toMatchObject({ failed: 1, reloginRequired: 0 });
+    expect(await getNotifications(agent.id)).toEqual([]);
+  });
+
+  it("should skip a token another process is already refreshing", async () => {
+    const agent = await createAgent(1, 600);
+    await acquireLock(tokenRefreshLockKey(agent.id), 10);
+
+    expect(await sweepExpiringTokens()).toMatchObject({ checked: 1, skipped: 1, refreshed: 0 });
+    expect(mockRefresh).not.toHaveBeenCalled();
+    await releaseLock(tokenRefreshLockKey(agent.id));
+  });
+});
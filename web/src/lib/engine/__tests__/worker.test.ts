@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import {
+  createConsultation,
+  getConsultation,
+  enqueueConsultationJob,
+  claimConsultationJob,
+  getConsultationJob,
+  addAgentResponse,
+  type AgentResponseRecord,
+} from "@/lib/db";
+import { JOB_QUEUE } from "@/lib/db/types";
+import { runConsultation } from "@/lib/engine/orchestrator";
+import { processConsultationJob, runWorker, sweepStaleJobs } from "@/lib/engine/worker";
+import { resetTestDb } from "@/test/db";
+
+vi.mock("@/lib/engine/orchestrator", () => ({ runConsultation: vi.fn() }));
+
+describe("Consultation Worker", () => {
+  const mockRun = vi.mocked(runConsultation);
+  let now: number;
+
+  beforeEach(() => {
+    now = Date.now();
+    vi.spyOn(Date, "now").mockImplementation(() => now);
+    resetTestDb();
+    mockRun.mockReset();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    resetTestDb();
+  });
+
+  async function createJob(question = "最近总是失眠怎么办") {
+    const consultation = await createConsultation("asker-1", question);
+    await enqueueConsultationJob(consultation.id, "asker-1", question);
+    return consultation.id;
+  }
+
+  function leaseExpired() {
+    now += (JOB_QUEUE.LEASE_SECONDS + 1) * 1000;
+  }
+
+  it("should run the consultation and complete the job", async () => {
+    const id = await createJob();
+
+    await processConsultationJob(id);
+
+    expect(mockRun).toHaveBeenCalledWith("asker-1", "最近总是失眠怎么办", undefined, id, expect.any(AbortSignal));
+    expect(await getConsultationJob(id)).toMatchObject({ state: "DONE", attempts: 1 });
+  });
+
+  it("should retry a failed run and fail the consultation once attempts run out", async () => {
+    mockRun.mockRejectedValue(new Error("upstream down"));
+    const id = await createJob();
+
+    await processConsultationJob(id);
+
+    expect(mockRun).toHaveBeenCalledTimes(JOB_QUEUE.MAX_ATTEMPTS);
+    expect(await getConsultationJob(id)).toMatchObject({ state: "FAILED", lastError: "upstream down" });
+    const consultation = await getConsultation(id);
+    expect(consultation?.status).toBe("FAILED");
+    expect(consultation?.statusReason).toBeTruthy();
+  });
+
+  it("should resume a job whose worker died", async () => {
+    const id = await createJob();
+    await claimConsultationJob("dead-worker", id); // Claimed, then the process crashed
+
+    leaseExpired();
+    expect(await runWorker({ workerId: "w2" })).toBe(1);
+
+    expect(mockRun).toHaveBeenCalledTimes(1);
+    expect(await getConsultationJob(id)).toMatchObject({ state: "DONE", attempts: 2 });
+  });
+
+  it("should abort the run and leave the job alone once another worker takes the lease", async () => {
+    vi.useFakeTimers({ toFake: ["setInterval", "clearInterval"] });
+    try {
+      const id = await createJob();
+      let aborted = false;
+      mockRun.mockImplementation(async (_asker, _question, _emitter, _id, signal) => {
+        // This worker stalls past its lease and another one claims the job
+        leaseExpired();
+        expect(await claimConsultationJob("w2", id)).not.toBeNull();
+        await vi.advanceTimersByTimeAsync(JOB_QUEUE.HEARTBEAT_MS);
+        aborted = !!signal?.aborted;
+        return undefined as unknown as Awaited<ReturnType<typeof runConsultation>>;
+      });
+
+      await processConsultationJob(id, "w1");
+
+      expect(aborted).toBe(true);
+      expect(mockRun).toHaveBeenCalledTimes(1);
+      expect(await getConsultationJob(id)).toMatchObject({ state: "RUNNING", leaseOwner: "w2", attempts: 2 });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  describe("sweepStaleJobs", () => {
+    /** Every attempt is claimed by a worker that then dies */
+    async function claimAllAttempts(id: string) {
+      for (let i = 0; i < JOB_QUEUE.MAX_ATTEMPTS; i++) {
+        if (i > 0) leaseExpired();
+        await claimConsultationJob(`dead-worker-${i}`, id);
+      }
+    }
+
+    async function abandon(id: string) {
+      await claimAllAttempts(id);
+      leaseExpired();
+    }
+
+    it("should leave jobs with attempts remaining for the worker", async () => {
+      const id = await createJob();
+      await claimConsultationJob("dead-worker", id);
+      leaseExpired();
+
+      expect(await sweepStaleJobs()).toEqual({ settled: 0 });
+      expect((await getConsultationJob(id))?.state).toBe("RUNNING");
+    });
+
+    it("should not touch jobs with a live lease", async () => {
+      const id = await createJob();
+      await claimAllAttempts(id);
+
+      expect(await sweepStaleJobs()).toEqual({ settled: 0 });
+    });
+
+    it("should mark an abandoned consultation with answers as PARTIAL", async () => {
+      const id = await createJob();
+      await addAgentResponse({
+        id: "r1",
+        consultationId: id,
+        responderId: "agent-1",
+        sessionId: "s1",
+        rawResponse: "我之前失眠时坚持固定作息，并减少了晚上的咖啡因摄入，大概两周后有改善。",
+        keyPoints: [],
+        isValid: true,
+        latencyMs: 1000,
+        createdAt: Date.now(),
+      } as AgentResponseRecord);
+      await abandon(id);
+
+      expect(await sweepStaleJobs()).toEqual({ settled: 1 });
+
+      const consultation = await getConsultation(id);
+      expect(consultation?.status).toBe("PARTIAL");
+      expect(consultation?.summary).not.toBeNull();
+      expect(consultation?.statusReason).toContain("中断");
+      expect((await getConsultationJob(id))?.state).toBe("FAILED");
+    });
+
+    it("should mark an abandoned consultation without answers as FAILED", async () => {
+      const id = await createJob();
+      await abandon(id);
+
+      expect(await sweepStaleJobs()).toEqual({ settled: 1 });
+
+      const consultation = await getConsultation(id);
+      expect(consultation?.status).toBe("FAILED");
+      expect(consultation?.statusReason).toContain("中断");
+    });
+  });
+});
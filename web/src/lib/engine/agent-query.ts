@@ -1,29 +1,53 @@
 // Single agent query with token refresh and timeout
 
-import { chatWithAgent, refreshAccessToken } from "../secondme";
+import { chatWithAgent, refreshAccessToken, TokenRefreshError } from "../secondme";
 import {
-  circuitBreakUser,
+  recordAgentFailure,
+  recordAgentSuccess,
   updateUserTokens,
   getUserById,
   acquireLock,
   releaseLock,
+  notifyUser,
   type UserRecord,
 } from "../db";
+import { TOKEN_SWEEP } from "../db/types";
 import { AGENT_TIMEOUT_MS } from "./prompts";
 
 const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
 
-async function refreshTokenWithLock(user: UserRecord): Promise<string | null> {
-  const lockKey = `token-refresh:${user.id}`;
-  const acquired = await acquireLock(lockKey, 10);
+const RELOGIN_MESSAGE = "你的 SecondMe 授权已失效，你的代理暂时无法回答他人的问题，请重新登录以恢复。";
+
+/** Lock held while a user's tokens are refreshed; shared with the background sweeper */
+export function tokenRefreshLockKey(userId: string): string {
+  return `token-refresh:${userId}`;
+}
+
+/**
+ * A dead refresh token takes the agent out of the pool and asks its owner to log in
+ * again; any other refresh error counts towards the breaker like a failed answer.
+ */
+export async function handleRefreshFailure(userId: string, error: unknown): Promise<void> {
+  const message = error instanceof Error ? error.message : String(error);
+  const rejected = error instanceof TokenRefreshError;
+  await recordAgentFailure(userId, `token refresh failed: ${message}`, { trip: rejected });
+  if (rejected) {
+    await notifyUser(userId, { type: "relogin_required", message: RELOGIN_MESSAGE });
+  }
+}
+
+export async function refreshTokenWithLock(user: UserRecord): Promise<string | null> {
+  const lockKey = tokenRefreshLockKey(user.id);
+  const acquired = await acquireLock(lockKey, TOKEN_SWEEP.LOCK_SECONDS);
 
   if (acquired) {
     try {
       const tokens = await refreshAccessToken(user.refreshToken);
       await updateUserTokens(user.id, tokens.accessToken, tokens.refreshToken, tokens.expiresIn);
       return tokens.accessToken;
-    } catch {
-      await circuitBreakUser(user.id);
+    } catch (error) {
+      // Without a token the agent cannot answer this time; a dead refresh token benches it
+      await handleRefreshFailure(user.id, error);
       return null;
     } finally {
       await releaseLock(lockKey);
@@ -42,8 +66,12 @@ async function refreshTokenWithLock(user: UserRecord): Promise<string | null> {
 export async function queryAgent(
   user: UserRecord,
   question: string,
-  systemPrompt: string
+  systemPrompt: string,
+  sessionId?: string, // Continue an existing SecondMe session (follow-ups)
+  signal?: AbortSignal, // Aborts the call when the consultation is cancelled
+  onDelta?: (delta: string) => void // Streams the answer as it is generated
 ): Promise<{ text: string; sessionId: string; latencyMs: number } | null> {
+  if (signal?.aborted) return null;
   const start = Date.now();
 
   // Refresh token if expiring soon
@@ -53,27 +81,36 @@ export async function queryAgent(
     user.accessToken = newToken;
   }
 
-  try {
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), AGENT_TIMEOUT_MS);
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), AGENT_TIMEOUT_MS);
+  const abort = () => controller.abort();
+  signal?.addEventListener("abort", abort, { once: true });
 
+  try {
     const result = await chatWithAgent(
       user.accessToken,
       question,
       systemPrompt,
-      undefined,
-      controller.signal
+      sessionId,
+      controller.signal,
+      onDelta
     );
 
-    clearTimeout(timeout);
+    await recordAgentSuccess(user.id).catch((err) => console.error("[Breaker] Failed to record success:", err));
     return { ...result, latencyMs: Date.now() - start };
   } catch (error) {
+    if (signal?.aborted) return null; // Cancelled by the asker, not an agent failure
     console.error(`Agent ${user.id} query failed (${Date.now() - start}ms):`, error);
 
-    if (error instanceof Error && error.message.includes("401")) {
-      await circuitBreakUser(user.id);
-    }
+    // A rejected token opens the breaker at once; other errors and timeouts count towards it
+    const message = error instanceof Error ? error.message : String(error);
+    await recordAgentFailure(user.id, message, { trip: message.includes("401") }).catch((err) =>
+      console.error("[Breaker] Failed to record failure:", err)
+    );
 
     return null;
+  } finally {
+    clearTimeout(timeout);
+    signal?.removeEventListener("abort", abort);
   }
 }
@@ -0,0 +1,47 @@
+// Half-open probing - send each due agent one cheap request and close or reopen its breaker
+
+import { getUserInfo } from "../secondme";
+import {
+  getAgentsDueForProbe,
+  claimAgentProbe,
+  getUserById,
+  recordAgentFailure,
+  recordAgentSuccess,
+} from "../db";
+import { refreshTokenWithLock } from "./agent-query";
+
+export interface ProbeReport {
+  probed: number;
+  recovered: number;
+}
+
+/** Probe every agent whose breaker is due; safe to run from several processes */
+export async function probeTrippedAgents(): Promise<ProbeReport> {
+  const report: ProbeReport = { probed: 0, recovered: 0 };
+
+  for (const agentId of await getAgentsDueForProbe()) {
+    if (!(await claimAgentProbe(agentId))) continue;
+    report.probed++;
+
+    const user = await getUserById(agentId);
+    if (!user) {
+      await recordAgentFailure(agentId, "user not found");
+      continue;
+    }
+
+    try {
+      let accessToken: string | null = user.accessToken;
+      if (user.tokenExpiry < Date.now() + 60_000) {
+        accessToken = await refreshTokenWithLock(user); // Records the failure itself
+        if (!accessToken) continue;
+      }
+      await getUserInfo(accessToken);
+      await recordAgentSuccess(agentId, "probe succeeded");
+      report.recovered++;
+    } catch (error) {
+      await recordAgentFailure(agentId, error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,33 @@
+// Cancellation watcher - the cancel request may land on another instance,
+// so the engine polls the consultation record rather than sharing memory
+
+import { getConsultation } from "../db";
+
+const CANCEL_POLL_MS = 1000;
+
+export interface CancellationWatch {
+  signal: AbortSignal;
+  stop(): void;
+}
+
+/** Abort `signal` once the consultation is marked CANCELLED; call `stop()` when the run ends */
+export function watchCancellation(consultationId: string, pollMs: number = CANCEL_POLL_MS): CancellationWatch {
+  const controller = new AbortController();
+
+  const timer = setInterval(async () => {
+    try {
+      const consultation = await getConsultation(consultationId);
+      if (consultation?.status === "CANCELLED") {
+        controller.abort();
+        clearInterval(timer);
+      }
+    } catch {
+      // Check again on the next tick
+    }
+  }, pollMs);
+
+  return {
+    signal: controller.signal,
+    stop: () => clearInterval(timer),
+  };
+}
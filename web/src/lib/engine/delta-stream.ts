@@ -0,0 +1,40 @@
+// Coalesce streamed answer chunks into agent:delta events
+// SecondMe sends a chunk every few tokens; batching keeps the event log small
+
+import type { ConsultationEmitter } from "./emitter";
+
+const DELTA_FLUSH_MS = 250;
+
+export interface DeltaStreamer {
+  /** Delta callback for one agent's `queryAgent` call */
+  forAgent(agentId: string): (delta: string) => void;
+  /** Emit everything still buffered; call before the round's agent:response events */
+  flush(): void;
+}
+
+export function createDeltaStreamer(
+  emitter: ConsultationEmitter,
+  round: "initial" | "reaction"
+): DeltaStreamer {
+  const pending = new Map<string, string>();
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  function flush() {
+    if (timer) clearTimeout(timer);
+    timer = null;
+    for (const [agentId, delta] of pending) {
+      emitter.emit({ type: "agent:delta", agentId, round, delta });
+    }
+    pending.clear();
+  }
+
+  return {
+    forAgent(agentId) {
+      return (delta) => {
+        pending.set(agentId, (pending.get(agentId) ?? "") + delta);
+        if (!timer) timer = setTimeout(flush, DELTA_FLUSH_MS);
+      };
+    },
+    flush,
+  };
+}
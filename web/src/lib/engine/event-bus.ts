@@ -0,0 +1,43 @@
+// Consultation event publishing: durable sequenced log + in-process fan-out
+//
+// Streams in the same instance as the producer get events pushed immediately;
+// streams elsewhere pick them up from the log (see the stream route).
+
+import { appendConsultationEvent, type SequencedEvent } from "../db";
+import type { ConsultationEvent } from "./events";
+
+export type EventListener = (entry: SequencedEvent<ConsultationEvent>) => void;
+
+// Kept on globalThis so every route bundle in the process shares one registry
+const registry = globalThis as unknown as {
+  consultationEventListeners?: Map<string, Set<EventListener>>;
+};
+const listeners = (registry.consultationEventListeners ??= new Map());
+
+/** Append an event to the consultation's log, then notify local subscribers. Returns its id. */
+export async function publishEvent(consultationId: string, event: ConsultationEvent): Promise<number> {
+  const id = await appendConsultationEvent(consultationId, event);
+  for (const listener of listeners.get(consultationId) ?? []) {
+    try {
+      listener({ id, event });
+    } catch (err) {
+      console.error("[EventBus] Listener error:", err);
+    }
+  }
+  return id;
+}
+
+/** Receive events published in this process; returns an unsubscribe function */
+export function subscribeEvents(consultationId: string, listener: EventListener): () => void {
+  let set = listeners.get(consultationId);
+  if (!set) {
+    set = new Set();
+    listeners.set(consultationId, set);
+  }
+  set.add(listener);
+
+  return () => {
+    set.delete(listener);
+    if (set.size === 0 && listeners.get(consultationId) === set) listeners.delete(consultationId);
+  };
+}
@@ -5,10 +5,15 @@ import type { ReportSummary } from "../summary";
 export type ConsultationEvent =
   | { type: "consultation:start"; consultationId: string; question: string }
   | { type: "agent:query_start"; agentId: string; round: "initial" | "reaction" }
-  | { type: "agent:response"; agentId: string; round: "initial" | "reaction"; latencyMs: number }
+  | { type: "agent:delta"; agentId: string; round: "initial" | "reaction"; delta: string }
+  | { type: "agent:response"; agentId: string; round: "initial" | "reaction"; latencyMs: number; isValid?: boolean }
   | { type: "agent:error"; agentId: string; error: string }
+  | { type: "wave:start"; wave: number; agentCount: number }
+  | { type: "wave:complete"; wave: number; validCount: number; totalValid: number }
   | { type: "validation:complete"; validCount: number; totalCount: number }
-  | { type: "reaction:start"; triggerCount: number }
-  | { type: "reaction:complete"; responseCount: number }
+  | { type: "reaction:start"; round: number; triggerCount: number }
+  | { type: "reaction:complete"; round: number; responseCount: number; similarity: number }
+  | { type: "reaction:failed"; round: number; reason: string }
   | { type: "summary:ready"; report: ReportSummary }
-  | { type: "consultation:done"; status: "DONE" | "PARTIAL" | "FAILED" };
+  | { type: "consultation:done"; status: "DONE" | "PARTIAL" | "FAILED" }
+  | { type: "consultation:cancelled" };
@@ -0,0 +1,206 @@
+// Follow-up rounds - continue each responder's SecondMe session with a new question
+
+import { randomUUID } from "crypto";
+import {
+  getUserById,
+  getAgentResponses,
+  addAgentResponsesBatch,
+  addDirectedResponse,
+  updateConsultation,
+  type AgentResponseRecord,
+  type ConsultationRecord,
+  type ConsultationFollowup,
+  type UserRecord,
+} from "../db";
+import { followupRound } from "../db/types";
+import { validateResponse, isDuplicate } from "../validator";
+import { buildSummary, type ReportSummary } from "../summary";
+import { queryAgent } from "./agent-query";
+import { FOLLOWUP_PROMPT, DIRECTED_FOLLOWUP_PROMPT, AGENT_TIMEOUT_MS } from "./prompts";
+
+export interface FollowupResult {
+  followupIndex: number;
+  responses: AgentResponseRecord[];
+  summary: ReportSummary;
+}
+
+/** Latest SecondMe session per responder who gave a valid initial answer */
+function responderSessions(responses: AgentResponseRecord[]): Map<string, string> {
+  const answered = new Set(
+    responses.filter((r) => r.isValid && r.round === "initial").map((r) => r.responderId)
+  );
+  const sessions = new Map<string, string>();
+  for (const r of responses) {
+    if (answered.has(r.responderId) && r.sessionId) sessions.set(r.responderId, r.sessionId);
+  }
+  return sessions;
+}
+
+/**
+ * One record per agent holding its whole thread, so extractors count each agent
+ * once when the summary is rebuilt over several rounds.
+ */
+export function mergeThreadByAgent(responses: AgentResponseRecord[]): AgentResponseRecord[] {
+  const merged = new Map<string, AgentResponseRecord>();
+  for (const r of responses) {
+    if (!r.isValid || r.round === "reaction" || r.round === "directed") continue;
+    const existing = merged.get(r.responderId);
+    merged.set(
+      r.responderId,
+      existing ? { ...existing, rawResponse: `${existing.rawResponse}\n${r.rawResponse}` } : { ...r }
+    );
+  }
+  return [...merged.values()];
+}
+
+/** Ask every responder of a finished consultation a follow-up question in their existing session */
+export async function runFollowup(consultation: ConsultationRecord, question: string): Promise<FollowupResult> {
+  const followupIndex = (consultation.followups?.length ?? 0) + 1;
+  const history = await getAgentResponses(consultation.id);
+  const sessions = responderSessions(history);
+
+  const agents = (await Promise.all([...sessions.keys()].map((id) => getUserById(id)))).filter(
+    (u): u is UserRecord => !!u
+  );
+  const systemPrompt = FOLLOWUP_PROMPT + consultation.question;
+
+  const results = await Promise.allSettled(
+    agents.map((agent) => queryAgent(agent, question, systemPrompt, sessions.get(agent.id)))
+  );
+
+  const existingTexts: string[] = [];
+  const pending: Array<{ response: AgentResponseRecord; round: number }> = [];
+
+  for (let i = 0; i < results.length; i++) {
+    const result = results[i];
+    const agent = agents[i];
+    const base = {
+      id: randomUUID(),
+      consultationId: consultation.id,
+      responderId: agent.id,
+      keyPoints: [],
+      createdAt: Date.now(),
+      round: "followup" as const,
+      roundIndex: followupIndex,
+    };
+
+    if (result.status === "rejected" || !result.value) {
+      pending.push({
+        response: {
+          ...base, sessionId: sessions.get(agent.id) ?? "", rawResponse: "", isValid: false,
+          invalidReason: "请求失败或超时", latencyMs: AGENT_TIMEOUT_MS,
+        },
+        round: followupRound(followupIndex),
+      });
+      continue;
+    }
+
+    const { text, sessionId, latencyMs } = result.value;
+    const validation = validateResponse(text);
+    const duplicate = isDuplicate(text, existingTexts);
+    const isValid = validation.isValid && !duplicate;
+    if (isValid) existingTexts.push(text);
+
+    pending.push({
+      response: {
+        ...base, sessionId, rawResponse: text, isValid,
+        invalidReason: !isValid ? (duplicate ? "与其他回复重复" : validation.reason) : undefined,
+        latencyMs,
+      },
+      round: followupRound(followupIndex),
+    });
+  }
+
+  const batchResults = await addAgentResponsesBatch(pending);
+  const failedWrites = batchResults.filter((r) => !r.success);
+  if (failedWrites.length > 0) {
+    console.error(`[Engine] ${failedWrites.length} follow-up responses failed to persist`);
+  }
+
+  const followups = [...(consultation.followups ?? []), { index: followupIndex, question, askedAt: Date.now() }];
+  const { summary, thread } = await refreshSummary(consultation, followups);
+
+  return {
+    followupIndex,
+    responses: thread.filter((r) => r.round === "followup" && r.roundIndex === followupIndex),
+    summary,
+  };
+}
+
+/**
+ * Rebuild the report over the whole thread, late answers included, and store it
+ * together with `followups`.
+ */
+export async function refreshSummary(
+  consultation: ConsultationRecord,
+  followups: ConsultationFollowup[] = consultation.followups ?? []
+): Promise<{ summary: ReportSummary; thread: AgentResponseRecord[] }> {
+  const thread = await getAgentResponses(consultation.id);
+  const asker = await getUserById(consultation.askerId);
+  const previous = consultation.summary as unknown as ReportSummary | null;
+  const rebuilt = await buildSummary(
+    mergeThreadByAgent(thread.filter((r) => !r.retracted)),
+    consultation.agentCount,
+    previous?.noExperienceCount ?? 0,
+    thread.filter((r) => r.round === "reaction" && !r.retracted),
+    [consultation.question, ...followups.map((f) => f.question)].join("\n追问："),
+    asker?.accessToken
+  );
+  // Deliberation only happens during the original run
+  const summary: ReportSummary = previous?.deliberation ? { ...rebuilt, deliberation: previous.deliberation } : rebuilt;
+
+  await updateConsultation(consultation.id, {
+    followups,
+    summary: summary as unknown as Record<string, unknown>,
+    lateFoldedCount: thread.filter((r) => r.late && r.isValid).length,
+  });
+
+  return { summary, thread };
+}
+
+/**
+ * Ask the agent behind one answer a follow-up in its own session. The reply is
+ * stored under that answer and does not change the report summary.
+ */
+export async function runDirectedFollowup(
+  target: AgentResponseRecord,
+  question: string
+): Promise<AgentResponseRecord> {
+  const agent = await getUserById(target.responderId);
+  const history = await getAgentResponses(target.consultationId);
+  // Continue from the agent's latest session in this consultation
+  const sessionId =
+    history.filter((r) => r.responderId === target.responderId && r.sessionId).at(-1)?.sessionId ??
+    target.sessionId;
+
+  const result = agent
+    ? await queryAgent(agent, question, DIRECTED_FOLLOWUP_PROMPT + target.rawResponse, sessionId)
+    : null;
+
+  const base = {
+    id: randomUUID(),
+    consultationId: target.consultationId,
+    responderId: target.responderId,
+    keyPoints: [],
+    createdAt: Date.now(),
+    parentResponseId: target.id,
+    directedQuestion: question,
+  };
+
+  let reply: AgentResponseRecord;
+  if (!result) {
+    reply = {
+      ...base, sessionId, rawResponse: "", isValid: false,
+      invalidReason: "请求失败或超时", latencyMs: AGENT_TIMEOUT_MS,
+    };
+  } else {
+    const validation = validateResponse(result.text);
+    reply = {
+      ...base, sessionId: result.sessionId, rawResponse: result.text, isValid: validation.isValid,
+      invalidReason: validation.isValid ? undefined : validation.reason, latencyMs: result.latencyMs,
+    };
+  }
+
+  await addDirectedResponse(reply);
+  return { ...reply, round: "directed" };
+}
@@ -1,6 +1,11 @@
 // Engine module public API
 
 export { runConsultation, type ConsultationResult } from "./orchestrator";
+export { processConsultationJob, runWorker, sweepStaleJobs } from "./worker";
+export { runFollowup, runDirectedFollowup, refreshSummary, type FollowupResult } from "./followup";
 export type { ReportSummary } from "../summary";
 export type { ConsultationEvent } from "./events";
 export { ConsultationEmitter, createEmitter } from "./emitter";
+export { publishEvent, subscribeEvents } from "./event-bus";
+export { probeTrippedAgents, type ProbeReport } from "./breaker-probe";
+export { sweepExpiringTokens, type TokenSweepReport } from "./token-sweeper";
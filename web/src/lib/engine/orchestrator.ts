@@ -3,49 +3,66 @@
 import { randomUUID } from "crypto";
 import {
   getConsultableUsers,
+  searchAgents,
+  recordAgentRequest,
   getUserById,
+  getConsultation,
   createConsultation,
   updateConsultation,
+  addConsultationAgents,
   addAgentResponsesBatch,
   getAgentResponses,
-  pushEvent,
+  getAgentReputations,
+  recordAgentOutcomes,
   type AgentResponseRecord,
+  type AgentReputationStats,
   type UserRecord,
 } from "../db";
 import { validateResponse, isDuplicate } from "../validator";
-import { buildSummary, type ReportSummary } from "../summary";
+import { buildSummary, type ReportSummary, type DeliberationSummary } from "../summary";
+import { rankingReputation } from "../reputation";
 import { triageHealthQuestion, getAdjustedSystemPrompt, type TriageResult } from "../act";
 import { queryAgent } from "./agent-query";
-import { runReactionRound } from "./reaction";
-import { SYSTEM_PROMPT, MAX_CONCURRENT, AGENT_TIMEOUT_MS, REACTION_ROUND_ENABLED } from "./prompts";
+import { runDeliberation } from "./reaction";
+import { refreshSummary } from "./followup";
+import {
+  SYSTEM_PROMPT,
+  MAX_CONCURRENT,
+  AGENT_TIMEOUT_MS,
+  REACTION_ROUND_ENABLED,
+  TARGET_VALID_ANSWERS,
+  MAX_AGENTS_PER_CONSULTATION,
+  AGENT_CANDIDATE_POOL,
+  FANOUT_DEADLINE_MS,
+  QUORUM_MODE_ENABLED,
+  QUORUM_SOFT_DEADLINE_MS,
+  LATE_ANSWER_GRACE_MS,
+  LATE_SUMMARY_REFRESH,
+} from "./prompts";
 import { ConsultationEmitter } from "./emitter";
-
-/** Rank agents by relevance to the question using tags (primary) or bio bigrams (fallback). */
-function rankAgentsByRelevance(agents: UserRecord[], question: string): UserRecord[] {
-  function scoreTags(tags: string[] | undefined): number {
-    if (!tags || tags.length === 0) return 0;
-    return tags.reduce((n, tag) => n + (question.includes(tag) ? 1 : 0), 0);
-  }
-
-  function bigramSet(text: string): Set<string> {
-    const s = new Set<string>();
-    for (let i = 0; i < text.length - 1; i++) s.add(text.slice(i, i + 2));
-    return s;
-  }
-
-  function scoreBio(bio: string | undefined): number {
-    if (!bio) return 0;
-    const qBigrams = bigramSet(question);
-    const bBigrams = bigramSet(bio);
-    let overlap = 0;
-    for (const b of bBigrams) if (qBigrams.has(b)) overlap++;
-    return overlap;
-  }
+import { watchCancellation } from "./cancellation";
+import { createDeltaStreamer } from "./delta-stream";
+import { publishEvent } from "./event-bus";
+
+// Relevance is scaled to the best match; reputation can reorder agents within half of it
+const RELEVANCE_WEIGHT = 20;
+const REPUTATION_WEIGHT = 10;
+
+/**
+ * Rank agents by their relevance-index score for the question, blended with
+ * each agent's reputation.
+ */
+function rankAgentsByRelevance(
+  agents: UserRecord[],
+  relevance: Map<string, number>,
+  reputations: Map<string, AgentReputationStats> = new Map()
+): UserRecord[] {
+  const best = Math.max(0, ...relevance.values());
 
   const scored = agents.map((a) => {
-    const tagScore = scoreTags(a.tags);
-    const bioScore = tagScore > 0 ? 0 : scoreBio(a.bio);
-    return { agent: a, score: tagScore * 10 + bioScore };
+    const match = best > 0 ? (relevance.get(a.id) ?? 0) / best : 0;
+    const reputation = rankingReputation(reputations.get(a.id));
+    return { agent: a, score: match * RELEVANCE_WEIGHT + reputation * REPUTATION_WEIGHT };
   });
 
   scored.sort((a, b) => b.score - a.score);
@@ -54,7 +71,7 @@ function rankAgentsByRelevance(agents: UserRecord[], question: string): UserReco
 
 export interface ConsultationResult {
   consultationId: string;
-  status: "DONE" | "PARTIAL" | "FAILED";
+  status: "DONE" | "PARTIAL" | "FAILED" | "CANCELLED";
   summary: ReportSummary | null;
   responses: AgentResponseRecord[];
   triage?: TriageResult;
@@ -64,7 +81,8 @@ export async function runConsultation(
   askerId: string,
   question: string,
   emitter?: ConsultationEmitter,
-  existingConsultationId?: string
+  existingConsultationId?: string,
+  leaseSignal?: AbortSignal // Aborted when the job worker loses its lease to another worker
 ): Promise<ConsultationResult> {
   const em = emitter ?? new ConsultationEmitter();
   const askerUser = await getUserById(askerId);
@@ -75,17 +93,48 @@ export async function runConsultation(
     ? { id: existingConsultationId }
     : await createConsultation(askerId, question);
 
-  // Register KV event handler for SSE streaming
-  const eventKey = `consultation-events:${consultation.id}`;
+  // Publish for SSE streaming; chained so event ids follow emit order
+  let published = Promise.resolve();
   em.on((event) => {
-    pushEvent(eventKey, JSON.stringify(event), 300).catch(() => {});
+    published = published.then(() => publishEvent(consultation.id, event).then(() => {}, () => {}));
   });
 
+  // Cancelled while still queued: nothing to run
+  if ((await getConsultation(consultation.id))?.status === "CANCELLED") {
+    return cancelledResult(consultation.id);
+  }
+
+  const watch = watchCancellation(consultation.id);
+  const signal = leaseSignal ? AbortSignal.any([watch.signal, leaseSignal]) : watch.signal;
+  try {
+    return await consult(consultation, askerId, question, askerAccessToken, em, signal);
+  } finally {
+    watch.stop();
+  }
+}
+
+/**
+ * Stopped early: the asker cancelled (the cancel route already updated the record and
+ * notified the stream), or another worker took the job over and finishes it instead
+ */
+function cancelledResult(consultationId: string, triage?: TriageResult): ConsultationResult {
+  return { consultationId, status: "CANCELLED", summary: null, responses: [], triage };
+}
+
+async function consult(
+  consultation: { id: string },
+  askerId: string,
+  question: string,
+  askerAccessToken: string,
+  em: ConsultationEmitter,
+  signal: AbortSignal
+): Promise<ConsultationResult> {
   await updateConsultation(consultation.id, { status: "CONSULTING" });
   em.emit({ type: "consultation:start", consultationId: consultation.id, question });
 
   // Step 1: Triage
   const triage = await triageHealthQuestion(question);
+  if (signal.aborted) return cancelledResult(consultation.id, triage);
 
   // Emergency triage → abort consultation, return safety message directly
   if (triage.intent === "emergency") {
@@ -117,24 +166,32 @@ export async function runConsultation(
 
   const adjustedPrompt = getAdjustedSystemPrompt(SYSTEM_PROMPT + question, triage);
 
-  const availableAgents = await getConsultableUsers(askerId);
-  const rankedAgents = rankAgentsByRelevance(availableAgents, question);
-  const agentsToQuery = rankedAgents.slice(0, MAX_CONCURRENT);
+  // Top index matches first; the rest of the pool tops up questions nobody's profile matches
+  const matches = await searchAgents(question, AGENT_CANDIDATE_POOL);
+  const availableAgents = await getConsultableUsers(askerId, {
+    preferredIds: matches.map((m) => m.agentId),
+    limit: AGENT_CANDIDATE_POOL,
+  });
+  const reputations = await getAgentReputations(availableAgents.map((a) => a.id));
+  const relevance = new Map(matches.map((m) => [m.agentId, m.score]));
+  const rankedAgents = rankAgentsByRelevance(availableAgents, relevance, reputations);
 
   await updateConsultation(consultation.id, {
-    agentCount: agentsToQuery.length,
     triage: triage as unknown as Record<string, unknown>,
   });
 
-  if (agentsToQuery.length === 0) {
-    await updateConsultation(consultation.id, { status: "FAILED" });
+  if (rankedAgents.length === 0) {
+    await updateConsultation(consultation.id, { status: "FAILED", statusReason: "当前没有可用的 AI 代理，请稍后再试" });
     em.emit({ type: "consultation:done", status: "FAILED" });
     return { consultationId: consultation.id, status: "FAILED", summary: null, responses: [], triage };
   }
 
-  // Step 2: Parallel agent queries
-  const { pendingResponses, validCount, noExperienceCount } =
-    await queryAllAgents(consultation.id, agentsToQuery, question, adjustedPrompt, em);
+  // Step 2: Agent queries, in waves until enough valid answers arrive
+  const { agentsToQuery, pendingResponses, validCount, noExperienceCount, stragglers } =
+    await recruitInWaves(consultation.id, rankedAgents, question, adjustedPrompt, em, signal);
+
+  // Answers that arrived before the cancel are discarded along with the run
+  if (signal.aborted) return cancelledResult(consultation.id, triage);
 
   // Step 3: Batch persist
   const batchResults = await addAgentResponsesBatch(pendingResponses);
@@ -142,21 +199,31 @@ export async function runConsultation(
   if (failedWrites.length > 0) {
     console.error(`[Engine] ${failedWrites.length} responses failed to persist`);
   }
+  await recordAgentOutcomes(pendingResponses.map((p) => p.response)).catch((err) =>
+    console.error("[Engine] Failed to record agent outcomes:", err)
+  );
 
   em.emit({ type: "validation:complete", validCount, totalCount: agentsToQuery.length });
 
-  // Step 4: Reaction round (gated)
+  // Step 4: Deliberation rounds (gated)
   const allResponses = await getAgentResponses(consultation.id);
-  const validInitial = allResponses.filter((r) => r.isValid && r.round === "initial");
+  const validInitial = allResponses.filter((r) => r.isValid && r.round === "initial" && !r.late);
 
-  if (REACTION_ROUND_ENABLED && validInitial.length >= 1 && validCount > 0) {
-    await runReactionRound(consultation.id, question, validInitial, agentsToQuery, em);
+  let deliberation: DeliberationSummary | undefined;
+  if (REACTION_ROUND_ENABLED && validInitial.length >= 1 && validCount > 0 && !signal.aborted) {
+    deliberation = await runDeliberation(consultation.id, question, validInitial, agentsToQuery, em, signal);
   }
+  if (signal.aborted) return cancelledResult(consultation.id, triage);
 
   // Step 5: Build report
   const finalResponses = await getAgentResponses(consultation.id);
-  const validResponses = finalResponses.filter((r) => r.isValid);
-  const reactionResponses = finalResponses.filter((r) => r.round === "reaction");
+  const validResponses = finalResponses.filter((r) => r.isValid && !r.late && !r.retracted);
+  // Each agent's final word in the deliberation
+  const lastReactions = new Map<string, AgentResponseRecord>();
+  for (const r of finalResponses) {
+    if (r.round === "reaction" && r.isValid && !r.retracted) lastReactions.set(r.responderId, r);
+  }
+  const reactionResponses = [...lastReactions.values()];
 
   let summary: ReportSummary | null = null;
   let status: "DONE" | "PARTIAL" | "FAILED";
@@ -173,6 +240,8 @@ export async function runConsultation(
     status = "FAILED";
   }
 
+  if (summary && deliberation) summary = { ...summary, deliberation };
+  if (signal.aborted) return cancelledResult(consultation.id, triage);
   if (summary) em.emit({ type: "summary:ready", report: summary });
 
   await updateConsultation(consultation.id, {
@@ -181,70 +250,199 @@ export async function runConsultation(
   });
 
   em.emit({ type: "consultation:done", status });
+
+  // The asker already has the report; late answers get at most LATE_ANSWER_GRACE_MS more
+  await stragglers;
+  if (LATE_SUMMARY_REFRESH && summary && !signal.aborted) {
+    const record = await getConsultation(consultation.id);
+    const late = (await getAgentResponses(consultation.id)).filter((r) => r.late && r.isValid);
+    if (record && late.length > 0) summary = (await refreshSummary(record)).summary;
+  }
+
   return { consultationId: consultation.id, status, summary, responses: finalResponses, triage };
 }
 
-async function queryAllAgents(
+/** Size the next wave from the valid-answer rate so far, within MAX_CONCURRENT and the budget */
+function nextWaveSize(queriedCount: number, validCount: number, budget: number): number {
+  const remaining = budget - queriedCount;
+  if (remaining <= 0) return 0;
+  if (queriedCount === 0) return Math.min(MAX_CONCURRENT, remaining);
+
+  // Assume at least one agent in four answers usefully, so a bad wave still recruits
+  const rate = Math.max(validCount / queriedCount, 0.25);
+  return Math.min(MAX_CONCURRENT, remaining, Math.ceil((TARGET_VALID_ANSWERS - validCount) / rate));
+}
+
+/**
+ * Query ranked agents wave by wave until TARGET_VALID_ANSWERS valid answers arrived,
+ * the agent budget is spent, or another wave could run past the fan-out deadline.
+ */
+async function recruitInWaves(
+  consultationId: string,
+  rankedAgents: UserRecord[],
+  question: string,
+  systemPrompt: string,
+  emitter: ConsultationEmitter,
+  signal: AbortSignal
+) {
+  const deadline = Date.now() + FANOUT_DEADLINE_MS;
+  const budget = Math.min(rankedAgents.length, MAX_AGENTS_PER_CONSULTATION);
+  const agentsToQuery: UserRecord[] = [];
+  const existingTexts: string[] = []; // Duplicate check spans waves
+  const pendingResponses: Array<{ response: AgentResponseRecord; round: number }> = [];
+  const stragglers: Promise<unknown>[] = [];
+  let validCount = 0;
+  let noExperienceCount = 0;
+
+  for (let wave = 1; ; wave++) {
+    const size = nextWaveSize(agentsToQuery.length, validCount, budget);
+    if (size === 0) break;
+
+    const agents = rankedAgents.slice(agentsToQuery.length, agentsToQuery.length + size);
+    agentsToQuery.push(...agents);
+    await updateConsultation(consultationId, { agentCount: agentsToQuery.length });
+    emitter.emit({ type: "wave:start", wave, agentCount: agents.length });
+
+    const result = await queryWave(
+      consultationId, agents, question, systemPrompt, emitter, signal, existingTexts, validCount
+    );
+    pendingResponses.push(...result.pendingResponses);
+    stragglers.push(result.stragglers);
+    validCount += result.validCount;
+    noExperienceCount += result.noExperienceCount;
+    emitter.emit({ type: "wave:complete", wave, validCount: result.validCount, totalValid: validCount });
+
+    if (signal.aborted || validCount >= TARGET_VALID_ANSWERS) break;
+    if (Date.now() + AGENT_TIMEOUT_MS > deadline) break;
+  }
+
+  return { agentsToQuery, pendingResponses, validCount, noExperienceCount, stragglers: Promise.all(stragglers) };
+}
+
+/**
+ * Query one wave. In quorum mode the wave stops waiting once the consultation has
+ * TARGET_VALID_ANSWERS valid answers and QUORUM_SOFT_DEADLINE_MS has passed. The
+ * stragglers get LATE_ANSWER_GRACE_MS more and are stored as late answers by the time
+ * `stragglers` settles; any still out then are aborted.
+ */
+async function queryWave(
   consultationId: string,
-  agents: Awaited<ReturnType<typeof getConsultableUsers>>,
+  agents: UserRecord[],
   question: string,
   systemPrompt: string,
-  emitter: ConsultationEmitter
+  emitter: ConsultationEmitter,
+  signal: AbortSignal,
+  existingTexts: string[],
+  validBefore: number
 ) {
+  // Labels come from this order, so it is stored before any event names the agents
+  await addConsultationAgents(consultationId, agents.map((agent) => agent.id)).catch((err) =>
+    console.error("[Engine] Failed to record agent order:", err)
+  );
   for (const agent of agents) {
     emitter.emit({ type: "agent:query_start", agentId: agent.id, round: "initial" });
   }
-
-  const results = await Promise.allSettled(
-    agents.map((agent) => queryAgent(agent, question, systemPrompt))
+  // Counts towards each owner's daily cap whether or not the agent answers
+  await Promise.all(agents.map((agent) => recordAgentRequest(agent.id))).catch((err) =>
+    console.error("[Engine] Failed to count agent requests:", err)
   );
 
-  const existingTexts: string[] = [];
   let validCount = 0;
   let noExperienceCount = 0;
   const pendingResponses: Array<{ response: AgentResponseRecord; round: number }> = [];
+  let waiting = true;
+  let softDeadlinePassed = false;
+  // Stragglers are cut off on their own, without cancelling the consultation
+  const cutoff = new AbortController();
+  const agentSignal = AbortSignal.any([signal, cutoff.signal]);
+  let graceTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /** Validate an answer as it arrives; only answers in time count towards the wave */
+  function toRecord(agent: UserRecord, result: Awaited<ReturnType<typeof queryAgent>>): AgentResponseRecord {
+    const base = {
+      id: randomUUID(), consultationId, responderId: agent.id, keyPoints: [],
+      createdAt: Date.now(), round: "initial" as const, late: waiting ? undefined : true,
+    };
 
-  for (let i = 0; i < results.length; i++) {
-    const result = results[i];
-    const agent = agents[i];
-
-    if (result.status === "rejected" || !result.value) {
-      emitter.emit({ type: "agent:error", agentId: agent.id, error: "Request failed or timeout" });
-      pendingResponses.push({
-        response: {
-          id: randomUUID(), consultationId, responderId: agent.id, sessionId: "",
-          rawResponse: "", keyPoints: [], isValid: false,
-          invalidReason: "请求失败或超时", latencyMs: AGENT_TIMEOUT_MS,
-          createdAt: Date.now(), round: "initial",
-        },
-        round: 0,
-      });
-      continue;
+    if (!result) {
+      if (waiting) emitter.emit({ type: "agent:error", agentId: agent.id, error: "Request failed or timeout" });
+      return {
+        ...base, sessionId: "", rawResponse: "", isValid: false,
+        invalidReason: "请求失败或超时", latencyMs: AGENT_TIMEOUT_MS,
+      };
     }
 
-    const { text, sessionId, latencyMs } = result.value;
+    const { text, sessionId, latencyMs } = result;
     const validation = validateResponse(text);
     const duplicate = isDuplicate(text, existingTexts);
     const isValid = validation.isValid && !duplicate;
 
     if (isValid) {
       existingTexts.push(text);
-      if (validation.isNoExperience) noExperienceCount++;
-      else validCount++;
+      if (waiting && validation.isNoExperience) noExperienceCount++;
+      else if (waiting) validCount++;
     }
 
-    emitter.emit({ type: "agent:response", agentId: agent.id, round: "initial", latencyMs });
+    if (waiting) emitter.emit({ type: "agent:response", agentId: agent.id, round: "initial", latencyMs, isValid });
 
-    pendingResponses.push({
-      response: {
-        id: randomUUID(), consultationId, responderId: agent.id, sessionId,
-        rawResponse: text, keyPoints: [], isValid,
-        invalidReason: !isValid ? (duplicate ? "与其他回复重复" : validation.reason) : undefined,
-        latencyMs, createdAt: Date.now(), round: "initial",
-      },
-      round: 0,
-    });
+    return {
+      ...base, sessionId, rawResponse: text, isValid,
+      invalidReason: !isValid ? (duplicate ? "与其他回复重复" : validation.reason) : undefined,
+      latencyMs,
+    };
   }
 
-  return { pendingResponses, validCount, noExperienceCount };
+  // Live text is shown while agents type; only validated answers reach the report
+  const deltas = createDeltaStreamer(emitter, "initial");
+  let stragglers: Promise<unknown> = Promise.resolve();
+
+  await new Promise<void>((resolve) => {
+    let remaining = agents.length;
+    let softTimer: ReturnType<typeof setTimeout> | null = null;
+
+    function settleIfDone() {
+      if (!waiting) return;
+      const quorum =
+        QUORUM_MODE_ENABLED && softDeadlinePassed && validBefore + validCount >= TARGET_VALID_ANSWERS;
+      if (remaining > 0 && !quorum) return;
+
+      waiting = false;
+      if (softTimer) clearTimeout(softTimer);
+      if (remaining > 0) graceTimer = setTimeout(() => cutoff.abort(), LATE_ANSWER_GRACE_MS);
+      deltas.flush();
+      resolve();
+    }
+
+    if (QUORUM_MODE_ENABLED) {
+      softTimer = setTimeout(() => {
+        softDeadlinePassed = true;
+        settleIfDone();
+      }, QUORUM_SOFT_DEADLINE_MS);
+    }
+
+    stragglers = Promise.allSettled(
+      agents.map(async (agent) => {
+        const onDelta = deltas.forAgent(agent.id);
+        const result = await queryAgent(agent, question, systemPrompt, undefined, agentSignal, (delta) => {
+          if (waiting) onDelta(delta);
+        }).catch(() => null);
+
+        const lateArrival = !waiting;
+        const response = toRecord(agent, result);
+        remaining--;
+
+        if (!lateArrival) {
+          pendingResponses.push({ response, round: 0 });
+          settleIfDone();
+        } else if (!agentSignal.aborted) {
+          await addAgentResponsesBatch([{ response, round: 0 }]);
+          await recordAgentOutcomes([response]);
+        }
+      })
+    ).finally(() => {
+      if (graceTimer) clearTimeout(graceTimer);
+    });
+  });
+
+  return { pendingResponses, validCount, noExperienceCount, stragglers };
 }
@@ -11,15 +11,39 @@ export const SYSTEM_PROMPT = `你是一个真实用户的 AI 代理。现在有
 
 对方的问题是：`;
 
-export const REACTION_PROMPT = `其他用户的 AI 代理已经分享了他们的看法。作为第二轮讨论，请：
-1. 如果其他观点与你主人的经验有共鸣或冲突，请补充说明
+export const REACTION_PROMPT = `其他用户的 AI 代理已经分享了他们的看法，下面是大家目前的共识和分歧。请结合你之前的回答：
+1. 如果其他观点与你主人的经验有共鸣或冲突，请补充说明；主人的看法有变化也请直接说明
 2. 如果某个观点让你主人想追问细节，请明确提出
 3. 保持友善，像圆桌讨论一样交流
 
-其他代理的看法摘要：
+`;
 
-对方原始问题：`;
+export const FOLLOWUP_PROMPT = `提问者看完大家的回复后，想继续追问。请结合你之前的回答和主人的经验作答：
+1. 只回答追问的内容，不必重复之前说过的话
+2. 如果主人没有相关经历，请坦诚说明
+3. 回复控制在 200 字以内
 
-export const MAX_CONCURRENT = 5;
+提问者最初的问题是：`;
+
+export const DIRECTED_FOLLOWUP_PROMPT = `提问者对你之前的回答很感兴趣，想单独向你追问细节。请结合你之前的回答和主人的经验作答：
+1. 只回答追问的内容，尽量具体（时间、费用、做法等）
+2. 如果主人没有相关经历或记不清，请坦诚说明
+3. 回复控制在 200 字以内
+
+你之前的回答是：`;
+
+export const MAX_CONCURRENT = 5; // Agents per wave
+export const TARGET_VALID_ANSWERS = 3; // Stop recruiting once this many valid answers arrived
+export const MAX_AGENTS_PER_CONSULTATION = 15; // Budget across all waves
+export const AGENT_CANDIDATE_POOL = 50; // Agents loaded per consultation: best index matches first
+export const FANOUT_DEADLINE_MS = 90_000; // No new wave starts after this
+export const QUORUM_MODE_ENABLED = process.env.QUORUM_MODE_ENABLED !== "false";
+export const QUORUM_SOFT_DEADLINE_MS = 10_000; // With TARGET_VALID_ANSWERS in, stop waiting on a wave after this
+export const LATE_ANSWER_GRACE_MS = 5_000; // Abort stragglers still out this long after their wave settled
+export const LATE_SUMMARY_REFRESH = process.env.LATE_SUMMARY_REFRESH === "true"; // Fold late answers in automatically
 export const AGENT_TIMEOUT_MS = 30_000;
 export const REACTION_ROUND_ENABLED = process.env.REACTION_ROUND_ENABLED === "true";
+export const MAX_DELIBERATION_ROUNDS = Number(process.env.DELIBERATION_ROUNDS) || 3;
+export const CONVERGENCE_THRESHOLD = 0.6; // Positions this similar to the last round count as settled
+export const MAX_FOLLOWUPS = 3;
+export const MAX_DIRECTED_FOLLOWUPS = 3; // Per response
@@ -1,72 +1,124 @@
-// Reaction round - agents respond to each other's initial answers
+// Deliberation rounds - agents revisit their answers against the group's
+// consensus and divergence until positions stop changing
 
 import { randomUUID } from "crypto";
 import type { UserRecord, AgentResponseRecord } from "../db";
 import { addAgentResponsesBatch } from "../db";
+import { deliberationRound } from "../db/types";
+import { extractConsensus, extractDivergence, textSimilarity, type DeliberationSummary } from "../summary";
 import { queryAgent } from "./agent-query";
-import { REACTION_PROMPT, AGENT_TIMEOUT_MS } from "./prompts";
+import { REACTION_PROMPT, AGENT_TIMEOUT_MS, MAX_DELIBERATION_ROUNDS, CONVERGENCE_THRESHOLD } from "./prompts";
 import type { ConsultationEmitter } from "./emitter";
+import { createDeltaStreamer } from "./delta-stream";
 
-export async function runReactionRound(
+/** The clustered points every agent sees before the next round */
+function describePositions(positions: AgentResponseRecord[]): string {
+  const consensus = extractConsensus(positions);
+  const divergence = extractDivergence(positions);
+  const lines: string[] = [];
+
+  lines.push("大家的共识：");
+  if (consensus.length === 0) lines.push("- 暂无明显共识");
+  for (const c of consensus) lines.push(`- ${c.point}（${c.agentCount}/${c.totalAgents} 位认同）`);
+
+  lines.push("", "大家的分歧：");
+  if (divergence.length === 0) lines.push("- 暂无明显分歧");
+  for (const d of divergence) lines.push(`- 「${d.pointA}」 vs 「${d.pointB}」（${d.splitRatio}）`);
+
+  return lines.join("\n");
+}
+
+/**
+ * Run up to MAX_DELIBERATION_ROUNDS rounds over the agents with a valid initial
+ * answer. Each agent's latest valid answer is its position; the loop ends early
+ * once positions are, on average, CONVERGENCE_THRESHOLD similar to the round before.
+ */
+export async function runDeliberation(
   consultationId: string,
   question: string,
   validInitialResponses: AgentResponseRecord[],
   agentsToQuery: UserRecord[],
-  emitter: ConsultationEmitter
-): Promise<void> {
-  emitter.emit({ type: "reaction:start", triggerCount: validInitialResponses.length });
-
-  const summaryText = validInitialResponses
-    .map((r, i) => `${i + 1}. Agent ${r.responderId.slice(0, 8)}: ${r.rawResponse.slice(0, 100)}...`)
-    .join("\n");
-
-  const reactionPrompt = REACTION_PROMPT + summaryText + "\n\n" + question;
-
-  const reactionTargets = agentsToQuery.filter((agent) =>
-    validInitialResponses.some((r) => r.responderId === agent.id)
-  );
-
-  const results = await Promise.allSettled(
-    reactionTargets.map((agent) => {
-      emitter.emit({ type: "agent:query_start", agentId: agent.id, round: "reaction" });
-      return queryAgent(agent, question, reactionPrompt);
-    })
-  );
-
-  const pending: Array<{ response: AgentResponseRecord; round: number }> = [];
-
-  for (let i = 0; i < results.length; i++) {
-    const result = results[i];
-    const agent = reactionTargets[i];
-    const succeeded = result.status === "fulfilled" && !!result.value;
-
-    const response: AgentResponseRecord = {
-      id: randomUUID(),
-      consultationId,
-      responderId: agent.id,
-      sessionId: succeeded ? result.value!.sessionId : "",
-      rawResponse: succeeded ? result.value!.text : "Reaction round failed",
-      keyPoints: [],
-      isValid: succeeded,
-      invalidReason: succeeded ? undefined : "Reaction round timeout or failed",
-      latencyMs: succeeded ? result.value!.latencyMs : AGENT_TIMEOUT_MS,
-      createdAt: Date.now(),
-      round: "reaction",
-    };
-    pending.push({ response, round: 1 });
-
-    if (succeeded) {
-      emitter.emit({ type: "agent:response", agentId: agent.id, round: "reaction", latencyMs: result.value!.latencyMs });
-    } else {
-      emitter.emit({ type: "agent:error", agentId: agent.id, error: "Reaction failed" });
+  emitter: ConsultationEmitter,
+  signal?: AbortSignal
+): Promise<DeliberationSummary> {
+  const positions = new Map(validInitialResponses.map((r) => [r.responderId, r]));
+  const participants = agentsToQuery.filter((agent) => positions.has(agent.id));
+  const trace: DeliberationSummary = {
+    rounds: [{ round: 0, consensus: extractConsensus([...positions.values()]) }],
+    converged: false,
+  };
+
+  for (let round = 1; round <= MAX_DELIBERATION_ROUNDS && !signal?.aborted; round++) {
+    emitter.emit({ type: "reaction:start", round, triggerCount: participants.length });
+
+    const prompt = `${REACTION_PROMPT}${describePositions([...positions.values()])}\n\n对方原始问题：${question}`;
+    const deltas = createDeltaStreamer(emitter, "reaction");
+    const results = await Promise.allSettled(
+      participants.map((agent) => {
+        emitter.emit({ type: "agent:query_start", agentId: agent.id, round: "reaction" });
+        // Continue the agent's own session so it remembers its previous answer
+        const sessionId = positions.get(agent.id)?.sessionId || undefined;
+        return queryAgent(agent, question, prompt, sessionId, signal, deltas.forAgent(agent.id));
+      })
+    );
+    deltas.flush();
+    if (signal?.aborted) break;
+
+    const pending: Array<{ response: AgentResponseRecord; round: number }> = [];
+    const similarities: number[] = [];
+
+    for (let i = 0; i < results.length; i++) {
+      const result = results[i];
+      const agent = participants[i];
+      const succeeded = result.status === "fulfilled" && !!result.value;
+
+      const response: AgentResponseRecord = {
+        id: randomUUID(),
+        consultationId,
+        responderId: agent.id,
+        sessionId: succeeded ? result.value!.sessionId : "",
+        rawResponse: succeeded ? result.value!.text : "Reaction round failed",
+        keyPoints: [],
+        isValid: succeeded,
+        invalidReason: succeeded ? undefined : "Reaction round timeout or failed",
+        latencyMs: succeeded ? result.value!.latencyMs : AGENT_TIMEOUT_MS,
+        createdAt: Date.now(),
+        round: "reaction",
+        roundIndex: round,
+      };
+      pending.push({ response, round: deliberationRound(round) });
+
+      if (succeeded) {
+        emitter.emit({ type: "agent:response", agentId: agent.id, round: "reaction", latencyMs: result.value!.latencyMs });
+        similarities.push(textSimilarity(positions.get(agent.id)!.rawResponse, response.rawResponse));
+        positions.set(agent.id, response);
+      } else {
+        emitter.emit({ type: "agent:error", agentId: agent.id, error: "Reaction failed" });
+      }
+    }
+
+    const batchResults = await addAgentResponsesBatch(pending);
+    const failed = batchResults.filter((r) => !r.success);
+    if (failed.length > 0) {
+      console.error(`[Engine] ${failed.length} reaction responses failed to persist`);
     }
-  }
 
-  const batchResults = await addAgentResponsesBatch(pending);
-  const failed = batchResults.filter((r) => !r.success);
-  if (failed.length > 0) {
-    console.error(`[Engine] ${failed.length} reaction responses failed to persist`);
+    // Nobody answered: nothing to compare, so stop without calling it converged
+    if (similarities.length === 0) {
+      trace.rounds.push({ round, consensus: [], failed: true });
+      emitter.emit({ type: "reaction:failed", round, reason: "No agent answered" });
+      break;
+    }
+
+    const similarity = similarities.reduce((a, b) => a + b, 0) / similarities.length;
+    trace.rounds.push({ round, consensus: extractConsensus([...positions.values()]), similarity });
+    emitter.emit({ type: "reaction:complete", round, responseCount: similarities.length, similarity });
+
+    if (similarity >= CONVERGENCE_THRESHOLD) {
+      trace.converged = round < MAX_DELIBERATION_ROUNDS;
+      break;
+    }
   }
 
-  emitter.emit({ type: "reaction:complete", responseCount: pending.length });
+  return trace;
 }
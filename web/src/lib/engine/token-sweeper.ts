@@ -0,0 +1,53 @@
+// Background token refresh - keeps rarely picked agents' tokens fresh so they stay in the pool
+
+import { refreshAccessToken, TokenRefreshError } from "../secondme";
+import {
+  getUsersWithTokensExpiringBefore,
+  updateUserTokens,
+  acquireLock,
+  releaseLock,
+} from "../db";
+import { TOKEN_SWEEP } from "../db/types";
+import { tokenRefreshLockKey, handleRefreshFailure } from "./agent-query";
+
+export interface TokenSweepReport {
+  checked: number; // Pool members with a token inside the refresh window
+  refreshed: number;
+  failed: number; // Includes reloginRequired
+  reloginRequired: number; // Refresh token rejected; owner notified
+  skipped: number; // A consultation was refreshing the same token
+}
+
+/** Refresh every pool member's token that expires within TOKEN_SWEEP.REFRESH_AHEAD_MS */
+export async function sweepExpiringTokens(): Promise<TokenSweepReport> {
+  const report: TokenSweepReport = { checked: 0, refreshed: 0, failed: 0, reloginRequired: 0, skipped: 0 };
+  const users = await getUsersWithTokensExpiringBefore(Date.now() + TOKEN_SWEEP.REFRESH_AHEAD_MS);
+
+  for (const user of users) {
+    report.checked++;
+    const lockKey = tokenRefreshLockKey(user.id);
+    if (!(await acquireLock(lockKey, TOKEN_SWEEP.LOCK_SECONDS))) {
+      report.skipped++;
+      continue;
+    }
+
+    try {
+      const tokens = await refreshAccessToken(user.refreshToken);
+      await updateUserTokens(user.id, tokens.accessToken, tokens.refreshToken, tokens.expiresIn);
+      report.refreshed++;
+    } catch (error) {
+      report.failed++;
+      // A network error is retried on the next sweep; a dead refresh token needs the owner
+      if (error instanceof TokenRefreshError) {
+        report.reloginRequired++;
+        await handleRefreshFailure(user.id, error);
+      } else {
+        console.error(`[TokenSweep] Refresh failed for ${user.id}:`, error);
+      }
+    } finally {
+      await releaseLock(lockKey);
+    }
+  }
+
+  return report;
+}
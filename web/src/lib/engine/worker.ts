@@ -0,0 +1,149 @@
+// Consultation job worker and stale-job sweeper
+
+import { randomUUID } from "crypto";
+import {
+  claimConsultationJob,
+  renewConsultationJobLease,
+  requeueConsultationJob,
+  completeConsultationJob,
+  failConsultationJob,
+  getActiveConsultationJobs,
+  getConsultation,
+  getAgentResponses,
+  updateConsultation,
+  acquireLock,
+  type ConsultationJobRecord,
+} from "../db";
+import { KV_KEYS, JOB_QUEUE } from "../db/types";
+import { buildSummary } from "../summary";
+import { runConsultation } from "./orchestrator";
+import { publishEvent } from "./event-bus";
+
+const ABANDONED_REASON = "咨询任务意外中断，已基于已收到的回复生成结果";
+const FAILED_REASON = "咨询任务多次中断，未能收到有效回复，请重新提问";
+
+/**
+ * Run a claimed job; returns true once this worker is done with it: the job reached
+ * a terminal state, or another worker took it over and the run was aborted.
+ */
+export async function runJob(job: ConsultationJobRecord, workerId: string): Promise<boolean> {
+  const lease = new AbortController();
+  const heartbeat = setInterval(async () => {
+    try {
+      if (await renewConsultationJobLease(job.consultationId, workerId)) return;
+      console.error(`[Worker] Lost the lease on ${job.consultationId}; stopping this run`);
+      clearInterval(heartbeat);
+      lease.abort();
+    } catch (err) {
+      // A lapsed lease shows up as a failed renewal on a later beat
+      console.error(`[Worker] Lease renewal for ${job.consultationId} failed:`, err);
+    }
+  }, JOB_QUEUE.HEARTBEAT_MS);
+
+  try {
+    await runConsultation(job.askerId, job.question, undefined, job.consultationId, lease.signal);
+    // The new owner completes or requeues the job
+    if (!lease.signal.aborted) await completeConsultationJob(job.consultationId);
+    return true;
+  } catch (err) {
+    if (lease.signal.aborted) return true;
+    const message = err instanceof Error ? err.message : String(err);
+    console.error(`[Worker] Consultation ${job.consultationId} attempt ${job.attempts} failed:`, err);
+    if (job.attempts < JOB_QUEUE.MAX_ATTEMPTS) {
+      await requeueConsultationJob(job.consultationId, message);
+      return false;
+    }
+    await finaliseAbandoned(job, message);
+    return true;
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+/** Claim and run one consultation's job, retrying in-process until it is settled */
+export async function processConsultationJob(
+  consultationId: string,
+  workerId: string = randomUUID()
+): Promise<void> {
+  for (;;) {
+    const job = await claimConsultationJob(workerId, consultationId);
+    if (!job) return; // Finished, or another worker holds the lease
+    if (await runJob(job, workerId)) return;
+  }
+}
+
+/** Claim and run up to `maxJobs` queued or lease-expired jobs; returns how many ran */
+export async function runWorker(options: { workerId?: string; maxJobs?: number } = {}): Promise<number> {
+  const workerId = options.workerId ?? randomUUID();
+  const maxJobs = options.maxJobs ?? 1;
+  let ran = 0;
+  while (ran < maxJobs) {
+    const job = await claimConsultationJob(workerId);
+    if (!job) break;
+    await runJob(job, workerId);
+    ran++;
+  }
+  return ran;
+}
+
+/**
+ * Settle a job whose worker is gone: PARTIAL with a summary when some agents had
+ * already answered, FAILED otherwise. Either way the asker sees why.
+ */
+async function finaliseAbandoned(
+  job: ConsultationJobRecord,
+  error: string
+): Promise<"PARTIAL" | "FAILED" | "CANCELLED"> {
+  const consultation = await getConsultation(job.consultationId);
+  if (consultation?.status === "CANCELLED") {
+    await failConsultationJob(job.consultationId, error);
+    return "CANCELLED";
+  }
+
+  const responses = await getAgentResponses(job.consultationId);
+  const valid = responses.filter((r) => r.isValid);
+
+  let status: "PARTIAL" | "FAILED" = "FAILED";
+  if (valid.length > 0) {
+    const summary = await buildSummary(
+      valid,
+      consultation?.agentCount || responses.length,
+      0,
+      responses.filter((r) => r.round === "reaction"),
+      job.question
+    );
+    await updateConsultation(job.consultationId, {
+      status: "PARTIAL",
+      summary: summary as unknown as Record<string, unknown>,
+      statusReason: ABANDONED_REASON,
+    });
+    status = "PARTIAL";
+  } else {
+    await updateConsultation(job.consultationId, { status: "FAILED", statusReason: FAILED_REASON });
+  }
+
+  await failConsultationJob(job.consultationId, error);
+  // Let any open SSE stream finish instead of waiting for its timeout
+  await publishEvent(job.consultationId, { type: "consultation:done", status }).catch(() => {});
+  return status;
+}
+
+/**
+ * Settle jobs that ran out of attempts and whose last lease lapsed. Jobs with
+ * attempts left are not touched: `runWorker` resumes them on its next claim.
+ */
+export async function sweepStaleJobs(now: number = Date.now()): Promise<{ settled: number }> {
+  let settled = 0;
+
+  for (const job of await getActiveConsultationJobs()) {
+    const leaseActive = job.state === "RUNNING" && (job.leaseExpiresAt ?? 0) > now;
+    if (leaseActive || job.attempts < JOB_QUEUE.MAX_ATTEMPTS) continue;
+
+    // Take the lease ourselves so a racing worker cannot claim it mid-settle
+    if (!(await acquireLock(KV_KEYS.job(job.consultationId), JOB_QUEUE.LEASE_SECONDS))) continue;
+    await finaliseAbandoned(job, "租约过期，重试次数已用完");
+    settled++;
+  }
+
+  return { settled };
+}
@@ -0,0 +1,12 @@
+// Environment helpers shared by the SecondMe client and model providers
+
+// Demo mode flag - when enabled, returns mock responses instead of calling real API
+export const DEMO_MODE = process.env.DEMO_MODE === "true";
+
+export function getRequiredEnvVar(name: string): string {
+  const value = process.env[name];
+  if (!value && !DEMO_MODE) {
+    throw new Error(`${name} is required. Set it in .env.local`);
+  }
+  return value || "";
+}
@@ -60,10 +60,12 @@ function createMockOps(mockSnapshots: Map<string, WeeklySnapshot>): HealthMetric
     updateMetricsIndex: async () => {},
     getUserMetricTypes: async () => [],
     deleteAllUserMetrics: async () => {},
+    recordLatency: async () => {},
+    getLatencyPercentiles: async () => [],
     checkMigrationTriggers: async () => ({
       shouldMigrate: false,
       reasons: [],
-      metrics: { highLatencyOps: 0, totalOps: 0 },
+      metrics: { highLatencyOps: 0, totalOps: 0, windowHours: 24, percentiles: [] },
     }),
   };
 }
@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { getModelProvider, getProviderId } from "@/lib/providers";
+import { triageHealthQuestion } from "@/lib/act";
+
+const ENV_KEYS = [
+  "MODEL_PROVIDER_AGENT",
+  "MODEL_PROVIDER_TRIAGE",
+  "MODEL_PROVIDER_SUMMARY",
+  "SECONDME_API_BASE_URL",
+  "OPENAI_COMPAT_BASE_URL",
+  "OPENAI_COMPAT_API_KEY",
+  "OPENAI_COMPAT_MODEL",
+  "OPENAI_COMPAT_MODEL_TRIAGE",
+];
+
+/** A streaming response whose body arrives in the given chunks */
+function streamResponse(chunks: string[]): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+  return new Response(body, { status: 200, headers: { "Content-Type": "text/event-stream" } });
+}
+
+function jsonResponse(data: unknown): Response {
+  return new Response(JSON.stringify(data), { status: 200, headers: { "Content-Type": "application/json" } });
+}
+
+describe("Model Providers", () => {
+  const saved: Record<string, string | undefined> = {};
+  const fetchMock = vi.fn<typeof fetch>();
+
+  beforeEach(() => {
+    for (const key of ENV_KEYS) {
+      saved[key] = process.env[key];
+      delete process.env[key];
+    }
+    process.env.SECONDME_API_BASE_URL = "https://secondme.test";
+    process.env.OPENAI_COMPAT_BASE_URL = "http://localhost:11434/v1/";
+    process.env.OPENAI_COMPAT_MODEL = "qwen2.5";
+    fetchMock.mockReset();
+    vi.stubGlobal("fetch", fetchMock);
+  });
+
+  afterEach(() => {
+    for (const key of ENV_KEYS) {
+      if (saved[key] === undefined) delete process.env[key];
+      else process.env[key] = saved[key];
+    }
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  describe("selection", () => {
+    it("should default every capability to SecondMe", () => {
+      expect(getProviderId("agent")).toBe("secondme");
+      expect(getProviderId("triage")).toBe("secondme");
+      expect(getProviderId("summary")).toBe("secondme");
+    });
+
+    it("should pick the provider per capability", () => {
+      process.env.MODEL_PROVIDER_TRIAGE = "openai";
+      process.env.MODEL_PROVIDER_SUMMARY = " OpenAI ";
+      expect(getModelProvider("agent").id).toBe("secondme");
+      expect(getModelProvider("triage").id).toBe("openai");
+      expect(getModelProvider("summary").id).toBe("openai");
+    });
+
+    it("should fall back to SecondMe for an unknown provider", () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      process.env.MODEL_PROVIDER_AGENT = "anthropic";
+      expect(getProviderId("agent")).toBe("secondme");
+    });
+  });
+
+  describe("secondme", () => {
+    it("should stream every SecondMe event shape and keep the session id", async () => {
+      fetchMock.mockResolvedValue(
+        streamResponse([
+          'data: {"type":"session","sessionId":"s-1"}\n',
+          'data: {"type":"content_delta","content":"你好"}\ndata: {"type":"del',
+          'ta","text":"，"}\n',
+          'data: {"choices":[{"delta":{"content":"世界"}}]}\n',
+          "data: [DONE]\n",
+        ])
+      );
+      const deltas: string[] = [];
+
+      const result = await getModelProvider("agent").chat({
+        accessToken: "token",
+        message: "hi",
+        systemPrompt: "sys",
+        onDelta: (d) => deltas.push(d),
+      });
+
+      expect(result).toEqual({ text: "你好，世界", sessionId: "s-1" });
+      expect(deltas).toEqual(["你好", "，", "世界"]);
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe("https://secondme.test/api/secondme/chat/stream");
+      expect((init?.headers as Record<string, string>).Authorization).toBe("Bearer token");
+    });
+
+    it("should parse Act results returned as a JSON string", async () => {
+      fetchMock.mockResolvedValue(jsonResponse({ code: 0, data: '{"intent":"emergency"}' }));
+      expect(await getModelProvider("triage").act({ message: "q", systemPrompt: "s" })).toEqual({
+        intent: "emergency",
+      });
+    });
+
+    it("should throw on a non-zero Act code", async () => {
+      fetchMock.mockResolvedValue(jsonResponse({ code: 1, message: "denied" }));
+      await expect(getModelProvider("triage").act({ message: "q", systemPrompt: "s" })).rejects.toThrow(
+        "Act API failed: denied"
+      );
+    });
+  });
+
+  describe("openai-compatible", () => {
+    beforeEach(() => {
+      process.env.MODEL_PROVIDER_AGENT = "openai";
+      process.env.MODEL_PROVIDER_TRIAGE = "openai";
+    });
+
+    it("should stream chat completions from the configured server", async () => {
+      process.env.OPENAI_COMPAT_API_KEY = "sk-local";
+      fetchMock.mockResolvedValue(
+        streamResponse([
+          'data: {"choices":[{"delta":{"role":"assistant"}}]}\r\n',
+          'data: {"choices":[{"delta":{"content":"多喝"}}]}\r\ndata: {"choices":[{"delta":{"content":"水"}}]}',
+        ])
+      );
+
+      const result = await getModelProvider("agent").chat({ message: "hi", systemPrompt: "sys", sessionId: "s-9" });
+
+      expect(result).toEqual({ text: "多喝水", sessionId: "s-9" });
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe("http://localhost:11434/v1/chat/completions");
+      expect((init?.headers as Record<string, string>).Authorization).toBe("Bearer sk-local");
+      expect(JSON.parse(init?.body as string)).toMatchObject({
+        model: "qwen2.5",
+        stream: true,
+        messages: [
+          { role: "system", content: "sys" },
+          { role: "user", content: "hi" },
+        ],
+      });
+    });
+
+    it("should request JSON for Act and use the per-capability model", async () => {
+      process.env.OPENAI_COMPAT_MODEL_TRIAGE = "qwen2.5-7b";
+      fetchMock.mockResolvedValue(
+        jsonResponse({ choices: [{ message: { content: '```json\n{"intent":"medication_related"}\n```' } }] })
+      );
+
+      const data = await getModelProvider("triage").act({ message: "q", systemPrompt: "s" });
+
+      expect(data).toEqual({ intent: "medication_related" });
+      const body = JSON.parse(fetchMock.mock.calls[0][1]?.body as string);
+      expect(body).toMatchObject({ model: "qwen2.5-7b", response_format: { type: "json_object" } });
+      expect(body.stream).toBeUndefined();
+    });
+
+    it("should take the first JSON object when the model adds prose with braces around it", async () => {
+      fetchMock.mockResolvedValue(
+        jsonResponse({
+          choices: [
+            {
+              message: {
+                content: '分类结果 {"intent":"general_consultation","note":"含 } 和 { 的说明"}，备选 {"intent":"emergency"}',
+              },
+            },
+          ],
+        })
+      );
+
+      const data = await getModelProvider("triage").act({ message: "q", systemPrompt: "s" });
+
+      expect(data).toEqual({ intent: "general_consultation", note: "含 } 和 { 的说明" });
+    });
+
+    it("should surface server errors", async () => {
+      fetchMock.mockResolvedValue(new Response("model not found", { status: 404 }));
+      await expect(getModelProvider("agent").chat({ message: "hi", systemPrompt: "sys" })).rejects.toThrow(
+        "Chat API error 404: model not found"
+      );
+    });
+  });
+
+  describe("triage", () => {
+    it("should triage through the configured provider", async () => {
+      process.env.MODEL_PROVIDER_TRIAGE = "openai";
+      fetchMock.mockResolvedValue(
+        jsonResponse({
+          choices: [{ message: { content: '{"intent":"experience_sharing","confidence":0.9,"suggestion":"好"}' } }],
+        })
+      );
+
+      expect(await triageHealthQuestion("做胃镜什么感受")).toEqual({
+        intent: "experience_sharing",
+        confidence: 0.9,
+        suggestion: "好",
+      });
+    });
+
+    it("should fall back to rules when the provider fails", async () => {
+      vi.spyOn(console, "error").mockImplementation(() => {});
+      fetchMock.mockRejectedValue(new Error("fetch failed"));
+
+      expect((await triageHealthQuestion("突然胸痛怎么办")).intent).toBe("emergency");
+    });
+  });
+});
@@ -0,0 +1,25 @@
+// Model provider selection - each capability picks its provider through config
+// MODEL_PROVIDER_AGENT / MODEL_PROVIDER_TRIAGE / MODEL_PROVIDER_SUMMARY = secondme | openai
+
+import type { ModelProvider, ModelCapability, ProviderId } from "./types";
+import { createSecondMeProvider } from "./secondme";
+import { createOpenAICompatibleProvider } from "./openai-compatible";
+
+export type { ModelProvider, ModelCapability, ProviderId, ChatRequest, ChatResult, ActRequest } from "./types";
+
+const PROVIDER_IDS: readonly ProviderId[] = ["secondme", "openai"];
+
+/** Provider configured for a capability; unset or unknown values use SecondMe */
+export function getProviderId(capability: ModelCapability): ProviderId {
+  const configured = process.env[`MODEL_PROVIDER_${capability.toUpperCase()}`]?.trim().toLowerCase();
+  if (!configured) return "secondme";
+  if (PROVIDER_IDS.includes(configured as ProviderId)) return configured as ProviderId;
+  console.warn(`[Providers] Unknown provider "${configured}" for ${capability}, using secondme`);
+  return "secondme";
+}
+
+export function getModelProvider(capability: ModelCapability): ModelProvider {
+  return getProviderId(capability) === "openai"
+    ? createOpenAICompatibleProvider(capability)
+    : createSecondMeProvider();
+}
@@ -0,0 +1,121 @@
+// OpenAI-compatible provider - any server exposing /chat/completions
+// (OpenAI, vLLM, Ollama, LM Studio...). Stateless: no server-side sessions.
+
+import { getRequiredEnvVar } from "../env";
+import type { ModelProvider, ModelCapability, ChatRequest, ChatResult, ActRequest } from "./types";
+import { readEventStream, openAIDelta } from "./sse";
+
+interface OpenAICompatibleConfig {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+}
+
+/** Per-capability model override, e.g. OPENAI_COMPAT_MODEL_TRIAGE, else OPENAI_COMPAT_MODEL */
+function getConfig(capability: ModelCapability): OpenAICompatibleConfig {
+  const model =
+    process.env[`OPENAI_COMPAT_MODEL_${capability.toUpperCase()}`] || getRequiredEnvVar("OPENAI_COMPAT_MODEL");
+  return {
+    baseUrl: getRequiredEnvVar("OPENAI_COMPAT_BASE_URL").replace(/\/+$/, ""),
+    apiKey: process.env.OPENAI_COMPAT_API_KEY || undefined,
+    model,
+  };
+}
+
+async function postCompletion(
+  config: OpenAICompatibleConfig,
+  body: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<Response> {
+  const res = await fetch(`${config.baseUrl}/chat/completions`, {
+    method: "POST",
+    headers: {
+      ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ model: config.model, ...body }),
+    signal,
+  });
+
+  if (!res.ok) {
+    const text = await res.text().catch(() => "");
+    throw new Error(`Chat API error ${res.status}: ${text}`);
+  }
+  return res;
+}
+
+/**
+ * The first balanced `{...}` in `text` that parses as JSON, skipping braces inside
+ * strings. A greedy match would swallow prose between two objects.
+ */
+function firstJsonObject(text: string): unknown {
+  for (let start = text.indexOf("{"); start !== -1; start = text.indexOf("{", start + 1)) {
+    let depth = 0;
+    let inString = false;
+    for (let i = start; i < text.length; i++) {
+      const ch = text[i];
+      if (inString) {
+        if (ch === "\\") i++;
+        else if (ch === '"') inString = false;
+      } else if (ch === '"') {
+        inString = true;
+      } else if (ch === "{") {
+        depth++;
+      } else if (ch === "}" && --depth === 0) {
+        try {
+          return JSON.parse(text.slice(start, i + 1));
+        } catch {
+          break; // Not JSON after all; try the next opening brace
+        }
+      }
+    }
+  }
+  return undefined;
+}
+
+function messagesFor(request: ChatRequest | ActRequest) {
+  return [
+    { role: "system", content: request.systemPrompt },
+    { role: "user", content: request.message },
+  ];
+}
+
+export function createOpenAICompatibleProvider(capability: ModelCapability): ModelProvider {
+  async function chat(request: ChatRequest): Promise<ChatResult> {
+    const res = await postCompletion(
+      getConfig(capability),
+      { messages: messagesFor(request), stream: true },
+      request.signal
+    );
+
+    let fullText = "";
+    await readEventStream(res, (data) => {
+      const delta = openAIDelta(data);
+      if (delta) {
+        fullText += delta;
+        request.onDelta?.(delta);
+      }
+    });
+
+    // No server-side history, so the caller's session id is passed back unchanged
+    return { text: fullText, sessionId: request.sessionId || "" };
+  }
+
+  async function act(request: ActRequest): Promise<unknown> {
+    const res = await postCompletion(
+      getConfig(capability),
+      { messages: messagesFor(request), response_format: { type: "json_object" } },
+      request.signal
+    );
+
+    const json = await res.json();
+    const content = json.choices?.[0]?.message?.content;
+    if (typeof content !== "string") {
+      throw new Error("Act API failed: empty completion");
+    }
+    // Some local servers ignore response_format and wrap the JSON in prose or fences
+    return firstJsonObject(content) ?? JSON.parse(content);
+  }
+
+  return { id: "openai", chat, act };
+}
@@ -0,0 +1,85 @@
+// SecondMe provider - agent chat over the SecondMe streaming API and the Act API
+
+import { getRequiredEnvVar } from "../env";
+import type { ModelProvider, ChatRequest, ChatResult, ActRequest } from "./types";
+import { readEventStream, openAIDelta } from "./sse";
+
+function authHeaders(accessToken?: string): Record<string, string> {
+  return accessToken ? { Authorization: `Bearer ${accessToken}` } : {};
+}
+
+/** Text carried by one SecondMe stream event, which mixes several shapes */
+function secondMeDelta(data: { type?: string; content?: string; text?: string }): string {
+  let delta = "";
+  if (data.type === "content_delta" || data.type === "delta") {
+    delta += data.content || data.text || "";
+  }
+  return delta + openAIDelta(data);
+}
+
+async function chat(request: ChatRequest): Promise<ChatResult> {
+  const { message, systemPrompt, accessToken, sessionId, signal, onDelta } = request;
+  const body: Record<string, unknown> = { message, systemPrompt };
+  if (sessionId) {
+    body.sessionId = sessionId;
+  }
+
+  const res = await fetch(`${getRequiredEnvVar("SECONDME_API_BASE_URL")}/api/secondme/chat/stream`, {
+    method: "POST",
+    headers: { ...authHeaders(accessToken), "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!res.ok) {
+    const status = res.status;
+    const text = await res.text().catch(() => "");
+    throw new Error(`Chat API error ${status}: ${text}`);
+  }
+
+  let fullText = "";
+  let resultSessionId = sessionId || "";
+
+  await readEventStream(res, (raw) => {
+    const data = raw as { type?: string; sessionId?: string };
+    if (data.type === "session" && data.sessionId) {
+      resultSessionId = data.sessionId;
+    }
+    const delta = secondMeDelta(data);
+    if (delta) {
+      fullText += delta;
+      onDelta?.(delta);
+    }
+  });
+
+  return { text: fullText, sessionId: resultSessionId };
+}
+
+async function act(request: ActRequest): Promise<unknown> {
+  const res = await fetch(`${getRequiredEnvVar("SECONDME_API_BASE_URL")}/api/secondme/act`, {
+    method: "POST",
+    headers: { ...authHeaders(request.accessToken), "Content-Type": "application/json" },
+    body: JSON.stringify({
+      message: request.message,
+      systemPrompt: request.systemPrompt,
+      responseFormat: "json",
+    }),
+    signal: request.signal,
+  });
+
+  if (!res.ok) {
+    throw new Error(`Act API error ${res.status}`);
+  }
+
+  const json = await res.json();
+  if (json.code !== 0 || json.data == null) {
+    throw new Error(`Act API failed: ${json.message || JSON.stringify(json)}`);
+  }
+
+  // The Act API returns either an object or the JSON as a string
+  return typeof json.data === "string" ? JSON.parse(json.data) : json.data;
+}
+
+export function createSecondMeProvider(): ModelProvider {
+  return { id: "secondme", chat, act };
+}
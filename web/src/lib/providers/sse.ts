@@ -0,0 +1,47 @@
+// Server-sent events reader shared by the streaming providers
+
+/**
+ * Read a `data:` event stream and hand each JSON payload to `onData`.
+ * Lines are buffered across chunks so an event split by the network is
+ * not dropped; `[DONE]` and non-JSON payloads are skipped.
+ */
+export async function readEventStream(res: Response, onData: (data: unknown) => void): Promise<void> {
+  const reader = res.body?.getReader();
+  if (!reader) throw new Error("No response body");
+
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const handleLine = (line: string) => {
+    if (!line.startsWith("data:")) return;
+    const dataStr = line.slice(5).trim();
+    if (!dataStr || dataStr === "[DONE]") return;
+    let data: unknown;
+    try {
+      data = JSON.parse(dataStr);
+    } catch {
+      return;
+    }
+    onData(data);
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() ?? "";
+    for (const line of lines) handleLine(line.replace(/\r$/, ""));
+  }
+
+  buffer += decoder.decode();
+  if (buffer) handleLine(buffer.replace(/\r$/, ""));
+}
+
+/** Text of an OpenAI-style `choices[0].delta.content` chunk, or "" */
+export function openAIDelta(data: unknown): string {
+  const choices = (data as { choices?: Array<{ delta?: { content?: unknown } }> })?.choices;
+  const content = choices?.[0]?.delta?.content;
+  return typeof content === "string" ? content : "";
+}
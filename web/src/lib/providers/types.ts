@@ -0,0 +1,35 @@
+// Model provider type definitions
+// Each capability (agent chat, triage, summary) is served by a configurable provider
+
+export type ProviderId = "secondme" | "openai";
+
+// What a provider is used for; each can point at a different provider
+export type ModelCapability = "agent" | "triage" | "summary";
+
+export interface ChatRequest {
+  message: string;
+  systemPrompt: string;
+  accessToken?: string; // SecondMe user token; OpenAI-compatible servers use their own key
+  sessionId?: string;
+  signal?: AbortSignal;
+  onDelta?: (delta: string) => void; // Called with each text chunk as it streams in
+}
+
+export interface ChatResult {
+  text: string;
+  sessionId: string;
+}
+
+export interface ActRequest {
+  message: string;
+  systemPrompt: string;
+  accessToken?: string;
+  signal?: AbortSignal;
+}
+
+// Base provider interface - chat streams when onDelta is given, act returns parsed JSON
+export interface ModelProvider {
+  readonly id: ProviderId;
+  chat(request: ChatRequest): Promise<ChatResult>;
+  act(request: ActRequest): Promise<unknown>;
+}
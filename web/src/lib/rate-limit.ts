@@ -8,7 +8,40 @@ interface RateLimitResult {
   resetAt: number; // Unix timestamp ms
 }
 
-const WINDOW_SECONDS = 60;
+export const WINDOW_SECONDS = 60;
+
+// Set by the middleware on the create request so the consultation can
+// remember which window it was charged to
+export const RATE_LIMIT_WINDOW_HEADER = "x-ratelimit-window";
+
+// Auth routes are exempt from rate limiting
+const EXEMPT_PREFIXES = ["/api/auth/"];
+
+// Cancelling is free: it refunds the charge of the consultation it ends
+const CANCEL_PATH = /^\/api\/consultation\/[^/]+$/;
+
+export function rateLimitWindowId(at: number = Date.now()): number {
+  return Math.floor(at / 1000 / WINDOW_SECONDS);
+}
+
+function rateLimitKey(identifier: string, windowId: number): string {
+  return `ratelimit:${identifier}:${windowId}`;
+}
+
+/** Whether a request bypasses the per-window counter entirely */
+export function isRateLimitExempt(method: string, pathname: string): boolean {
+  if (EXEMPT_PREFIXES.some((p) => pathname.startsWith(p))) return true;
+  return method === "DELETE" && CANCEL_PATH.test(pathname);
+}
+
+/** Stable identifier for a logged-in session without exposing the cookie value */
+export function sessionRateLimitId(sessionCookie: string): string {
+  let hash = 0;
+  for (let i = 0; i < sessionCookie.length; i++) {
+    hash = ((hash << 5) - hash + sessionCookie.charCodeAt(i)) | 0;
+  }
+  return `user:${Math.abs(hash).toString(36)}`;
+}
 
 /**
  * Fixed-window rate limiter backed by KV store.
@@ -19,19 +52,72 @@ export async function checkRateLimit(
   identifier: string,
   limit: number
 ): Promise<RateLimitResult> {
-  const windowId = Math.floor(Date.now() / 1000 / WINDOW_SECONDS);
-  const key = `ratelimit:${identifier}:${windowId}`;
+  const windowId = rateLimitWindowId();
+  const key = rateLimitKey(identifier, windowId);
   const resetAt = (windowId + 1) * WINDOW_SECONDS * 1000;
 
-  const current = await db.get<number>(key);
-  const count = current ?? 0;
+  // Increment first so concurrent requests cannot both read the same count
+  const count = await db.incr(key);
+  if (count === 1) {
+    await db.expire(key, WINDOW_SECONDS + 5);
+  }
 
-  if (count >= limit) {
+  if (count > limit) {
     return { allowed: false, remaining: 0, resetAt };
   }
 
-  // Increment counter with TTL
-  await db.set(key, count + 1, { ex: WINDOW_SECONDS + 5 });
+  return { allowed: true, remaining: limit - count, resetAt };
+}
+
+/** Upstash REST credentials the middleware counts against; null when unset (local dev) */
+export function upstashRestConfig(): { url: string; token: string } | null {
+  const url = process.env.UPSTASH_REDIS_REST_URL || process.env.KV_REST_API_URL;
+  const token = process.env.UPSTASH_REDIS_REST_TOKEN || process.env.KV_REST_API_TOKEN;
+  return url && token ? { url, token } : null;
+}
 
-  return { allowed: true, remaining: limit - count - 1, resetAt };
+// Direct Upstash REST call (works in Edge runtime, unlike the DB layer)
+async function upstashCommand(
+  config: { url: string; token: string },
+  command: Array<string | number>
+): Promise<unknown> {
+  const res = await fetch(config.url, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${config.token}`, "Content-Type": "application/json" },
+    body: JSON.stringify(command),
+  });
+  if (!res.ok) {
+    throw new Error(`Upstash ${command[0]} failed: HTTP ${res.status}`);
+  }
+  return ((await res.json()) as { result: unknown }).result;
+}
+
+/** Count one request in the current window; returns the window's count so far */
+export async function chargeRateLimit(
+  config: { url: string; token: string },
+  identifier: string,
+  windowId: number = rateLimitWindowId()
+): Promise<number> {
+  const key = rateLimitKey(identifier, windowId);
+  const count = Number(await upstashCommand(config, ["INCR", key]));
+  // Set TTL only on first increment
+  if (count === 1) {
+    await upstashCommand(config, ["EXPIRE", key, WINDOW_SECONDS + 5]);
+  }
+  return count;
+}
+
+// Decrement and floor in one step, so racing refunds cannot take a window below zero
+const REFUND_SCRIPT =
+  "local n = tonumber(redis.call('GET', KEYS[1]) or '0') if n > 0 then return redis.call('DECR', KEYS[1]) end return 0";
+
+/**
+ * Give back one request counted in window `windowId`, e.g. for a consultation
+ * the asker cancelled. No-op once that window has expired: its charge has
+ * lapsed with it, and the next window never counted the request.
+ */
+export async function refundRateLimit(identifier: string, windowId: number): Promise<void> {
+  const config = upstashRestConfig();
+  if (!config) return;
+  await upstashCommand(config, ["EVAL", REFUND_SCRIPT, 1, rateLimitKey(identifier, windowId)]);
 }
@@ -0,0 +1,43 @@
+// Lexical relevance - BM25 over CJK bigrams and Latin tokens, used to match agents to questions
+
+const TOKEN_RUN = /\p{Script=Han}+|[a-z0-9]+/gu;
+const K1 = 1.2;
+const B = 0.75;
+export const TAG_WEIGHT = 3; // A tag term counts as this many bio occurrences
+
+/** Han runs become overlapping bigrams (a lone character stays as is); Latin words and numbers stay whole */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const [run] of text.toLowerCase().matchAll(TOKEN_RUN)) {
+    if (/^[a-z0-9]/.test(run)) {
+      if (run.length >= 2) tokens.push(run);
+      continue;
+    }
+    if (run.length === 1) tokens.push(run);
+    for (let i = 0; i < run.length - 1; i++) tokens.push(run.slice(i, i + 2));
+  }
+  return tokens;
+}
+
+/** Term frequencies of an agent's profile, tags weighted above bio */
+export function agentTermFrequencies(agent: { tags?: string[]; bio?: string }): Record<string, number> {
+  const terms: Record<string, number> = {};
+  for (const tag of agent.tags ?? []) {
+    for (const term of tokenize(tag)) terms[term] = (terms[term] ?? 0) + TAG_WEIGHT;
+  }
+  for (const term of tokenize(agent.bio ?? "")) terms[term] = (terms[term] ?? 0) + 1;
+  return terms;
+}
+
+/** One term's BM25 contribution to a document's score */
+export function bm25(
+  termFrequency: number,
+  docLength: number,
+  avgDocLength: number,
+  docFrequency: number,
+  docCount: number
+): number {
+  const idf = Math.log(1 + (docCount - docFrequency + 0.5) / (docFrequency + 0.5));
+  const norm = termFrequency + K1 * (1 - B + (B * docLength) / (avgDocLength || 1));
+  return (idf * termFrequency * (K1 + 1)) / norm;
+}
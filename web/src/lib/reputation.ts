@@ -0,0 +1,62 @@
+// Agent reputation scoring - blends answer history and asker votes into 0..1
+
+import type { AgentReputationStats } from "./db/types";
+import { AGENT_TIMEOUT_MS } from "./engine/prompts";
+
+// Weights sum to 1 so the score stays within 0..1
+const WEIGHTS = { validity: 0.4, helpfulness: 0.25, reliability: 0.2, speed: 0.15 };
+const EXPLORATION_BONUS = 0.3; // Fades with 1/sqrt(answers) so new agents still get asked
+export const MIN_REPUTATION_SAMPLES = 5; // Fewer answers than this and the agent counts as new
+
+export interface ReputationScore {
+  score: number;
+  samples: number; // Initial answers requested
+  isNew: boolean;
+  validRate: number | null;
+  timeoutRate: number | null;
+  duplicateRate: number | null;
+  helpfulRate: number | null;
+  medianLatencyMs: number | null;
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/** Raw rates for display plus a score from Laplace-smoothed rates (no history scores 0.5) */
+export function scoreReputation(stats: AgentReputationStats | null | undefined): ReputationScore {
+  const answered = stats?.answered ?? 0;
+  const votes = (stats?.helpful ?? 0) + (stats?.notHelpful ?? 0);
+  const medianLatencyMs = median(stats?.recentLatencies ?? []);
+
+  const validity = ((stats?.valid ?? 0) + 1) / (answered + 2);
+  const reliability = 1 - (stats?.timeouts ?? 0) / (answered + 2);
+  const helpfulness = ((stats?.helpful ?? 0) + 1) / (votes + 2);
+  const speed = medianLatencyMs === null ? 0.5 : 1 - Math.min(medianLatencyMs / AGENT_TIMEOUT_MS, 1);
+
+  const score =
+    WEIGHTS.validity * validity +
+    WEIGHTS.helpfulness * helpfulness +
+    WEIGHTS.reliability * reliability +
+    WEIGHTS.speed * speed;
+
+  return {
+    score,
+    samples: answered,
+    isNew: answered < MIN_REPUTATION_SAMPLES,
+    validRate: answered ? stats!.valid / answered : null,
+    timeoutRate: answered ? stats!.timeouts / answered : null,
+    duplicateRate: answered ? stats!.duplicates / answered : null,
+    helpfulRate: votes ? stats!.helpful / votes : null,
+    medianLatencyMs,
+  };
+}
+
+/** Reputation as used for ranking: the score plus an exploration bonus for agents with few answers */
+export function rankingReputation(stats: AgentReputationStats | null | undefined): number {
+  const { score, samples } = scoreReputation(stats);
+  return Math.min(1, score + EXPLORATION_BONUS / Math.sqrt(samples + 1));
+}
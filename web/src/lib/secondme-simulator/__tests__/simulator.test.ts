@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from "vitest";
+import {
+  getAuthorizationUrl,
+  exchangeCodeForTokens,
+  refreshAccessToken,
+  getUserInfo,
+  chatWithAgent,
+} from "@/lib/secondme";
+import { triageHealthQuestion } from "@/lib/act";
+import { createSecondMeSimulator, ACT_TARGET, type SecondMeSimulator } from "@/lib/secondme-simulator";
+
+const ENV = {
+  SECONDME_CLIENT_ID: "sim-client",
+  SECONDME_CLIENT_SECRET: "sim-secret",
+  SECONDME_REDIRECT_URI: "http://localhost:3000/api/auth/callback",
+};
+
+describe("SecondMe Simulator", () => {
+  let simulator: SecondMeSimulator;
+  const saved: Record<string, string | undefined> = {};
+
+  beforeAll(async () => {
+    simulator = createSecondMeSimulator();
+    const url = await simulator.listen();
+    const env = { ...ENV, SECONDME_API_BASE_URL: url, SECONDME_OAUTH_URL: `${url}/oauth/` };
+    for (const [key, value] of Object.entries(env)) {
+      saved[key] = process.env[key];
+      process.env[key] = value;
+    }
+  });
+
+  afterAll(async () => {
+    for (const [key, value] of Object.entries(saved)) {
+      if (value === undefined) delete process.env[key];
+      else process.env[key] = value;
+    }
+    await simulator.close();
+  });
+
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    for (const target of ["sim-sleep", "sim-checkup", ACT_TARGET]) simulator.setFault(target, null);
+  });
+
+  /** Walk the OAuth redirect like a browser and return the callback's code */
+  async function authorize(persona: string): Promise<string> {
+    const res = await fetch(`${getAuthorizationUrl("state-1")}&persona=${persona}`, { redirect: "manual" });
+    expect(res.status).toBe(302);
+    const callback = new URL(res.headers.get("location")!);
+    expect(callback.origin + callback.pathname).toBe(ENV.SECONDME_REDIRECT_URI);
+    expect(callback.searchParams.get("state")).toBe("state-1");
+    return callback.searchParams.get("code")!;
+  }
+
+  it("should complete the OAuth code exchange and serve user info", async () => {
+    const code = await authorize("sim-sleep");
+    const tokens = await exchangeCodeForTokens(code);
+
+    expect(tokens.expiresIn).toBe(7200);
+    expect(await getUserInfo(tokens.accessToken)).toMatchObject({ userId: "sim-sleep", name: "失眠过来人" });
+    // Codes are single use
+    await expect(exchangeCodeForTokens(code)).rejects.toThrow("Token exchange failed");
+  });
+
+  it("should rotate refresh tokens and reject expired access tokens", async () => {
+    const first = simulator.issueTokens("sim-checkup");
+    simulator.expireAccessTokens("sim-checkup");
+    await expect(getUserInfo(first.accessToken)).rejects.toThrow("Get user info failed");
+
+    const second = await refreshAccessToken(first.refreshToken);
+    expect((await getUserInfo(second.accessToken)).userId).toBe("sim-checkup");
+    await expect(refreshAccessToken(first.refreshToken)).rejects.toThrow("Token refresh failed");
+  });
+
+  it("should fail refreshes once the persona's tokens are revoked", async () => {
+    const tokens = simulator.issueTokens("sim-runner");
+    simulator.revokeTokens("sim-runner");
+    await expect(refreshAccessToken(tokens.refreshToken)).rejects.toThrow("Token refresh failed: invalid refresh token");
+  });
+
+  it("should stream persona replies and keep the session across turns", async () => {
+    const { accessToken } = simulator.issueTokens("sim-sleep");
+    const deltas: string[] = [];
+
+    const first = await chatWithAgent(accessToken, "失眠怎么办", "sys", undefined, undefined, (d) => deltas.push(d));
+    expect(first.text).toContain("固定作息");
+    expect(deltas.join("")).toBe(first.text);
+    expect(deltas.length).toBeGreaterThan(1);
+
+    const second = await chatWithAgent(accessToken, "还有吗", "sys", first.sessionId);
+    expect(second.sessionId).toBe(first.sessionId);
+    expect(second.text).toContain("睡眠门诊");
+  });
+
+  it("should still recover the reply from malformed frames", async () => {
+    const { accessToken } = simulator.issueTokens("sim-checkup");
+    simulator.setFault("sim-checkup", "malformed");
+
+    const result = await chatWithAgent(accessToken, "胃镜", "sys");
+    expect(result.text.startsWith("我主人每年都做体检")).toBe(true);
+  });
+
+  it("should inject 401s and timeouts", async () => {
+    const { accessToken } = simulator.issueTokens("sim-sleep");
+
+    simulator.setFault("sim-sleep", "unauthorized");
+    await expect(chatWithAgent(accessToken, "q", "sys")).rejects.toThrow("Chat API error 401");
+
+    simulator.setFault("sim-sleep", "timeout");
+    await expect(chatWithAgent(accessToken, "q", "sys", undefined, AbortSignal.timeout(200))).rejects.toThrow();
+  });
+
+  it("should triage through the Act endpoint and fall back on garbage", async () => {
+    expect(await triageHealthQuestion("突然胸痛怎么办")).toMatchObject({ intent: "emergency", confidence: 0.92 });
+    expect(await triageHealthQuestion("做胃镜是什么感受")).toMatchObject({
+      intent: "experience_sharing",
+      confidence: 0.88,
+    });
+
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    simulator.setFault(ACT_TARGET, "malformed");
+    // The rule-based fallback answers with its own confidence
+    expect(await triageHealthQuestion("突然胸痛怎么办")).toMatchObject({ intent: "emergency", confidence: 0.7 });
+  });
+
+  it("should accept faults through the control endpoint", async () => {
+    const res = await fetch(`${simulator.url}/__simulator/control`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ target: "sim-checkup", fault: "server_error" }),
+    });
+    expect((await res.json()).data).toEqual({ target: "sim-checkup", fault: "server_error" });
+
+    const { accessToken } = simulator.issueTokens("sim-checkup");
+    await expect(chatWithAgent(accessToken, "q", "sys")).rejects.toThrow("Chat API error 500");
+  });
+});
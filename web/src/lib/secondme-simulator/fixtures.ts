@@ -0,0 +1,97 @@
+// SecondMe simulator fixtures - personas and triage rules for local runs and tests
+
+import type { TriageIntent } from "@/lib/act";
+
+// Injected failures: hang until the client gives up, reject the token,
+// garble the SSE stream, or answer with a 500
+export type SimulatorFault = "timeout" | "unauthorized" | "malformed" | "server_error";
+
+export interface SimulatorPersona {
+  id: string; // SecondMe userId
+  name: string;
+  avatar?: string;
+  bio?: string;
+  replies: string[]; // Cycled through, one per chat turn
+  latencyMs?: number; // Delay before the first byte
+  fault?: SimulatorFault | null;
+}
+
+export interface TriageRule {
+  keywords: string[];
+  intent: TriageIntent;
+  confidence: number;
+  suggestion: string;
+}
+
+export const DEFAULT_PERSONAS: SimulatorPersona[] = [
+  {
+    id: "sim-asker",
+    name: "提问者小林",
+    bio: "最近在关注睡眠和体检",
+    replies: ["我主人暂时没有相关经验，就不乱说了。"],
+  },
+  {
+    id: "sim-sleep",
+    name: "失眠过来人",
+    bio: "失眠 睡眠 作息 焦虑",
+    replies: [
+      "我主人之前失眠了大半年，后来坚持固定作息、睡前一小时不看手机，大概三周后入睡明显变快。",
+      "补充一点：主人当时还去睡眠门诊做过评估，医生建议先调整作息，效果不好再考虑其他办法。",
+    ],
+  },
+  {
+    id: "sim-checkup",
+    name: "体检达人",
+    bio: "体检 胃镜 B超 血常规",
+    replies: [
+      "我主人每年都做体检，胃镜前一晚八点后就不再吃东西，做的是无痛胃镜，醒来就结束了，花了六百元左右。",
+      "如果做腹部B超记得空腹，带上以前的报告方便医生对比，普通号就够用，不必一开始挂专家号。",
+    ],
+  },
+  {
+    id: "sim-runner",
+    name: "跑步爱好者",
+    bio: "运动 跑步 膝盖 康复",
+    replies: [
+      "我主人跑步伤过膝盖，去医院骨科拍了片子，休息两周后配合康复训练，慢慢恢复到每周跑三次。",
+    ],
+  },
+  {
+    id: "sim-parent",
+    name: "二胎妈妈",
+    bio: "儿科 发烧 疫苗 育儿",
+    replies: [
+      "我主人家孩子发烧时会先在家观察精神状态，超过三天或者精神很差就直接去儿科急诊，别在家硬扛。",
+    ],
+  },
+  {
+    id: "sim-office",
+    name: "久坐上班族",
+    bio: "颈椎 腰痛 久坐 理疗",
+    replies: [
+      "我主人长期久坐导致颈椎不舒服，后来每小时起来活动五分钟，又做了几次理疗，症状轻了很多。",
+    ],
+  },
+];
+
+// Checked in order; the first rule with a matching keyword wins
+export const DEFAULT_TRIAGE_RULES: TriageRule[] = [
+  {
+    keywords: ["胸痛", "出血", "呼吸困难", "晕倒", "突然"],
+    intent: "emergency",
+    confidence: 0.92,
+    suggestion: "检测到可能的紧急症状，建议立即就医",
+  },
+  {
+    keywords: ["药", "副作用", "服用"],
+    intent: "medication_related",
+    confidence: 0.85,
+    suggestion: "用药问题建议咨询专业药师或医生",
+  },
+  {
+    keywords: ["感受", "流程", "经历", "体验", "做过"],
+    intent: "experience_sharing",
+    confidence: 0.88,
+    suggestion: "将为你收集他人的相关经验",
+  },
+];
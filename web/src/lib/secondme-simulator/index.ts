@@ -0,0 +1,6 @@
+// SecondMe simulator - local stand-in server for integration tests and demos
+
+export { createSecondMeSimulator, ACT_TARGET } from "./server";
+export type { SecondMeSimulator, SimulatorOptions } from "./server";
+export { DEFAULT_PERSONAS, DEFAULT_TRIAGE_RULES } from "./fixtures";
+export type { SimulatorPersona, SimulatorFault, TriageRule } from "./fixtures";
@@ -0,0 +1,323 @@
+// SecondMe simulator - a local stand-in for the OAuth, user info, chat and Act
+// endpoints so the login → ask → report flow runs without network
+
+import { createServer, type IncomingMessage, type ServerResponse, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { randomUUID } from "node:crypto";
+import {
+  DEFAULT_PERSONAS,
+  DEFAULT_TRIAGE_RULES,
+  type SimulatorPersona,
+  type SimulatorFault,
+  type TriageRule,
+} from "./fixtures";
+
+// Fault target for the Act endpoint, which has no persona
+export const ACT_TARGET = "act";
+
+const DEFAULT_TOKEN_TTL_SECONDS = 7200;
+const STREAM_CHUNKS = 5;
+
+export interface SimulatorOptions {
+  personas?: SimulatorPersona[];
+  triageRules?: TriageRule[];
+  tokenTtlSeconds?: number;
+  chunkDelayMs?: number; // Pause between streamed chunks
+}
+
+export interface SecondMeSimulator {
+  readonly url: string; // Base URL for SECONDME_API_BASE_URL; OAuth page is `${url}/oauth/`
+  listen(port?: number): Promise<string>;
+  close(): Promise<void>;
+  /** Inject or clear a fault for a persona id or ACT_TARGET */
+  setFault(target: string, fault: SimulatorFault | null): void;
+  setLatency(personaId: string, latencyMs: number): void;
+  /** Invalidate every token issued to a persona, as if it revoked the app */
+  revokeTokens(personaId: string): void;
+  /** Expire a persona's access tokens; its refresh tokens keep working */
+  expireAccessTokens(personaId: string): void;
+  /** Log a persona in directly and return the tokens the callback would get */
+  issueTokens(personaId: string): TokenData;
+  readonly requests: Array<{ method: string; path: string }>;
+}
+
+interface TokenData {
+  accessToken: string;
+  refreshToken: string;
+  expiresIn: number;
+  scope: string[];
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+function ok(res: ServerResponse, data: unknown) {
+  sendJson(res, 200, { code: 0, data });
+}
+
+function fail(res: ServerResponse, code: number, message: string) {
+  sendJson(res, 200, { code, message });
+}
+
+async function readBody(req: IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+function bearer(req: IncomingMessage): string {
+  const header = req.headers.authorization ?? "";
+  return header.startsWith("Bearer ") ? header.slice(7) : "";
+}
+
+/** Split a reply into roughly STREAM_CHUNKS pieces */
+function chunkText(text: string): string[] {
+  const size = Math.max(1, Math.ceil(text.length / STREAM_CHUNKS));
+  const chunks: string[] = [];
+  for (let i = 0; i < text.length; i += size) chunks.push(text.slice(i, i + size));
+  return chunks;
+}
+
+export function createSecondMeSimulator(options: SimulatorOptions = {}): SecondMeSimulator {
+  const personas = new Map(
+    (options.personas ?? DEFAULT_PERSONAS).map((p) => [p.id, { ...p, replies: [...p.replies] }])
+  );
+  const triageRules = options.triageRules ?? DEFAULT_TRIAGE_RULES;
+  const tokenTtlSeconds = options.tokenTtlSeconds ?? DEFAULT_TOKEN_TTL_SECONDS;
+  const chunkDelayMs = options.chunkDelayMs ?? 0;
+
+  const codes = new Map<string, string>(); // code -> persona id, single use
+  const accessTokens = new Map<string, { personaId: string; expiresAt: number }>();
+  const refreshTokens = new Map<string, string>(); // refresh token -> persona id
+  const turns = new Map<string, number>(); // persona id -> chat turns served
+  const faults = new Map<string, SimulatorFault>(); // persona id or ACT_TARGET -> fault
+  for (const persona of personas.values()) if (persona.fault) faults.set(persona.id, persona.fault);
+  const requests: Array<{ method: string; path: string }> = [];
+  let baseUrl = "";
+
+  function faultFor(target: string): SimulatorFault | null {
+    return faults.get(target) ?? null;
+  }
+
+  function issueTokens(personaId: string): TokenData {
+    if (!personas.has(personaId)) throw new Error(`Unknown persona: ${personaId}`);
+    const accessToken = `sim-at-${personaId}-${randomUUID()}`;
+    const refreshToken = `sim-rt-${personaId}-${randomUUID()}`;
+    accessTokens.set(accessToken, { personaId, expiresAt: Date.now() + tokenTtlSeconds * 1000 });
+    refreshTokens.set(refreshToken, personaId);
+    return { accessToken, refreshToken, expiresIn: tokenTtlSeconds, scope: ["user.info", "chat"] };
+  }
+
+  /** Persona behind a live access token, or null */
+  function authenticate(req: IncomingMessage): SimulatorPersona | null {
+    const entry = accessTokens.get(bearer(req));
+    if (!entry || entry.expiresAt <= Date.now()) return null;
+    return personas.get(entry.personaId) ?? null;
+  }
+
+  /**
+   * Apply latency and any injected fault. Returns true when the fault
+   * already handled (or deliberately abandoned) the response.
+   */
+  async function applyFault(target: string, res: ServerResponse, latencyMs = 0): Promise<boolean> {
+    if (latencyMs > 0) await sleep(latencyMs);
+    const fault = faultFor(target);
+    if (fault === "timeout") return true; // Never answer; the client's abort closes the socket
+    if (fault === "server_error") {
+      sendJson(res, 500, { code: 500, message: "simulated server error" });
+      return true;
+    }
+    if (fault === "unauthorized") {
+      sendJson(res, 401, { code: 401, message: "simulated unauthorized" });
+      return true;
+    }
+    return false;
+  }
+
+  function handleAuthorize(url: URL, res: ServerResponse) {
+    const redirectUri = url.searchParams.get("redirect_uri");
+    if (!redirectUri) return sendJson(res, 400, { code: 400, message: "redirect_uri is required" });
+
+    const personaId = url.searchParams.get("persona") ?? personas.keys().next().value;
+    if (!personaId || !personas.has(personaId)) return sendJson(res, 404, { code: 404, message: "unknown persona" });
+
+    const code = `sim-code-${randomUUID()}`;
+    codes.set(code, personaId);
+    const target = new URL(redirectUri);
+    target.searchParams.set("code", code);
+    const state = url.searchParams.get("state");
+    if (state) target.searchParams.set("state", state);
+    res.writeHead(302, { Location: target.toString() });
+    res.end();
+  }
+
+  async function handleTokenCode(req: IncomingMessage, res: ServerResponse) {
+    const form = new URLSearchParams(await readBody(req));
+    const personaId = codes.get(form.get("code") ?? "");
+    if (form.get("grant_type") !== "authorization_code" || !personaId) {
+      return fail(res, 1001, "invalid authorization code");
+    }
+    codes.delete(form.get("code")!);
+    ok(res, issueTokens(personaId));
+  }
+
+  async function handleTokenRefresh(req: IncomingMessage, res: ServerResponse) {
+    const form = new URLSearchParams(await readBody(req));
+    const refreshToken = form.get("refresh_token") ?? "";
+    const personaId = refreshTokens.get(refreshToken);
+    if (form.get("grant_type") !== "refresh_token" || !personaId) {
+      return fail(res, 1002, "invalid refresh token");
+    }
+    if (await applyFault(personaId, res)) return;
+    refreshTokens.delete(refreshToken); // Rotated on every refresh
+    ok(res, issueTokens(personaId));
+  }
+
+  async function handleUserInfo(req: IncomingMessage, res: ServerResponse) {
+    const persona = authenticate(req);
+    if (!persona) return fail(res, 401, "invalid access token");
+    if (await applyFault(persona.id, res, persona.latencyMs)) return;
+    ok(res, { userId: persona.id, name: persona.name, avatar: persona.avatar ?? "", bio: persona.bio });
+  }
+
+  async function handleChat(req: IncomingMessage, res: ServerResponse) {
+    const body = JSON.parse((await readBody(req)) || "{}") as { sessionId?: string };
+    const persona = authenticate(req);
+    if (!persona) return sendJson(res, 401, { code: 401, message: "invalid access token" });
+    if (await applyFault(persona.id, res, persona.latencyMs)) return;
+
+    const turn = turns.get(persona.id) ?? 0;
+    turns.set(persona.id, turn + 1);
+    const reply = persona.replies[turn % persona.replies.length] ?? "";
+    const sessionId = body.sessionId || `sim-session-${randomUUID()}`;
+    const malformed = faultFor(persona.id) === "malformed";
+
+    res.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" });
+    const write = (chunk: string) => {
+      if (!res.destroyed) res.write(chunk);
+    };
+
+    write(`data: ${JSON.stringify({ type: "session", sessionId })}\n\n`);
+    for (const piece of chunkText(reply)) {
+      if (chunkDelayMs > 0) await sleep(chunkDelayMs);
+      const frame = `data: ${JSON.stringify({ type: "content_delta", content: piece })}\n\n`;
+      if (malformed) {
+        // Garbage around every real frame, and the frame itself split mid-JSON
+        write('data: {"type":"content_delta","content":\n\n');
+        write("data: not json\n\nevent: ping\n\n");
+        const cut = Math.floor(frame.length / 2);
+        write(frame.slice(0, cut));
+        await sleep(1);
+        write(frame.slice(cut));
+      } else {
+        write(frame);
+      }
+    }
+    write("data: [DONE]\n\n");
+    res.end();
+  }
+
+  async function handleAct(req: IncomingMessage, res: ServerResponse) {
+    const body = JSON.parse((await readBody(req)) || "{}") as { message?: string };
+    if (await applyFault(ACT_TARGET, res)) return;
+    if (faultFor(ACT_TARGET) === "malformed") return ok(res, '{"intent": "emergency", "confid');
+
+    const message = body.message ?? "";
+    const rule = triageRules.find((r) => r.keywords.some((k) => message.includes(k)));
+    const result = rule
+      ? { intent: rule.intent, confidence: rule.confidence, suggestion: rule.suggestion }
+      : { intent: "general_consultation", confidence: 0.6, suggestion: "将为你咨询多位 AI 获取不同视角的建议" };
+    // The real Act API returns the JSON as a string
+    ok(res, JSON.stringify(result));
+  }
+
+  /** Runtime control for a standalone simulator: POST { target, fault?, latencyMs? } */
+  async function handleControl(req: IncomingMessage, res: ServerResponse) {
+    const body = JSON.parse((await readBody(req)) || "{}") as {
+      target?: string;
+      fault?: SimulatorFault | null;
+      latencyMs?: number;
+      revoke?: boolean;
+    };
+    if (!body.target) return sendJson(res, 400, { code: 400, message: "target is required" });
+    if (body.fault !== undefined) simulator.setFault(body.target, body.fault);
+    if (typeof body.latencyMs === "number") simulator.setLatency(body.target, body.latencyMs);
+    if (body.revoke) simulator.revokeTokens(body.target);
+    ok(res, { target: body.target, fault: faultFor(body.target) });
+  }
+
+  async function route(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const method = req.method ?? "GET";
+    requests.push({ method, path: url.pathname });
+
+    if (method === "GET" && (url.pathname === "/oauth" || url.pathname === "/oauth/")) {
+      return handleAuthorize(url, res);
+    }
+    if (method === "POST" && url.pathname === "/api/oauth/token/code") return handleTokenCode(req, res);
+    if (method === "POST" && url.pathname === "/api/oauth/token/refresh") return handleTokenRefresh(req, res);
+    if (method === "GET" && url.pathname === "/api/secondme/user/info") return handleUserInfo(req, res);
+    if (method === "POST" && url.pathname === "/api/secondme/chat/stream") return handleChat(req, res);
+    if (method === "POST" && url.pathname === "/api/secondme/act") return handleAct(req, res);
+    if (method === "POST" && url.pathname === "/__simulator/control") return handleControl(req, res);
+    sendJson(res, 404, { code: 404, message: "not found" });
+  }
+
+  const server: Server = createServer((req, res) => {
+    route(req, res).catch((err) => {
+      console.error("[Simulator] Request failed:", err);
+      if (!res.headersSent) sendJson(res, 500, { code: 500, message: "simulator error" });
+      else res.end();
+    });
+  });
+
+  const simulator: SecondMeSimulator = {
+    get url() {
+      return baseUrl;
+    },
+    requests,
+
+    listen(port = 0) {
+      return new Promise((resolve, reject) => {
+        server.once("error", reject);
+        server.listen(port, "127.0.0.1", () => {
+          baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+          resolve(baseUrl);
+        });
+      });
+    },
+
+    close() {
+      // Drop sockets held open by the timeout fault
+      server.closeAllConnections();
+      return new Promise((resolve) => server.close(() => resolve()));
+    },
+
+    setFault(target, fault) {
+      if (fault) faults.set(target, fault);
+      else faults.delete(target);
+    },
+
+    setLatency(personaId, latencyMs) {
+      const persona = personas.get(personaId);
+      if (persona) persona.latencyMs = latencyMs;
+    },
+
+    revokeTokens(personaId) {
+      for (const [token, entry] of accessTokens) if (entry.personaId === personaId) accessTokens.delete(token);
+      for (const [token, owner] of refreshTokens) if (owner === personaId) refreshTokens.delete(token);
+    },
+
+    expireAccessTokens(personaId) {
+      for (const entry of accessTokens.values()) if (entry.personaId === personaId) entry.expiresAt = 0;
+    },
+
+    issueTokens,
+  };
+
+  return simulator;
+}
@@ -1,5 +1,7 @@
-// Demo mode flag - when enabled, returns mock responses instead of calling real API
-const DEMO_MODE = process.env.DEMO_MODE === "true";
+import { DEMO_MODE, getRequiredEnvVar } from "./env";
+import { getModelProvider } from "./providers";
+
+export { getRequiredEnvVar };
 
 // Demo responses for testing without SecondMe API
 const DEMO_RESPONSES = [
@@ -10,14 +12,6 @@ const DEMO_RESPONSES = [
   "我主人提醒：如果有发热或者剧烈疼痛，建议不要拖，尽快就医。",
 ];
 
-export function getRequiredEnvVar(name: string): string {
-  const value = process.env[name];
-  if (!value && !DEMO_MODE) {
-    throw new Error(`${name} is required. Set it in .env.local`);
-  }
-  return value || "";
-}
-
 function getSecondMeApiBase(): string {
   return getRequiredEnvVar("SECONDME_API_BASE_URL");
 }
@@ -78,6 +72,14 @@ export async function exchangeCodeForTokens(
   return json.data;
 }
 
+/** SecondMe answered and refused the refresh token, as opposed to a network or server error */
+export class TokenRefreshError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TokenRefreshError";
+  }
+}
+
 // Refresh access token
 export async function refreshAccessToken(
   refreshToken: string
@@ -95,9 +97,13 @@ export async function refreshAccessToken(
     body: body.toString(),
   });
 
+  if (res.status >= 500) {
+    throw new Error(`Token refresh request failed: HTTP ${res.status}`);
+  }
+
   const json = await res.json();
   if (json.code !== 0) {
-    throw new Error(`Token refresh failed: ${json.message || JSON.stringify(json)}`);
+    throw new TokenRefreshError(`Token refresh failed: ${json.message || JSON.stringify(json)}`);
   }
 
   return json.data;
@@ -119,81 +125,28 @@ export async function getUserInfo(
   return json.data;
 }
 
-// Chat with an agent (streaming) - returns full response text
+// Chat with an agent (streaming) through the configured agent provider - returns full response text
 export async function chatWithAgent(
   accessToken: string,
   message: string,
   systemPrompt: string,
   sessionId?: string,
-  signal?: AbortSignal
+  signal?: AbortSignal,
+  onDelta?: (delta: string) => void // Called with each text chunk as it streams in
 ): Promise<{ text: string; sessionId: string }> {
   if (DEMO_MODE) {
-    await new Promise((r) => setTimeout(r, 500 + Math.random() * 1000));
     const randomResponse = DEMO_RESPONSES[Math.floor(Math.random() * DEMO_RESPONSES.length)];
+    // Type the canned answer out in a few chunks so the live report has something to show
+    const chunkSize = Math.ceil(randomResponse.length / 5);
+    for (let i = 0; i < randomResponse.length; i += chunkSize) {
+      await new Promise((r) => setTimeout(r, 100 + Math.random() * 200));
+      onDelta?.(randomResponse.slice(i, i + chunkSize));
+    }
     return {
       text: randomResponse,
       sessionId: sessionId || `demo-${Date.now()}`,
     };
   }
 
-  const body: Record<string, unknown> = {
-    message,
-    systemPrompt,
-  };
-  if (sessionId) {
-    body.sessionId = sessionId;
-  }
-
-  const res = await fetch(`${getSecondMeApiBase()}/api/secondme/chat/stream`, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify(body),
-    signal,
-  });
-
-  if (!res.ok) {
-    const status = res.status;
-    const text = await res.text().catch(() => "");
-    throw new Error(`Chat API error ${status}: ${text}`);
-  }
-
-  const reader = res.body?.getReader();
-  if (!reader) throw new Error("No response body");
-
-  const decoder = new TextDecoder();
-  let fullText = "";
-  let resultSessionId = sessionId || "";
-
-  while (true) {
-    const { done, value } = await reader.read();
-    if (done) break;
-
-    const chunk = decoder.decode(value, { stream: true });
-    const lines = chunk.split("\n");
-
-    for (const line of lines) {
-      if (!line.startsWith("data:")) continue;
-      const dataStr = line.slice(5).trim();
-      if (dataStr === "[DONE]") continue;
-
-      try {
-        const data = JSON.parse(dataStr);
-        if (data.type === "session" && data.sessionId) {
-          resultSessionId = data.sessionId;
-        }
-        if (data.type === "content_delta" || data.type === "delta") {
-          fullText += data.content || data.text || "";
-        }
-        if (data.choices?.[0]?.delta?.content) {
-          fullText += data.choices[0].delta.content;
-        }
-      } catch {
-      }
-    }
-  }
-
-  return { text: fullText, sessionId: resultSessionId };
+  return getModelProvider("agent").chat({ accessToken, message, systemPrompt, sessionId, signal, onDelta });
 }
@@ -1,3 +1,3 @@
 // Re-export from modular summary layer for backward compatibility
-export { buildSummary, extractKeyPoints } from "./summary/index";
-export type { ReportSummary } from "./summary/index";
+export { buildSummary, extractKeyPoints, extractConsensus, extractDivergence, textSimilarity } from "./summary/index";
+export type { ReportSummary, DeliberationSummary } from "./summary/index";
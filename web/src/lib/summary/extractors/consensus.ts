@@ -25,6 +25,11 @@ function jaccardSimilarity(a: Set<string>, b: Set<string>): number {
   return intersection / (a.size + b.size - intersection);
 }
 
+/** Bigram Jaccard similarity of two texts, 0..1 */
+export function textSimilarity(a: string, b: string): number {
+  return jaccardSimilarity(bigrams(a), bigrams(b));
+}
+
 interface PointWithSource {
   text: string;
   bigrams: Set<string>;
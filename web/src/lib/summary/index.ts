@@ -1,5 +1,7 @@
 // Summary module public API
 
-export type { ReportSummary, Extractor } from "./types";
+export type { ReportSummary, DeliberationSummary, Extractor } from "./types";
 export { buildSummary } from "./pipeline";
 export { extractKeyPoints } from "./extractors/key-points";
+export { extractConsensus, textSimilarity } from "./extractors/consensus";
+export { extractDivergence } from "./extractors/divergence";
@@ -1,7 +1,7 @@
-// LLM-based report summarizer using SecondMe Chat API
+// LLM-based report summarizer using the configured summary provider
 
 import type { AgentResponseRecord, ReportSummary } from "./types";
-import { chatWithAgent } from "@/lib/secondme";
+import { getModelProvider } from "@/lib/providers";
 
 const LLM_SUMMARY_ENABLED = process.env.LLM_SUMMARY_ENABLED === "true";
 const LLM_TIMEOUT_MS = 15_000;
@@ -82,7 +82,11 @@ export async function llmSummarize(
     const message = buildUserMessage(question, responses);
 
     const result = await Promise.race([
-      chatWithAgent(askerAccessToken, message, SUMMARIZER_SYSTEM_PROMPT),
+      getModelProvider("summary").chat({
+        accessToken: askerAccessToken,
+        message,
+        systemPrompt: SUMMARIZER_SYSTEM_PROMPT,
+      }),
       new Promise<never>((_, reject) =>
         setTimeout(() => reject(new Error("LLM summarize timeout")), LLM_TIMEOUT_MS)
       ),
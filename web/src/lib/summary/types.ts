@@ -15,6 +15,18 @@ export interface ReportSummary {
   noExperienceCount: number;
   totalAgentsQueried: number;
   reactionHighlights?: { agentId: string; reaction: string; references: string[] }[];
+  deliberation?: DeliberationSummary;
+}
+
+/** How consensus moved over the deliberation rounds; round 0 is the initial answers */
+export interface DeliberationSummary {
+  rounds: {
+    round: number;
+    consensus: { point: string; agentCount: number; totalAgents: number }[];
+    similarity?: number; // Mean bigram similarity of each agent's position to its previous one
+    failed?: boolean; // Nobody answered; the round has no consensus and ended the deliberation
+  }[];
+  converged: boolean; // Stopped early because positions stopped changing
 }
 
 export interface Extractor<T> {
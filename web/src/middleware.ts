@@ -1,15 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
-
-const WINDOW_SECONDS = 60;
+import {
+  WINDOW_SECONDS,
+  RATE_LIMIT_WINDOW_HEADER,
+  chargeRateLimit,
+  isRateLimitExempt,
+  rateLimitWindowId,
+  sessionRateLimitId,
+  upstashRestConfig,
+} from "@/lib/rate-limit";
 
 // Route-specific limits per window
 const CONSULTATION_LIMIT = 10; // authenticated: 10/min for consultation
 const DEFAULT_LIMIT = 60; // authenticated: 60/min for other APIs
 const ANON_LIMIT = 20; // unauthenticated: 20/min
 
-// Auth routes are exempt from rate limiting
-const EXEMPT_PREFIXES = ["/api/auth/"];
-
 export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
 
@@ -18,15 +22,14 @@ export async function middleware(request: NextRequest) {
     return NextResponse.next();
   }
 
-  // Exempt auth routes
-  if (EXEMPT_PREFIXES.some((p) => pathname.startsWith(p))) {
+  // Exempt auth routes and cancellations
+  if (isRateLimitExempt(request.method, pathname)) {
     return NextResponse.next();
   }
 
   // Skip rate limiting if KV is not configured (local dev)
-  const kvUrl = process.env.UPSTASH_REDIS_REST_URL || process.env.KV_REST_API_URL;
-  const kvToken = process.env.UPSTASH_REDIS_REST_TOKEN || process.env.KV_REST_API_TOKEN;
-  if (!kvUrl || !kvToken) {
+  const upstash = upstashRestConfig();
+  if (!upstash) {
     return NextResponse.next();
   }
 
@@ -38,21 +41,21 @@ export async function middleware(request: NextRequest) {
 
   // Use cookie hash as part of identifier for authenticated users (stable per session)
   const identifier = isAuthenticated
-    ? `user:${hashCode(sessionCookie!.value)}`
+    ? sessionRateLimitId(sessionCookie!.value)
     : `ip:${ip}`;
 
   // Determine limit
+  const isCreate = pathname === "/api/consultation" && request.method === "POST";
   let limit = isAuthenticated ? DEFAULT_LIMIT : ANON_LIMIT;
-  if (pathname === "/api/consultation" && request.method === "POST") {
+  if (isCreate) {
     limit = isAuthenticated ? CONSULTATION_LIMIT : ANON_LIMIT;
   }
 
   // Fixed-window counter via Upstash REST API
-  const windowId = Math.floor(Date.now() / 1000 / WINDOW_SECONDS);
-  const key = `ratelimit:${identifier}:${windowId}`;
+  const windowId = rateLimitWindowId();
 
   try {
-    const count = await kvIncr(kvUrl, kvToken, key, WINDOW_SECONDS + 5);
+    const count = await chargeRateLimit(upstash, identifier, windowId);
 
     if (count > limit) {
       return NextResponse.json(
@@ -68,7 +71,14 @@ export async function middleware(request: NextRequest) {
       );
     }
 
-    const response = NextResponse.next();
+    // Tell the create handler which window was charged, so a cancel can refund it
+    const headers = new Headers(request.headers);
+    headers.delete(RATE_LIMIT_WINDOW_HEADER);
+    if (isCreate) {
+      headers.set(RATE_LIMIT_WINDOW_HEADER, String(windowId));
+    }
+
+    const response = NextResponse.next({ request: { headers } });
     response.headers.set("X-RateLimit-Limit", String(limit));
     response.headers.set("X-RateLimit-Remaining", String(Math.max(0, limit - count)));
     return response;
@@ -83,33 +93,3 @@ export const config = {
   matcher: "/api/:path*",
 };
 
-// Simple hash for session cookie to create stable identifier without exposing cookie value
-function hashCode(str: string): string {
-  let hash = 0;
-  for (let i = 0; i < str.length; i++) {
-    const char = str.charCodeAt(i);
-    hash = ((hash << 5) - hash + char) | 0;
-  }
-  return Math.abs(hash).toString(36);
-}
-
-// Direct Upstash REST call for INCR + EXPIRE (works in Edge runtime)
-async function kvIncr(baseUrl: string, token: string, key: string, ttl: number): Promise<number> {
-  // INCR
-  const incrRes = await fetch(`${baseUrl}/incr/${encodeURIComponent(key)}`, {
-    method: "POST",
-    headers: { Authorization: `Bearer ${token}` },
-  });
-  const incrData = await incrRes.json();
-  const count = incrData.result as number;
-
-  // Set TTL only on first increment (count === 1)
-  if (count === 1) {
-    await fetch(`${baseUrl}/expire/${encodeURIComponent(key)}/${ttl}`, {
-      method: "POST",
-      headers: { Authorization: `Bearer ${token}` },
-    });
-  }
-
-  return count;
-}
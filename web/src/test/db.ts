@@ -0,0 +1,11 @@
+// Shared database fixture for tests - wipes this file's JSON and SQLite stores
+
+import * as fs from "fs";
+import { resetJsonCache, JSON_DB_FILE } from "@/lib/db/json-adapter";
+import { resetSqliteDb } from "@/lib/db/sqlite-adapter";
+
+export function resetTestDb(): void {
+  resetJsonCache();
+  fs.rmSync(JSON_DB_FILE, { force: true });
+  resetSqliteDb();
+}
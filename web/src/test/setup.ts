@@ -0,0 +1,18 @@
+// Vitest setup - every test file gets its own database files, so files running
+// in parallel forks never wipe each other's data
+
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { randomUUID } from "crypto";
+import { afterAll } from "vitest";
+
+const base = path.join(os.tmpdir(), `medcrowd-test-${randomUUID()}`);
+process.env.JSON_DB_PATH = `${base}.json`;
+process.env.SQLITE_PATH = `${base}.db`;
+
+afterAll(() => {
+  for (const suffix of [".json", ".db", ".db-wal", ".db-shm"]) {
+    fs.rmSync(base + suffix, { force: true });
+  }
+});
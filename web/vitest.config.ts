@@ -28,5 +28,7 @@ export default defineConfig({
     },
     // 全局测试 API
     globals: true,
+    // 每个测试文件使用独立的数据库文件
+    setupFiles: ['./src/test/setup.ts'],
   },
 });